@@ -0,0 +1,107 @@
+import { describe, expect, test } from '@jest/globals';
+import { readFileSync } from 'fs';
+import { validateCatalog } from '../catalog-validation';
+
+describe('validateCatalog', () => {
+  test('should accept a consistent catalog with alias keys', () => {
+    const users = { tableName: 'users', fullyQualifiedName: 'app.public.users', schema: 'public', database: 'app' };
+    const result = validateCatalog({
+      users,
+      'public.users': users,
+      'app.public.users': users,
+      events: { tableName: 'events', fullyQualifiedName: 'events', columns: [{ name: 'id', type: 'bigint', nullable: false }] }
+    });
+
+    expect(result.valid).toBe(true);
+    expect(result.problems).toEqual([]);
+    expect(result.knownTables.get('events')?.columns).toEqual([{ name: 'id', type: 'bigint', nullable: false }]);
+  });
+
+  test('should report every problem with its JSON path', () => {
+    const result = validateCatalog({
+      orders: { tableName: 'orders', fullyQualifiedName: 'sales.orders', schema: 'sales', columns: [{ name: 'id' }, { name: 3 }, { name: 'id' }] },
+      archived: { tableName: 'orders', fullyQualifiedName: 'sales.orders', schema: 'archive' },
+      'user table': { tableName: 'user table', fullyQualifiedName: 'public.user_table', schema: 'public', owner: 'me' },
+      broken: { fullyQualifiedName: 7 },
+      nothing: null
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.problems.map(problem => [problem.severity, problem.path])).toEqual([
+      ['error', '$["orders"].columns[1].name'],
+      ['warning', '$["orders"].columns[2].name'],
+      ['warning', '$["archived"].fullyQualifiedName'],
+      ['warning', '$["archived"].fullyQualifiedName'],
+      ['warning', '$["user table"].owner'],
+      ['warning', '$["user table"].fullyQualifiedName'],
+      ['error', '$["broken"]'],
+      ['error', '$["broken"].fullyQualifiedName'],
+      ['error', '$["nothing"]']
+    ]);
+    expect(result.problems[2].message).toBe('"sales.orders" does not match tableName, schema and database: expected "archive.orders"');
+    expect(result.problems[3].message).toBe('Duplicate fully qualified name "sales.orders", defined differently under "orders"');
+    // Entries with errors are left out, invalid columns dropped
+    expect(Array.from(result.knownTables.keys())).toEqual(['orders', 'archived', 'user table']);
+    expect(result.knownTables.get('orders')?.columns).toEqual([{ name: 'id' }, { name: 'id' }]);
+  });
+
+  test('should flag a table stored under a key that is not one of its names', () => {
+    const users = { tableName: 'users', fullyQualifiedName: 'public.users', schema: 'public' };
+    const { problems } = validateCatalog({ users, people: users });
+
+    expect(problems).toEqual([{
+      severity: 'warning',
+      path: '$["people"]',
+      message: 'Duplicate fully qualified name "public.users" under a key that is none of its names (also under "users")'
+    }]);
+  });
+
+  test('should treat definitions differing only in key order as the same table', () => {
+    const { problems } = validateCatalog({
+      'public.users': { tableName: 'users', fullyQualifiedName: 'public.users', schema: 'public', columns: [{ name: 'id', type: 'int' }] },
+      users: { schema: 'public', columns: [{ type: 'int', name: 'id' }], fullyQualifiedName: 'public.users', tableName: 'users' }
+    });
+
+    expect(problems).toEqual([]);
+  });
+
+  test('should add missing short-name and schema-qualified keys', () => {
+    const result = validateCatalog({
+      'app.public.users': { tableName: 'users', fullyQualifiedName: 'app.public.users', schema: 'public', database: 'app' },
+      'public.orders': { tableName: 'orders', fullyQualifiedName: 'public.orders', schema: 'public' },
+      'archive.orders': { tableName: 'orders', fullyQualifiedName: 'archive.orders', schema: 'archive' }
+    }, { addAliases: true });
+
+    // orders is ambiguous, so only the schema-qualified names are added
+    expect(result.addedKeys).toEqual(['users', 'public.users']);
+    expect(result.knownTables.get('users')?.fullyQualifiedName).toBe('app.public.users');
+    expect(result.knownTables.has('orders')).toBe(false);
+  });
+
+  test('should reject a catalog that is not an object', () => {
+    expect(validateCatalog([]).problems).toEqual([
+      { severity: 'error', path: '$', message: 'Known tables must be an object mapping keys to table definitions' }
+    ]);
+  });
+
+  test('should agree with the known tables schema', () => {
+    const schema = JSON.parse(readFileSync('schemas/known-tables.schema.json', 'utf8'));
+    const table = schema.$defs.tableMetadata;
+
+    for (const property of table.required) {
+      const entry: Record<string, string> = { tableName: 't', fullyQualifiedName: 't' };
+      delete entry[property];
+      expect(validateCatalog({ t: entry }).valid).toBe(false);
+    }
+    const complete = {
+      tableName: 't',
+      fullyQualifiedName: 'db.s.t',
+      schema: 's',
+      database: 'db',
+      columns: [{ name: 'id', type: 'int', nullable: true }],
+      dbt: { uniqueId: 'model.p.t', resourceType: 'model', packageName: 'p' }
+    };
+    expect(Object.keys(complete)).toEqual(Object.keys(table.properties));
+    expect(validateCatalog({ t: complete }).problems).toEqual([]);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, expect, test } from '@jest/globals';
+import { TableCatalog } from '../catalog';
+import { SqlTableExtractor, TableMetadata } from '../parser';
+
+const users: TableMetadata = { tableName: 'users', fullyQualifiedName: 'app.public.users', schema: 'public', database: 'app' };
+const archivedUsers: TableMetadata = { tableName: 'users', fullyQualifiedName: 'app.archive.users', schema: 'archive', database: 'app' };
+const events: TableMetadata = { tableName: 'events', fullyQualifiedName: 'logs.events', database: 'logs' };
+
+const names = (tables: TableMetadata[]) => tables.map(table => table.fullyQualifiedName);
+
+describe('TableCatalog', () => {
+  describe('Lookups', () => {
+    const catalog = new TableCatalog([['users', users], ['app.archive.users', archivedUsers], ['events', events]]);
+
+    test('should find tables by key, fully qualified, qualified and short name', () => {
+      expect(names(catalog.findCandidates('users'))).toEqual(['app.public.users']);
+      expect(names(catalog.findCandidates('app.archive.users'))).toEqual(['app.archive.users']);
+      expect(names(catalog.findCandidates('archive.users'))).toEqual(['app.archive.users']);
+      expect(names(catalog.findCandidates('app..users'))).toEqual(['app.public.users', 'app.archive.users']);
+      expect(names(catalog.findCandidates('logs.events'))).toEqual(['logs.events']);
+      expect(catalog.findCandidates('public.events')).toEqual([]);
+    });
+
+    test('should read like a map from key to metadata', () => {
+      expect(catalog.size).toBe(3);
+      expect(catalog.get('events')).toBe(events);
+      expect(Array.from(catalog.keys())).toEqual(['users', 'app.archive.users', 'events']);
+      expect(new Map(catalog)).toEqual(new Map([['users', users], ['app.archive.users', archivedUsers], ['events', events]]));
+    });
+
+    test('should key plain metadata entries by fully qualified name', () => {
+      expect(Array.from(new TableCatalog([users, events]).keys())).toEqual(['app.public.users', 'logs.events']);
+    });
+
+    test('should not count a table stored under several keys twice', () => {
+      const aliased = new TableCatalog([['users', users], ['public.users', users], ['app.public.users', { ...users }]]);
+      expect(names(aliased.findCandidates('users'))).toEqual(['app.public.users']);
+
+      aliased.delete('users');
+      expect(names(aliased.findCandidates('users'))).toEqual(['app.public.users']);
+      aliased.delete('public.users');
+      aliased.delete('app.public.users');
+      expect(aliased.findCandidates('users')).toEqual([]);
+    });
+  });
+
+  describe('Case sensitivity', () => {
+    test('should compare names exactly without a dialect', () => {
+      expect(new TableCatalog([users]).findCandidates('Public.USERS')).toEqual([]);
+    });
+
+    test("should follow the dialect's case sensitivity", () => {
+      expect(new TableCatalog([users], { dialect: 'sqlserver' }).caseInsensitive).toBe(true);
+      expect(names(new TableCatalog([users], { dialect: 'sqlserver' }).findCandidates('Public.USERS'))).toEqual(['app.public.users']);
+      expect(new TableCatalog([users], { dialect: 'postgres' }).findCandidates('USERS')).toEqual([]);
+      expect(new TableCatalog([users], { dialect: 'mysql', caseInsensitive: true }).findCandidates('USERS')).toHaveLength(1);
+    });
+
+    test('should ignore case in the resolution context as well', () => {
+      const catalog = new TableCatalog([users, archivedUsers], { caseInsensitive: true });
+      const result = SqlTableExtractor.extractTableNames('SELECT * FROM Users', { knownTables: catalog, searchPath: ['ARCHIVE'] });
+      expect(result.allTables).toEqual(['app.archive.users']);
+    });
+  });
+
+  describe('Extraction', () => {
+    test('should be accepted in place of a known tables map', () => {
+      const catalog = new TableCatalog([users, events]);
+      const result = SqlTableExtractor.extractTableNames('SELECT * FROM users JOIN logs.events ON true JOIN other ON true', {
+        knownTables: catalog,
+        filterCTEs: true
+      });
+      expect(result.realTables).toEqual(['app.public.users', 'logs.events']);
+      expect(result.unknownTables).toEqual(['other']);
+      expect(SqlTableExtractor.getTableNamesSimple('SELECT * FROM users', catalog)).toEqual(['app.public.users']);
+    });
+  });
+
+  describe('Performance', () => {
+    const buildCatalog = (size: number) => new TableCatalog(Array.from({ length: size }, (_, i) => ({
+      tableName: `t${i}`,
+      fullyQualifiedName: `db.s${i % 50}.t${i}`,
+      schema: `s${i % 50}`,
+      database: 'db'
+    })));
+
+    const lookups = Array.from({ length: 500 }, (_, i) => i % 2 === 0 ? `t${i}` : `s${i % 50}.t${i}`);
+
+    const timeResolution = (catalog: TableCatalog) => {
+      let best = Infinity;
+      for (let run = 0; run < 5; run++) {
+        const start = performance.now();
+        for (let repeat = 0; repeat < 20; repeat++) {
+          for (const name of lookups) {
+            SqlTableExtractor.findTableMetadata(name, catalog, { searchPath: ['s0'] });
+          }
+        }
+        best = Math.min(best, performance.now() - start);
+      }
+      return best;
+    };
+
+    test('should resolve names in flat time as the catalog grows', () => {
+      const small = buildCatalog(1_000);
+      const large = buildCatalog(100_000);
+      expect(SqlTableExtractor.findTableMetadata('s7.t507', large)?.fullyQualifiedName).toBe('db.s7.t507');
+
+      const smallTime = timeResolution(small);
+      const largeTime = timeResolution(large);
+      // A linear scan would be about 100 times slower on the large catalog
+      expect(largeTime).toBeLessThan(Math.max(smallTime, 1) * 5);
+    });
+  });
+});
@@ -0,0 +1,215 @@
+import { describe, expect, test } from '@jest/globals';
+import { extractColumnReferences } from '../columns';
+import { TableMetadata } from '../parser';
+
+const summarize = (sql: string, knownTables?: Map<string, TableMetadata>) =>
+  extractColumnReferences(sql, { knownTables }).columns.map(c => [c.rawText, c.clause, c.table]);
+
+describe('extractColumnReferences', () => {
+  describe('Clauses', () => {
+    test('should report columns from SELECT, JOIN ON, WHERE, GROUP BY and ORDER BY', () => {
+      const sql = `
+        SELECT u.id, o.total FROM users u
+        JOIN orders o ON o.user_id = u.id
+        WHERE o.status = 'paid'
+        GROUP BY u.id, o.total
+        ORDER BY o.total DESC
+      `;
+      expect(summarize(sql)).toEqual([
+        ['u.id', 'select', 'users'],
+        ['o.total', 'select', 'orders'],
+        ['o.user_id', 'join', 'orders'],
+        ['u.id', 'join', 'users'],
+        ['o.status', 'where', 'orders'],
+        ['u.id', 'groupBy', 'users'],
+        ['o.total', 'groupBy', 'orders'],
+        ['o.total', 'orderBy', 'orders']
+      ]);
+    });
+
+    test('should skip functions, aliases, literals and keyword-like words', () => {
+      const sql = `
+        SELECT COUNT(*) AS n, price * 2 doubled, EXTRACT(YEAR FROM created_at),
+               CAST(amount AS DECIMAL(10, 2)), TRUE, CURRENT_DATE
+        FROM sales WHERE created_at > DATE '2024-01-01' AND note IS NOT NULL
+        ORDER BY doubled NULLS LAST
+      `;
+      expect(summarize(sql).map(([rawText]) => rawText)).toEqual(['price', 'created_at', 'amount', 'created_at', 'note']);
+    });
+
+    test('should report INSERT column lists and UPDATE SET targets as writes', () => {
+      const insert = extractColumnReferences('INSERT INTO logs (id, msg) SELECT e.id, e.msg FROM events e').columns;
+      expect(insert.map(c => [c.name, c.clause, c.access, c.table])).toEqual([
+        ['id', 'insert', 'write', 'logs'],
+        ['msg', 'insert', 'write', 'logs'],
+        ['id', 'select', 'read', 'events'],
+        ['msg', 'select', 'read', 'events']
+      ]);
+
+      const update = extractColumnReferences('UPDATE users u SET name = a.name, u.active = TRUE FROM accounts a WHERE a.id = u.id').columns;
+      expect(update.map(c => [c.rawText, c.clause, c.access, c.table])).toEqual([
+        ['name', 'set', 'write', 'users'],
+        ['a.name', 'set', 'read', 'accounts'],
+        ['u.active', 'set', 'write', 'users'],
+        ['a.id', 'where', 'read', 'accounts'],
+        ['u.id', 'where', 'read', 'users']
+      ]);
+    });
+
+    test('should handle MERGE actions and ON CONFLICT updates', () => {
+      const merge = `
+        MERGE INTO stock t USING deliveries s ON t.id = s.id
+        WHEN MATCHED THEN UPDATE SET qty = t.qty + s.qty
+        WHEN NOT MATCHED THEN INSERT (id, qty) VALUES (s.id, s.qty)
+      `;
+      expect(extractColumnReferences(merge).columns.filter(c => c.access === 'write').map(c => [c.name, c.table]))
+        .toEqual([['qty', 'stock'], ['id', 'stock'], ['qty', 'stock']]);
+
+      const upsert = 'INSERT INTO t (a, b) VALUES (1, 2) ON CONFLICT (a) DO UPDATE SET b = EXCLUDED.b';
+      expect(summarize(upsert)).toEqual([
+        ['a', 'insert', 't'],
+        ['b', 'insert', 't'],
+        ['b', 'set', 't'],
+        ['EXCLUDED.b', 'set', undefined]
+      ]);
+    });
+  });
+
+  describe('Attribution', () => {
+    test('should attribute unqualified columns in single-table queries', () => {
+      const knownTables = new Map<string, TableMetadata>([
+        ['users', { tableName: 'users', fullyQualifiedName: 'public.users', schema: 'public' }]
+      ]);
+      expect(summarize('SELECT id FROM users WHERE active', knownTables)).toEqual([
+        ['id', 'select', 'public.users'],
+        ['active', 'where', 'public.users']
+      ]);
+    });
+
+    test('should report unqualified columns in multi-table queries as ambiguous', () => {
+      const [column] = extractColumnReferences('SELECT name FROM users u JOIN teams t ON t.id = u.team_id').columns;
+      expect(column).toMatchObject({ name: 'name', ambiguous: true, candidates: ['users', 'teams'] });
+      expect(column.table).toBeUndefined();
+    });
+
+    test('should resolve qualifiers through table names, CTEs and derived tables', () => {
+      const sql = `
+        WITH totals AS (SELECT user_id, SUM(amount) AS total FROM payments GROUP BY user_id)
+        SELECT public.users.name, totals.total, recent.at
+        FROM public.users
+        JOIN totals ON totals.user_id = users.id
+        JOIN (SELECT user_id, MAX(created_at) AS at FROM logins GROUP BY user_id) recent ON recent.user_id = users.id
+      `;
+      const columns = extractColumnReferences(sql).columns;
+      expect(columns.filter(c => c.qualifier).map(c => [c.rawText, c.table, c.tableKind])).toEqual([
+        ['public.users.name', 'public.users', 'table'],
+        ['totals.total', 'totals', 'cte'],
+        ['recent.at', 'recent', 'derived'],
+        ['totals.user_id', 'totals', 'cte'],
+        ['users.id', 'public.users', 'table'],
+        ['recent.user_id', 'recent', 'derived'],
+        ['users.id', 'public.users', 'table']
+      ]);
+      expect(columns.find(c => c.name === 'amount')).toMatchObject({ table: 'payments', ambiguous: false });
+    });
+
+    test('should attribute columns to table function aliases', () => {
+      const columns = extractColumnReferences('SELECT t.tag FROM users u CROSS JOIN unnest(u.tags) AS t(tag)').columns;
+      expect(columns.map(c => [c.rawText, c.table, c.tableKind])).toEqual([['t.tag', 't', 'function']]);
+    });
+
+    test('should resolve correlated qualifiers from enclosing scopes', () => {
+      const sql = 'SELECT id FROM users u WHERE EXISTS (SELECT 1 FROM orders o WHERE o.user_id = u.id)';
+      expect(summarize(sql)).toEqual([
+        ['id', 'select', 'users'],
+        ['o.user_id', 'where', 'orders'],
+        ['u.id', 'where', 'users']
+      ]);
+    });
+
+    test('should not treat SELECT list aliases in ORDER BY as columns', () => {
+      const sql = 'SELECT u.name AS label FROM users u JOIN teams t ON t.id = u.team_id ORDER BY label';
+      expect(extractColumnReferences(sql).columns.map(c => c.clause)).not.toContain('orderBy');
+    });
+
+    test('should report wildcards', () => {
+      expect(summarize('SELECT u.*, * FROM users u JOIN teams t ON TRUE')).toEqual([
+        ['u.*', 'select', 'users'],
+        ['*', 'select', undefined]
+      ]);
+    });
+  });
+
+  describe('Column metadata', () => {
+    const knownTables = new Map<string, TableMetadata>([
+      ['users', {
+        tableName: 'users',
+        fullyQualifiedName: 'public.users',
+        schema: 'public',
+        columns: [
+          { name: 'id', type: 'integer', nullable: false },
+          { name: 'name', type: 'text', nullable: true },
+          { name: 'team_id', type: 'integer', nullable: true }
+        ]
+      }],
+      ['teams', {
+        tableName: 'teams',
+        fullyQualifiedName: 'public.teams',
+        schema: 'public',
+        columns: [
+          { name: 'id', type: 'integer', nullable: false },
+          { name: 'title', type: 'text' }
+        ]
+      }],
+      ['events', { tableName: 'events', fullyQualifiedName: 'public.events', schema: 'public' }]
+    ]);
+
+    test('should attribute unqualified columns to the only table that has them', () => {
+      const sql = 'SELECT name, title, id FROM users u JOIN teams t ON t.id = u.team_id';
+      const columns = extractColumnReferences(sql, { knownTables }).columns.filter(c => c.clause === 'select');
+      expect(columns.map(c => [c.name, c.table, c.ambiguous, c.candidates])).toEqual([
+        ['name', 'public.users', false, undefined],
+        ['title', 'public.teams', false, undefined],
+        ['id', undefined, true, ['public.users', 'public.teams']]
+      ]);
+    });
+
+    test('should keep tables without column metadata as candidates', () => {
+      const sql = 'SELECT title, payload FROM teams JOIN events ON TRUE';
+      const columns = extractColumnReferences(sql, { knownTables }).columns;
+      expect(columns.map(c => [c.name, c.table, c.candidates])).toEqual([
+        ['title', undefined, ['public.teams', 'public.events']],
+        ['payload', 'public.events', undefined]
+      ]);
+    });
+
+    test('should expand wildcards to concrete columns', () => {
+      const sql = 'SELECT t.*, * FROM users u JOIN teams t ON t.id = u.team_id';
+      const [qualified, all] = extractColumnReferences(sql, { knownTables }).columns;
+      expect(qualified.expandedColumns).toEqual([
+        { table: 'public.teams', name: 'id', type: 'integer', nullable: false },
+        { table: 'public.teams', name: 'title', type: 'text' }
+      ]);
+      expect(all.expandedColumns?.map(c => `${c.table}.${c.name}`)).toEqual([
+        'public.users.id', 'public.users.name', 'public.users.team_id', 'public.teams.id', 'public.teams.title'
+      ]);
+    });
+
+    test('should not expand wildcards over tables without known columns', () => {
+      const [wildcard] = extractColumnReferences('SELECT * FROM users JOIN events ON TRUE', { knownTables }).columns;
+      expect(wildcard.expandedColumns).toBeUndefined();
+    });
+  });
+
+  describe('Positions', () => {
+    test('should report statement index, offsets, line and column', () => {
+      const sql = 'SELECT 1;\nSELECT\n  name FROM users';
+      expect(extractColumnReferences(sql).columns).toEqual([
+        {
+          rawText: 'name', name: 'name', table: 'users', tableKind: 'table', clause: 'select', access: 'read',
+          ambiguous: false, statementIndex: 1, scopeId: 0, start: 19, end: 23, line: 3, column: 3
+        }
+      ]);
+    });
+  });
+});
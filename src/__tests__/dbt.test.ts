@@ -0,0 +1,149 @@
+import { describe, expect, test } from '@jest/globals';
+import { loadDbtManifest, loadDbtTemplateOptions } from '../dbt';
+import { SqlTableExtractor } from '../parser';
+import { renderTemplate } from '../templating';
+
+const manifest = {
+  metadata: { dbt_schema_version: 'https://schemas.getdbt.com/dbt/manifest/v12.json' },
+  nodes: {
+    'model.shop.fct_orders': {
+      resource_type: 'model',
+      package_name: 'shop',
+      name: 'fct_orders',
+      alias: 'orders',
+      database: 'analytics',
+      schema: 'marts',
+      config: { materialized: 'table' },
+      columns: { id: { name: 'id', data_type: 'integer' }, total: { name: 'total', data_type: null } }
+    },
+    'model.shop.int_orders': {
+      resource_type: 'model',
+      package_name: 'shop',
+      name: 'int_orders',
+      alias: 'int_orders',
+      database: 'analytics',
+      schema: 'staging',
+      config: { materialized: 'ephemeral' },
+      columns: {}
+    },
+    'seed.shop.countries': {
+      resource_type: 'seed',
+      package_name: 'shop',
+      name: 'countries',
+      alias: 'countries',
+      database: 'analytics',
+      schema: 'seeds',
+      config: { materialized: 'seed' },
+      columns: {}
+    },
+    'snapshot.shop.users_snapshot': {
+      resource_type: 'snapshot',
+      package_name: 'shop',
+      name: 'users_snapshot',
+      alias: 'users_snapshot',
+      database: 'analytics',
+      schema: 'snapshots',
+      config: { materialized: 'snapshot' },
+      columns: {}
+    },
+    'test.shop.not_null_orders_id': {
+      resource_type: 'test',
+      name: 'not_null_orders_id',
+      alias: 'not_null_orders_id',
+      database: 'analytics',
+      schema: 'tests'
+    }
+  },
+  sources: {
+    'source.shop.raw.events': {
+      resource_type: 'source',
+      package_name: 'shop',
+      source_name: 'raw',
+      name: 'events',
+      identifier: 'event_log',
+      database: 'raw',
+      schema: 'public',
+      columns: {}
+    }
+  }
+};
+
+describe('loadDbtManifest', () => {
+  test('should build known tables for models, sources, seeds and snapshots', () => {
+    const knownTables = loadDbtManifest(manifest);
+
+    expect(Array.from(knownTables.keys())).toEqual([
+      'analytics.marts.orders',
+      'analytics.seeds.countries',
+      'analytics.snapshots.users_snapshot',
+      'raw.public.event_log'
+    ]);
+    expect(knownTables.get('analytics.marts.orders')).toEqual({
+      tableName: 'orders',
+      fullyQualifiedName: 'analytics.marts.orders',
+      schema: 'marts',
+      database: 'analytics',
+      columns: [{ name: 'id', type: 'integer' }, { name: 'total' }],
+      dbt: { uniqueId: 'model.shop.fct_orders', resourceType: 'model', packageName: 'shop' }
+    });
+    expect(knownTables.get('raw.public.event_log')?.dbt).toEqual({
+      uniqueId: 'source.shop.raw.events',
+      resourceType: 'source',
+      packageName: 'shop'
+    });
+  });
+
+  test('should take columns from the catalog, in warehouse order', () => {
+    const catalog = {
+      nodes: {
+        'model.shop.fct_orders': {
+          metadata: { type: 'BASE TABLE', database: 'analytics', schema: 'marts', name: 'orders' },
+          columns: {
+            total: { name: 'total', type: 'numeric', index: 2 },
+            id: { name: 'id', type: 'bigint', index: 1 }
+          }
+        }
+      },
+      sources: {
+        'source.shop.raw.events': {
+          columns: { payload: { name: 'payload', type: 'jsonb', index: 1 } }
+        }
+      }
+    };
+    const knownTables = loadDbtManifest(manifest, catalog);
+
+    expect(knownTables.get('analytics.marts.orders')?.columns).toEqual([
+      { name: 'id', type: 'bigint' },
+      { name: 'total', type: 'numeric' }
+    ]);
+    expect(knownTables.get('raw.public.event_log')?.columns).toEqual([{ name: 'payload', type: 'jsonb' }]);
+  });
+
+  test('should resolve queries against the manifest tables', () => {
+    const result = SqlTableExtractor.extractTableNames('SELECT * FROM marts.orders JOIN event_log ON true', {
+      knownTables: loadDbtManifest(manifest)
+    });
+
+    expect(result.allTables).toEqual(['analytics.marts.orders', 'raw.public.event_log']);
+  });
+
+  test('should reject files that are not manifests', () => {
+    expect(() => loadDbtManifest({ tables: [] })).toThrow('Not a dbt manifest');
+    expect(() => loadDbtManifest(manifest, [])).toThrow('Not a dbt catalog');
+  });
+});
+
+describe('loadDbtTemplateOptions', () => {
+  test('should map refs and sources to the tables they build', () => {
+    const templateOptions = loadDbtTemplateOptions(manifest);
+
+    expect(templateOptions.refs).toMatchObject({
+      fct_orders: 'analytics.marts.orders',
+      'shop.fct_orders': 'analytics.marts.orders',
+      countries: 'analytics.seeds.countries'
+    });
+    expect(templateOptions.sources).toEqual({ 'raw.events': 'raw.public.event_log' });
+    expect(renderTemplate("SELECT * FROM {{ ref('fct_orders') }}, {{ source('raw', 'events') }}", templateOptions).sql)
+      .toBe('SELECT * FROM analytics.marts.orders, raw.public.event_log');
+  });
+});
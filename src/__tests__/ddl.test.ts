@@ -0,0 +1,90 @@
+import { describe, expect, test } from '@jest/globals';
+import { catalogFromDdl } from '../ddl';
+import { SqlTableExtractor } from '../parser';
+
+describe('catalogFromDdl', () => {
+  test('should build tables with columns from CREATE TABLE', () => {
+    const knownTables = catalogFromDdl(`
+      CREATE TABLE IF NOT EXISTS Sales.Orders (
+        id serial PRIMARY KEY,
+        "CustomerId" integer NOT NULL REFERENCES sales.customers (id),
+        total numeric(10, 2) NULL,
+        placed_at timestamp with time zone DEFAULT now(),
+        CONSTRAINT orders_customer UNIQUE ("CustomerId", placed_at)
+      );
+    `, { dialect: 'postgres', currentDatabase: 'shop' });
+
+    expect(Array.from(knownTables.values())).toEqual([{
+      tableName: 'orders',
+      fullyQualifiedName: 'shop.sales.orders',
+      schema: 'sales',
+      database: 'shop',
+      columns: [
+        { name: 'id', type: 'serial', nullable: false },
+        { name: 'CustomerId', type: 'integer', nullable: false },
+        { name: 'total', type: 'numeric(10, 2)', nullable: true },
+        { name: 'placed_at', type: 'timestamp with time zone' }
+      ]
+    }]);
+  });
+
+  test('should take view and CREATE TABLE AS columns from their queries', () => {
+    const knownTables = catalogFromDdl([
+      'CREATE TABLE orders (id int, total int);',
+      'CREATE VIEW big_orders AS SELECT o.id, o.total * 2 AS doubled, count(*) n FROM orders o GROUP BY 1, 2;',
+      'CREATE OR REPLACE VIEW named (a, b) AS SELECT 1, 2;',
+      'CREATE TABLE sums AS SELECT id + 1 FROM orders;',
+      'CREATE TABLE orders_copy (LIKE orders);',
+      'SELECT id, total INTO TEMP order_totals FROM orders;',
+      'CREATE VIEW lowered AS SELECT id AS ident, lower(x) FROM orders;'
+    ], { defaultSchema: 'public' });
+
+    expect(knownTables.get('public.big_orders')?.columns).toEqual([{ name: 'id' }, { name: 'doubled' }, { name: 'n' }]);
+    expect(knownTables.get('public.named')?.columns).toEqual([{ name: 'a' }, { name: 'b' }]);
+    expect(knownTables.get('public.sums')).toEqual({ tableName: 'sums', fullyQualifiedName: 'public.sums', schema: 'public' });
+    expect(knownTables.get('public.orders_copy')?.columns).toEqual([{ name: 'id', type: 'int' }, { name: 'total', type: 'int' }]);
+    expect(knownTables.get('public.order_totals')?.columns).toEqual([{ name: 'id' }, { name: 'total' }]);
+    // One unnamed expression leaves every column out
+    expect(knownTables.get('public.lowered')?.columns).toBeUndefined();
+  });
+
+  test('should apply ALTER, RENAME and DROP statements in order', () => {
+    const knownTables = catalogFromDdl([
+      'CREATE TABLE app.orders (id int, user_id int, total int); CREATE TABLE app.scratch (x int);',
+      'ALTER TABLE app.orders RENAME TO purchases;',
+      'ALTER TABLE purchases ADD COLUMN status text NOT NULL, DROP COLUMN user_id;',
+      'ALTER TABLE purchases RENAME COLUMN total TO amount;',
+      'ALTER TABLE purchases ALTER COLUMN amount TYPE bigint, ALTER COLUMN status DROP NOT NULL;',
+      'DROP TABLE IF EXISTS app.scratch, app.missing CASCADE;'
+    ]);
+
+    expect(Array.from(knownTables.values())).toEqual([{
+      tableName: 'purchases',
+      fullyQualifiedName: 'app.purchases',
+      schema: 'app',
+      columns: [
+        { name: 'id', type: 'int' },
+        { name: 'amount', type: 'bigint' },
+        { name: 'status', type: 'text', nullable: true }
+      ]
+    }]);
+  });
+
+  test('should follow MySQL RENAME TABLE, CHANGE and MODIFY', () => {
+    const knownTables = catalogFromDdl(
+      'CREATE TABLE `a` (x INT NOT NULL); RENAME TABLE a TO b; ALTER TABLE b CHANGE x y BIGINT, MODIFY COLUMN y INT NOT NULL; CREATE TABLE c LIKE b;',
+      { dialect: 'mysql' }
+    );
+
+    expect(Array.from(knownTables.keys())).toEqual(['b', 'c']);
+    expect(knownTables.get('c')?.columns).toEqual([{ name: 'y', type: 'INT', nullable: false }]);
+  });
+
+  test('should resolve queries against the tables the DDL leaves', () => {
+    const knownTables = catalogFromDdl('CREATE TABLE users (id int); ALTER TABLE users RENAME TO people;', { defaultSchema: 'public' });
+    const result = SqlTableExtractor.extractTableNames('SELECT * FROM people JOIN users ON true', { knownTables, filterCTEs: true });
+
+    expect(result.realTables).toEqual(['public.people']);
+    expect(result.unknownTables).toEqual(['users']);
+  });
+});
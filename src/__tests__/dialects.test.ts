@@ -0,0 +1,68 @@
+import { describe, expect, test } from '@jest/globals';
+import { getDialect, getDialectLexerOptions, getDialectNames } from '../dialects';
+import { SqlTableExtractor } from '../parser';
+
+const tables = (sql: string, dialect: string) =>
+  SqlTableExtractor.extractTableNames(sql, { dialect: getDialect(dialect) }).allTables;
+
+describe('Dialect profiles', () => {
+  test('should provide every supported dialect', () => {
+    expect(getDialectNames()).toEqual([
+      'postgres', 'mysql', 'sqlserver', 'oracle', 'snowflake', 'bigquery', 'sqlite', 'duckdb', 'redshift', 'clickhouse'
+    ]);
+    for (const name of getDialectNames()) {
+      const dialect = getDialect(name);
+      expect(dialect.name).toBe(name);
+      expect(dialect.keywords).toContain('FROM');
+    }
+  });
+
+  test('should look dialects up case-insensitively and reject unknown names', () => {
+    expect(getDialect('Snowflake').name).toBe('snowflake');
+    expect(() => getDialect('access')).toThrow('Unknown SQL dialect "access"');
+    expect(() => getDialect('toString')).toThrow('Unknown SQL dialect');
+  });
+
+  test('should translate the profile into lexer options', () => {
+    expect(getDialectLexerOptions('mysql')).toEqual({
+      nestedBlockComments: false,
+      dollarQuotedStrings: false,
+      lineComments: ['--', '#'],
+      identifierQuotes: ['`'],
+      doubleQuotedStrings: true,
+      backslashEscapes: true,
+      stringPrefixes: ['N', 'X', 'B']
+    });
+    expect(getDialectLexerOptions()).toEqual({});
+  });
+
+  describe('Extraction', () => {
+    test('should use the dialect keywords', () => {
+      const sql = 'MERGE stock AS t USING deliveries AS s ON t.id = s.id WHEN MATCHED THEN DELETE';
+      expect(tables(sql, 'sqlserver')).toEqual(['stock', 'deliveries']);
+      expect(tables(sql, 'postgres')).toEqual(['deliveries']);
+    });
+
+    test('should follow the dialect identifier quoting', () => {
+      const sql = 'SELECT * FROM [dbo].[orders] JOIN `shop`.`items` ON TRUE';
+      expect(tables(sql, 'sqlserver')).toEqual(['dbo.orders']);
+      expect(tables(sql, 'sqlite')).toEqual(['dbo.orders', 'shop.items']);
+    });
+
+    test('should read MySQL double-quoted strings and backslash escapes as strings', () => {
+      const sql = `SELECT "FROM fake", 'it\\'s FROM fake' FROM users`;
+      expect(tables(sql, 'mysql')).toEqual(['users']);
+    });
+
+    test('should follow the dialect comment syntax', () => {
+      expect(tables('SELECT * FROM a # JOIN b\nJOIN c ON TRUE', 'mysql')).toEqual(['a', 'c']);
+      expect(tables('SELECT * FROM a // JOIN b\nJOIN c ON TRUE', 'snowflake')).toEqual(['A', 'C']);
+      expect(tables('SELECT * FROM #temp', 'sqlserver')).toEqual(['#temp']);
+    });
+
+    test('should let explicit keywords override the dialect keywords', () => {
+      const result = SqlTableExtractor.extractTableNames('SELECT * FROM a JOIN b ON TRUE', { dialect: 'postgres', keywords: ['JOIN'] });
+      expect(result.allTables).toEqual(['b']);
+    });
+  });
+});
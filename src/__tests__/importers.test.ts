@@ -0,0 +1,109 @@
+import { describe, expect, test } from '@jest/globals';
+import { readFileSync } from 'fs';
+import { loadInformationSchema, loadInformationSchemaCsv, loadMetabaseMetadata, loadSqliteDatabase } from '../importers';
+
+describe('Catalog importers', () => {
+  describe('loadInformationSchema', () => {
+    test('should build tables from information_schema.columns rows, in ordinal order', () => {
+      const knownTables = loadInformationSchema([
+        { TABLE_CATALOG: 'shop', TABLE_SCHEMA: 'sales', TABLE_NAME: 'orders', COLUMN_NAME: 'total', ORDINAL_POSITION: 2, DATA_TYPE: 'NUMBER', IS_NULLABLE: 'YES' },
+        { TABLE_CATALOG: 'shop', TABLE_SCHEMA: 'sales', TABLE_NAME: 'orders', COLUMN_NAME: 'id', ORDINAL_POSITION: 1, DATA_TYPE: 'NUMBER', IS_NULLABLE: 'NO' },
+        { TABLE_CATALOG: 'shop', TABLE_SCHEMA: 'sales', TABLE_NAME: 'empty', COLUMN_NAME: null }
+      ]);
+
+      expect(Array.from(knownTables.values())).toEqual([
+        {
+          tableName: 'orders',
+          fullyQualifiedName: 'shop.sales.orders',
+          schema: 'sales',
+          database: 'shop',
+          columns: [
+            { name: 'id', type: 'NUMBER', nullable: false },
+            { name: 'total', type: 'NUMBER', nullable: true }
+          ]
+        },
+        { tableName: 'empty', fullyQualifiedName: 'shop.sales.empty', schema: 'sales', database: 'shop' }
+      ]);
+    });
+
+    test('should read CSV exports with quoted fields', () => {
+      const csv = [
+        'table_schema,table_name,column_name,ordinal_position,data_type,is_nullable',
+        'public,users,id,1,integer,NO',
+        'public,users,email,2,"character varying",YES',
+        ''
+      ].join('\n');
+
+      expect(loadInformationSchemaCsv(csv).get('public.users')?.columns).toEqual([
+        { name: 'id', type: 'integer', nullable: false },
+        { name: 'email', type: 'character varying', nullable: true }
+      ]);
+    });
+
+    test('should reject exports without table names', () => {
+      expect(() => loadInformationSchema({ rows: [] })).toThrow('Not an information_schema export');
+      expect(() => loadInformationSchemaCsv('name,type\nusers,table\n')).toThrow('"table_name"');
+    });
+  });
+
+  describe('loadMetabaseMetadata', () => {
+    test('should build tables from a database metadata response', () => {
+      const knownTables = loadMetabaseMetadata({
+        id: 2,
+        name: 'Shop warehouse',
+        engine: 'postgres',
+        details: { dbname: 'shop' },
+        tables: [
+          {
+            id: 10,
+            name: 'orders',
+            schema: 'public',
+            active: true,
+            fields: [
+              { name: 'total', database_type: 'numeric', database_position: 1, parent_id: null },
+              { name: 'id', database_type: 'int4', database_position: 0, parent_id: null },
+              { name: 'payload → kind', database_type: 'text', database_position: 2, parent_id: 99 }
+            ]
+          },
+          { id: 11, name: 'retired', schema: 'public', active: false, fields: [] }
+        ]
+      });
+
+      expect(Array.from(knownTables.values())).toEqual([{
+        tableName: 'orders',
+        fullyQualifiedName: 'shop.public.orders',
+        schema: 'public',
+        database: 'shop',
+        columns: [{ name: 'id', type: 'int4' }, { name: 'total', type: 'numeric' }]
+      }]);
+    });
+
+    test('should accept a table list and a single table', () => {
+      expect(Array.from(loadMetabaseMetadata([{ name: 'users', schema: 'PUBLIC', db: { details: { db: 'app' } } }]).keys()))
+        .toEqual(['app.PUBLIC.users']);
+      expect(loadMetabaseMetadata({ name: 'events', fields: [{ name: 'id', database_type: 'bigint' }] }).get('events'))
+        .toEqual({ tableName: 'events', fullyQualifiedName: 'events', columns: [{ name: 'id', type: 'bigint' }] });
+      expect(() => loadMetabaseMetadata({ data: [] })).toThrow('Not a Metabase metadata response');
+    });
+  });
+
+  describe('loadSqliteDatabase', () => {
+    test('should build tables and views from sqlite_master', () => {
+      const knownTables = loadSqliteDatabase(readFileSync('src/__tests__/fixtures/shop.sqlite'));
+
+      expect(Array.from(knownTables.keys())).toEqual(['users', 'named_users', 'readings']);
+      expect(knownTables.get('users')?.columns).toEqual([
+        { name: 'id', type: 'INTEGER', nullable: false },
+        { name: 'Email', type: 'TEXT', nullable: false },
+        { name: 'name', type: 'varchar(20)' }
+      ]);
+      expect(knownTables.get('named_users')?.columns).toEqual([{ name: 'id' }, { name: 'name' }]);
+      // Its CREATE statement spills onto overflow pages
+      expect(knownTables.get('readings')?.columns).toHaveLength(30);
+    });
+
+    test('should reject files that are not SQLite databases', () => {
+      expect(() => loadSqliteDatabase(new TextEncoder().encode('CREATE TABLE users (id int);'))).toThrow('Not a SQLite database');
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, expect, test } from '@jest/globals';
+import { extractJoinGraph, formatJoinGraph, mergeJoinGraphs } from '../joins';
+import { TableMetadata } from '../parser';
+
+describe('Join graph', () => {
+  describe('extractJoinGraph', () => {
+    test('should record the join type and ON columns of each join', () => {
+      const graph = extractJoinGraph(
+        'SELECT * FROM orders o LEFT OUTER JOIN users u ON u.id = o.user_id ' +
+        'JOIN items i ON i.order_id = o.id AND i.sku <> 0'
+      );
+
+      expect(graph.nodes).toEqual([
+        { id: 'orders', kind: 'table' },
+        { id: 'users', kind: 'table' },
+        { id: 'items', kind: 'table' }
+      ]);
+      expect(graph.edges).toEqual([
+        { left: 'orders', right: 'users', joinType: 'LEFT', lateral: false, on: [{ leftColumn: 'user_id', rightColumn: 'id' }], using: [], count: 1 },
+        { left: 'orders', right: 'items', joinType: 'INNER', lateral: false, on: [{ leftColumn: 'id', rightColumn: 'order_id' }], using: [], count: 1 }
+      ]);
+    });
+
+    test('should join comma lists, USING and conditionless joins to the item before them', () => {
+      const graph = extractJoinGraph('SELECT * FROM a, b CROSS JOIN c NATURAL JOIN d FULL JOIN e USING (id, k)');
+
+      expect(graph.edges.map(edge => [edge.left, edge.right, edge.joinType, edge.using])).toEqual([
+        ['a', 'b', 'CROSS', []],
+        ['b', 'c', 'CROSS', []],
+        ['c', 'd', 'INNER', []],
+        ['d', 'e', 'FULL', ['id', 'k']]
+      ]);
+    });
+
+    test('should report APPLY and LATERAL joins to the tables of derived tables', () => {
+      const graph = extractJoinGraph(
+        'SELECT * FROM a CROSS APPLY (SELECT * FROM b WHERE b.id = a.id) x ' +
+        'OUTER APPLY (SELECT TOP 1 * FROM c) y ' +
+        'LEFT JOIN LATERAL (SELECT * FROM d) l ON true, LATERAL unnest(a.tags) t'
+      );
+
+      expect(graph.edges.map(edge => [edge.left, edge.right, edge.joinType, edge.lateral])).toEqual([
+        ['a', 'b', 'CROSS APPLY', false],
+        ['b', 'c', 'OUTER APPLY', false],
+        ['c', 'd', 'LEFT', true]
+      ]);
+    });
+
+    test('should follow aliases of CTEs, derived tables and nested joins', () => {
+      const graph = extractJoinGraph(
+        'WITH r AS (SELECT * FROM orders) SELECT * FROM r ' +
+        'JOIN (SELECT id, region FROM users) u ON (u.id = r.user_id) ' +
+        'RIGHT JOIN (regions g JOIN countries c ON c.id = g.country_id) ON g.code = u.region'
+      );
+
+      expect(graph.nodes).toContainEqual({ id: 'r', kind: 'cte' });
+      expect(graph.edges.map(edge => [edge.left, edge.right, edge.joinType, edge.on])).toEqual([
+        ['r', 'users', 'INNER', [{ leftColumn: 'user_id', rightColumn: 'id' }]],
+        ['regions', 'countries', 'INNER', [{ leftColumn: 'country_id', rightColumn: 'id' }]],
+        ['users', 'regions', 'RIGHT', [{ leftColumn: 'region', rightColumn: 'code' }]]
+      ]);
+    });
+
+    test('should find joins in subqueries and multi-table updates, keyed by resolved names', () => {
+      const knownTables = new Map<string, TableMetadata>([
+        ['users', { tableName: 'users', fullyQualifiedName: 'shop.users', schema: 'shop' }]
+      ]);
+      const graph = extractJoinGraph(
+        'SELECT * FROM a WHERE EXISTS (SELECT 1 FROM users JOIN e ON e.user_id = users.id);\n' +
+        'UPDATE t JOIN s ON s.id = t.id SET t.a = s.a',
+        { knownTables }
+      );
+
+      expect(graph.edges.map(edge => [edge.left, edge.right])).toEqual([['shop.users', 'e'], ['t', 's']]);
+    });
+  });
+
+  describe('mergeJoinGraphs', () => {
+    test('should add up repeated joins and unite their columns', () => {
+      const merged = mergeJoinGraphs([
+        extractJoinGraph('SELECT * FROM orders o JOIN users u ON u.id = o.user_id'),
+        extractJoinGraph('WITH users AS (SELECT 1) SELECT * FROM users'),
+        extractJoinGraph('SELECT * FROM orders JOIN users ON users.id = orders.buyer_id JOIN items ON true')
+      ]);
+
+      expect(merged.nodes).toEqual([
+        { id: 'orders', kind: 'table' },
+        { id: 'users', kind: 'table' },
+        { id: 'items', kind: 'table' }
+      ]);
+      expect(merged.edges[0]).toEqual({
+        left: 'orders',
+        right: 'users',
+        joinType: 'INNER',
+        lateral: false,
+        on: [{ leftColumn: 'user_id', rightColumn: 'id' }, { leftColumn: 'buyer_id', rightColumn: 'id' }],
+        using: [],
+        count: 2
+      });
+    });
+  });
+
+  describe('formatJoinGraph', () => {
+    const graph = mergeJoinGraphs([
+      extractJoinGraph('WITH "a""b" AS (SELECT 1) SELECT * FROM "a""b" x LEFT JOIN users u ON u.id = x.id'),
+      extractJoinGraph('WITH "a""b" AS (SELECT 1) SELECT * FROM "a""b" LEFT JOIN users USING (id)')
+    ]);
+
+    test('should render Graphviz DOT', () => {
+      expect(formatJoinGraph(graph, 'dot')).toBe([
+        'digraph joins {',
+        '  rankdir=LR;',
+        '  node [shape=box];',
+        '  "a\\"b" [style=dashed];',
+        '  "users";',
+        '  "a\\"b" -> "users" [label="LEFT JOIN\\nid = id\\nUSING (id)\\n2 joins"];',
+        '}'
+      ].join('\n'));
+    });
+
+    test('should render a Mermaid flowchart', () => {
+      expect(formatJoinGraph(graph, 'mermaid')).toBe([
+        'flowchart LR',
+        '  n0(["a#quot;b"])',
+        '  n1["users"]',
+        '  n0 -->|"LEFT JOIN<br/>id = id<br/>USING (id)<br/>2 joins"| n1'
+      ].join('\n'));
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, expect, test } from '@jest/globals';
+import { tokenize } from '../lexer';
+
+describe('tokenize', () => {
+  describe('Token types', () => {
+    test('should classify keywords, identifiers, numbers and punctuation', () => {
+      const tokens = tokenize('select id, 42 from users;');
+      expect(tokens.map(t => [t.type, t.value])).toEqual([
+        ['keyword', 'SELECT'],
+        ['identifier', 'id'],
+        ['punctuation', ','],
+        ['number', '42'],
+        ['keyword', 'FROM'],
+        ['identifier', 'users'],
+        ['punctuation', ';']
+      ]);
+    });
+
+    test('should keep multi-character operators together', () => {
+      const tokens = tokenize("a::text || b <> c ->> 'k'");
+      expect(tokens.filter(t => t.type === 'operator').map(t => t.text)).toEqual(['::', '||', '<>', '->>']);
+    });
+
+    test('should emit comments as tokens', () => {
+      const tokens = tokenize('SELECT 1 -- trailing\n/* block */');
+      expect(tokens.filter(t => t.type === 'comment').map(t => t.text)).toEqual(['-- trailing', '/* block */']);
+    });
+
+    test('should treat temp tables, variables and digit-led names as identifiers', () => {
+      const tokens = tokenize('#tmp ##global @var 2023_sales');
+      expect(tokens.map(t => t.type)).toEqual(['identifier', 'identifier', 'identifier', 'identifier']);
+    });
+  });
+
+  describe('Quoting', () => {
+    test('should unescape quoted identifiers of every style', () => {
+      const tokens = tokenize('"a ""b""" `c``d` [e]]f]');
+      expect(tokens.map(t => [t.type, t.value])).toEqual([
+        ['quotedIdentifier', 'a "b"'],
+        ['quotedIdentifier', 'c`d'],
+        ['quotedIdentifier', 'e]f']
+      ]);
+    });
+
+    test('should not treat array subscripts as bracketed identifiers', () => {
+      const tokens = tokenize('ARRAY[1, 2] arr[1]');
+      expect(tokens.some(t => t.type === 'quotedIdentifier')).toBe(false);
+    });
+
+    test('should read escape strings and dollar-quoted bodies as strings', () => {
+      const tokens = tokenize("E'it\\'s' $$ FROM x $$ $fn$ body $fn$");
+      expect(tokens.map(t => [t.type, t.value])).toEqual([
+        ['string', "it's"],
+        ['string', ' FROM x '],
+        ['string', ' body ']
+      ]);
+    });
+
+    test('should run unterminated strings to the end of input', () => {
+      const tokens = tokenize("SELECT 'open");
+      expect(tokens[1]).toMatchObject({ type: 'string', value: 'open', end: 12, unterminated: true });
+    });
+
+    test('should flag only tokens missing their closing delimiter', () => {
+      const flagged = (sql: string) => tokenize(sql).filter(t => t.unterminated).map(t => t.type);
+      expect(flagged(`'a' "b" /* c */ $$ d $$`)).toEqual([]);
+      expect(flagged('SELECT 1 /* open')).toEqual(['comment']);
+      expect(flagged('SELECT [open')).toEqual(['quotedIdentifier']);
+      expect(flagged('SELECT $$ open')).toEqual(['string']);
+    });
+  });
+
+  describe('Dialect options', () => {
+    test('should only quote identifiers with the configured characters', () => {
+      const tokens = tokenize('"a" `b` [c]', { identifierQuotes: ['`'] });
+      expect(tokens.filter(t => t.type === 'quotedIdentifier').map(t => t.value)).toEqual(['b']);
+    });
+
+    test('should read double-quoted strings with backslash escapes', () => {
+      const tokens = tokenize(String.raw`"a\"b" 'c\'d' R'e\'`, { doubleQuotedStrings: true, backslashEscapes: true, stringPrefixes: ['R'] });
+      expect(tokens.map(t => [t.type, t.value])).toEqual([
+        ['string', 'a"b'],
+        ['string', "c'd"],
+        ['string', 'e\\']
+      ]);
+    });
+
+    test('should support additional line comment markers', () => {
+      const tokens = tokenize('SELECT 1 # note\nFROM t', { lineComments: ['--', '#'] });
+      expect(tokens.filter(t => t.type === 'comment').map(t => t.text)).toEqual(['# note']);
+    });
+  });
+
+  describe('Offsets', () => {
+    test('should map every token back to the original text', () => {
+      const sql = 'SELECT  *\n  FROM "my table" -- note';
+      for (const token of tokenize(sql)) {
+        expect(sql.slice(token.start, token.end)).toBe(token.text);
+      }
+    });
+
+    test('should only nest block comments when asked to', () => {
+      const sql = '/* a /* b */ c */ x';
+      expect(tokenize(sql)[0].text).toBe('/* a /* b */');
+      expect(tokenize(sql, { nestedBlockComments: true })[0].text).toBe('/* a /* b */ c */');
+    });
+  });
+});
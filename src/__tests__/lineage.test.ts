@@ -0,0 +1,112 @@
+import { describe, expect, test } from '@jest/globals';
+import { extractLineage, toOpenLineageEvents } from '../lineage';
+import { TableMetadata } from '../parser';
+
+describe('Lineage', () => {
+  describe('extractLineage', () => {
+    test('should map the targets of INSERT, CTAS, SELECT INTO, UPDATE and MERGE to their sources', () => {
+      const result = extractLineage([
+        'INSERT INTO t SELECT * FROM a JOIN b ON a.id = b.id',
+        'CREATE TABLE x AS SELECT * FROM a',
+        'SELECT 1',
+        'SELECT * INTO y FROM b',
+        'UPDATE t SET total = s.total FROM s WHERE s.id = t.id',
+        'MERGE INTO t USING (SELECT * FROM s JOIN r ON true) x ON t.id = x.id WHEN MATCHED THEN UPDATE SET a = x.a',
+        'INSERT INTO t VALUES (1)'
+      ].join(';\n'));
+
+      expect(result.statements.map(statement => [statement.statementIndex, statement.edges])).toEqual([
+        [0, [{ target: 't', operation: 'insert', sources: ['a', 'b'] }]],
+        [1, [{ target: 'x', operation: 'create', sources: ['a'] }]],
+        [3, [{ target: 'y', operation: 'create', sources: ['b'] }]],
+        [4, [{ target: 't', operation: 'update', sources: ['s'] }]],
+        [5, [{ target: 't', operation: 'merge', sources: ['s', 'r'] }]]
+      ]);
+      expect(result.statements[1].sql).toBe('CREATE TABLE x AS SELECT * FROM a');
+    });
+
+    test('should inline the CTEs a statement uses', () => {
+      const result = extractLineage(
+        'WITH c AS (SELECT * FROM a), unused AS (SELECT * FROM z), d AS (SELECT * FROM c JOIN b ON true) ' +
+        'INSERT INTO t SELECT * FROM d'
+      );
+
+      expect(result.statements[0].edges).toEqual([{ target: 't', operation: 'insert', sources: ['a', 'b'] }]);
+    });
+
+    test('should follow recursive and shadowed CTEs', () => {
+      const recursive = extractLineage(
+        'WITH RECURSIVE r AS (SELECT * FROM seed UNION ALL SELECT * FROM r JOIN edges ON true) ' +
+        'INSERT INTO closure SELECT * FROM r'
+      );
+      const shadowed = extractLineage(
+        'WITH b AS (SELECT * FROM one), c AS (WITH b AS (SELECT * FROM two) SELECT * FROM b) ' +
+        'CREATE TABLE t AS SELECT * FROM b, c'
+      );
+
+      expect(recursive.statements[0].edges[0].sources).toEqual(['seed', 'edges']);
+      expect(shadowed.statements[0].edges[0].sources).toEqual(['one', 'two']);
+    });
+
+    test('should read COPY INTO locations, but not stages', () => {
+      const result = extractLineage([
+        'COPY INTO raw.orders FROM @landing/orders',
+        "COPY INTO raw.users FROM 's3://bucket/users/'",
+        "COPY INTO 's3://bucket/export/' FROM (SELECT * FROM raw.orders)",
+        'COPY INTO @exports/daily FROM (SELECT * FROM raw.daily)'
+      ].join(';\n'));
+
+      expect(result.statements.map(statement => statement.edges)).toEqual([
+        [{ target: 'raw.users', operation: 'insert', sources: ['s3://bucket/users/'] }],
+        [{ target: 's3://bucket/export/', operation: 'insert', sources: ['raw.orders'] }]
+      ]);
+      expect(toOpenLineageEvents(extractLineage('COPY INTO raw.orders FROM @landing/orders'), { namespace: 'snowflake://acme' }))
+        .toEqual([]);
+    });
+
+    test('should report resolved names', () => {
+      const knownTables = new Map<string, TableMetadata>([
+        ['orders', { tableName: 'orders', fullyQualifiedName: 'shop.orders', schema: 'shop' }],
+        ['daily', { tableName: 'daily', fullyQualifiedName: 'mart.daily', schema: 'mart' }]
+      ]);
+
+      expect(extractLineage('INSERT INTO daily SELECT * FROM orders', { knownTables }).statements[0].edges)
+        .toEqual([{ target: 'mart.daily', operation: 'insert', sources: ['shop.orders'] }]);
+    });
+  });
+
+  describe('toOpenLineageEvents', () => {
+    test('should describe each statement as a run event', () => {
+      const lineage = extractLineage("COPY INTO t FROM 's3://bucket/in/t.csv'; INSERT INTO u SELECT * FROM t JOIN v ON true");
+      const events = toOpenLineageEvents(lineage, {
+        namespace: 'postgres://db:5432',
+        jobName: 'nightly',
+        eventTime: new Date('2024-01-15T10:00:00Z')
+      });
+
+      expect(events).toHaveLength(2);
+      expect(events[1]).toEqual({
+        eventType: 'COMPLETE',
+        eventTime: '2024-01-15T10:00:00.000Z',
+        producer: 'https://www.npmjs.com/package/sql-tables-parser',
+        schemaURL: 'https://openlineage.io/spec/2-0-2/OpenLineage.json#/$defs/RunEvent',
+        run: { runId: expect.stringMatching(/^[0-9a-f-]{36}$/) },
+        job: {
+          namespace: 'postgres://db:5432',
+          name: 'nightly.2',
+          facets: {
+            sql: {
+              _producer: 'https://www.npmjs.com/package/sql-tables-parser',
+              _schemaURL: 'https://openlineage.io/spec/facets/1-0-1/SQLJobFacet.json#/$defs/SQLJobFacet',
+              query: 'INSERT INTO u SELECT * FROM t JOIN v ON true'
+            }
+          }
+        },
+        inputs: [{ namespace: 'postgres://db:5432', name: 't' }, { namespace: 'postgres://db:5432', name: 'v' }],
+        outputs: [{ namespace: 'postgres://db:5432', name: 'u' }]
+      });
+      expect(events[0].inputs).toEqual([{ namespace: 's3://bucket', name: 'in/t.csv' }]);
+      expect(events[0].run.runId).not.toBe(events[1].run.runId);
+    });
+  });
+});
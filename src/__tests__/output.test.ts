@@ -0,0 +1,81 @@
+import { describe, expect, test } from '@jest/globals';
+import { readFileSync } from 'fs';
+import { buildParseOutput, formatParseOutput, OUTPUT_SCHEMA_VERSION, toTableRows } from '../output';
+import { SqlTableExtractor, TableMetadata } from '../parser';
+
+const knownTables = new Map<string, TableMetadata>([
+  ['users', { tableName: 'users', fullyQualifiedName: 'app.public.users', schema: 'public', database: 'app' }]
+]);
+
+const sql = 'WITH recent AS (SELECT * FROM users) SELECT * FROM recent JOIN "odd,name" o ON o.id = recent.id';
+
+describe('Output formats', () => {
+  describe('buildParseOutput', () => {
+    test('should include the schema version and metadata of resolved known tables', () => {
+      const result = SqlTableExtractor.extractTableNames(sql, { knownTables, filterCTEs: true });
+      const output = buildParseOutput({ result }, { knownTables, dialect: 'postgres' });
+
+      expect(output.schemaVersion).toBe(OUTPUT_SCHEMA_VERSION);
+      expect(output.dialect).toBe('postgres');
+      expect(output.result).toBe(result);
+      expect(output.tableMetadata).toEqual({ 'app.public.users': knownTables.get('users') });
+      expect(output).not.toHaveProperty('columns');
+    });
+  });
+
+  describe('Rows', () => {
+    test('should write one row per table with kind, access and reference count', () => {
+      const result = SqlTableExtractor.extractTableNames(sql, { knownTables, filterCTEs: true });
+      const output = buildParseOutput({ result }, { knownTables });
+
+      expect(toTableRows(output)).toEqual([
+        {
+          schemaVersion: 1, table: 'app.public.users', kind: 'table', access: ['read'], references: 1,
+          schema: 'public', database: 'app'
+        },
+        { schemaVersion: 1, table: 'recent', kind: 'cte', access: ['read'], references: 1 },
+        { schemaVersion: 1, table: 'odd,name', kind: 'unknown', access: ['read'], references: 1 }
+      ]);
+    });
+
+    test('should number rows by statement in per-statement output', () => {
+      const statements = SqlTableExtractor.extractTableNamesByStatement('SELECT * FROM a; DELETE FROM b');
+      const lines = formatParseOutput(buildParseOutput({ statements }), 'ndjson').split('\n');
+
+      expect(lines.map(line => JSON.parse(line))).toEqual([
+        { schemaVersion: 1, statement: 0, table: 'a', kind: 'table', access: ['read'], references: 1 },
+        { schemaVersion: 1, statement: 1, table: 'b', kind: 'table', access: ['delete'], references: 1 }
+      ]);
+    });
+
+    test('should quote CSV fields and join access modes', () => {
+      const result = SqlTableExtractor.extractTableNames('INSERT INTO "a,b" SELECT * FROM "a,b"');
+      const csv = formatParseOutput(buildParseOutput({ result }), 'csv');
+
+      expect(csv.split('\n')).toEqual([
+        'schemaVersion,statement,table,kind,access,references,schema,database',
+        '1,,"a,b",table,insert;read,2,,'
+      ]);
+    });
+  });
+
+  describe('Schema', () => {
+    const schema = JSON.parse(readFileSync('schemas/parse-output.schema.json', 'utf8'));
+
+    test('should describe the current schema version', () => {
+      expect(schema.properties.schemaVersion.const).toBe(OUTPUT_SCHEMA_VERSION);
+      expect(schema.$defs.tableRow.properties.schemaVersion.const).toBe(OUTPUT_SCHEMA_VERSION);
+    });
+
+    test('should require every field the output always carries', () => {
+      const output = buildParseOutput({ result: SqlTableExtractor.extractTableNames(sql) });
+
+      for (const key of schema.required) {
+        expect(output).toHaveProperty(key);
+      }
+      for (const key of schema.$defs.extractionResult.required) {
+        expect(output.result).toHaveProperty(key);
+      }
+    });
+  });
+});
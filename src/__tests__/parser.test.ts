@@ -1,5 +1,5 @@
 import { describe, expect, test } from '@jest/globals';
-import { SqlTableExtractor, TableMetadata } from '../parser';
+import { SqlTableExtractor, TableExtractionOptions, TableMetadata, TableResolutionContext } from '../parser';
 
 describe('SqlTableExtractor', () => {
   describe('Basic functionality', () => {
@@ -183,8 +183,10 @@ describe('SqlTableExtractor', () => {
       expect(result.allTables).toContain('b');
       expect(result.allTables).toContain('a');
       expect(result.allTables).toContain('c');
-      expect(result.realTables).toEqual(['b', 'a', 'c']);
-      expect(result.filteredCTEs).toEqual([]);
+      // b and a inside the CTE bodies are the real tables (not yet defined as CTEs there);
+      // c inside a's body and a, b in the main query are the CTEs shadowing them
+      expect(result.realTables).toEqual(['b', 'a']);
+      expect(result.filteredCTEs).toEqual(['c', 'a', 'b']);
     });
 
     test('should handle CTE dead scope - CTE not used in main query', () => {
@@ -278,6 +280,96 @@ describe('SqlTableExtractor', () => {
       expect(result.realTables).toEqual(['invoice']);
       expect(result.filteredCTEs).toEqual(['final']);
     });
+
+    test('should detect CTEs without a known tables catalog', () => {
+      const sql = `
+        WITH active_users AS (SELECT * FROM users WHERE active = true)
+        SELECT * FROM active_users
+      `;
+      const result = SqlTableExtractor.extractTableNames(sql);
+      expect(result.allTables).toEqual(['users', 'active_users']);
+      expect(result.realTables).toEqual(['users']);
+      expect(result.filteredCTEs).toEqual(['active_users']);
+      expect(result.references.map(r => r.isCTE)).toEqual([false, true]);
+    });
+
+    test('should handle column lists, RECURSIVE and MATERIALIZED', () => {
+      const sql = `
+        WITH RECURSIVE tree(id, parent_id) AS (
+          SELECT id, parent_id FROM nodes
+          UNION ALL
+          SELECT n.id, n.parent_id FROM nodes n JOIN tree t ON n.parent_id = t.id
+        ),
+        totals AS MATERIALIZED (SELECT COUNT(*) FROM tree)
+        SELECT * FROM totals
+      `;
+      const result = SqlTableExtractor.extractTableNames(sql);
+      expect(result.realTables).toEqual(['nodes']);
+      expect(result.filteredCTEs).toEqual(['tree', 'totals']);
+    });
+
+    test('should end a nested WITH scope at its closing parenthesis', () => {
+      const sql = `
+        SELECT * FROM (
+          WITH recent AS (SELECT * FROM orders)
+          SELECT * FROM recent
+        ) sub
+        JOIN recent ON recent.id = sub.id
+      `;
+      const result = SqlTableExtractor.extractTableNames(sql);
+      expect(result.references.map(r => [r.name, r.isCTE])).toEqual([
+        ['orders', false],
+        ['recent', true],
+        ['recent', false]
+      ]);
+    });
+
+    test('should let a nested WITH shadow an outer CTE and a CTE shadow a real table', () => {
+      const sql = `
+        WITH orders AS (SELECT * FROM orders WHERE status = 'open')
+        SELECT * FROM orders
+        WHERE customer_id IN (
+          WITH orders AS (SELECT * FROM archived_orders)
+          SELECT customer_id FROM orders
+        )
+      `;
+      const result = SqlTableExtractor.extractTableNames(sql);
+      expect(result.references.map(r => [r.name, r.isCTE])).toEqual([
+        ['orders', false],
+        ['orders', true],
+        ['archived_orders', false],
+        ['orders', true]
+      ]);
+      expect(result.realTables).toEqual(['orders', 'archived_orders']);
+      expect(result.filteredCTEs).toEqual(['orders']);
+    });
+
+    test('should not treat table hints or WITH TIME ZONE as CTEs', () => {
+      const sql = `
+        SELECT CAST(ts AS TIMESTAMP WITH TIME ZONE) FROM users u WITH (NOLOCK)
+        JOIN orders o WITH (INDEX(ix_orders)) ON u.id = o.user_id
+      `;
+      const result = SqlTableExtractor.extractTableNames(sql);
+      expect(result.realTables).toEqual(['users', 'orders']);
+      expect(result.filteredCTEs).toEqual([]);
+    });
+
+    test('should report references matching neither a CTE nor a known table', () => {
+      const sql = `
+        WITH recent AS (SELECT * FROM orders)
+        SELECT * FROM recent JOIN mystery_table m ON m.id = recent.id
+      `;
+      const knownTables = new Map([
+        ['orders', { tableName: 'orders', fullyQualifiedName: 'sales.orders' }]
+      ]);
+      const result = SqlTableExtractor.extractTableNames(sql, {
+        knownTables,
+        filterCTEs: true
+      });
+      expect(result.realTables).toEqual(['sales.orders']);
+      expect(result.filteredCTEs).toEqual(['recent']);
+      expect(result.unknownTables).toEqual(['mystery_table']);
+    });
   });
 
   describe('Esoteric and edge cases', () => {
@@ -771,6 +863,7 @@ describe('SqlTableExtractor', () => {
       expect(result.allTables).not.toContain('generate_series');
       expect(result.allTables).not.toContain('unnest');
       expect(result.allTables).not.toContain('json_to_recordset');
+      expect(result.tableFunctions.map(f => f.name)).toEqual(['generate_series', 'unnest', 'json_to_recordset']);
     });
 
     test('should handle SQL Server OPENJSON and table hints', () => {
@@ -892,6 +985,7 @@ describe('SqlTableExtractor', () => {
       expect(result.allTables).toContain('feature_flags');
       // FLATTEN is a function
       expect(result.allTables).not.toContain('FLATTEN');
+      expect(result.tableFunctions.map(f => [f.name, f.lateral, f.argumentTables])).toEqual([['FLATTEN', true, ['users']]]);
     });
 
     test('should handle database-specific keywords with keywords option', () => {
@@ -1047,7 +1141,8 @@ describe('SqlTableExtractor', () => {
 
       expect(result.realTables).toContain('employees');
       expect(result.realTables).toContain('departments');
-      expect(result.realTables).toContain('users'); // Real table referenced in CTE definition
+      expect(result.realTables).not.toContain('users'); // Every users reference is the CTE
+      expect(result.filteredCTEs).toContain('users');
       expect(result.filteredCTEs).toContain('hierarchy');
       expect(result.filteredCTEs).toContain('filtered');
     });
@@ -1245,6 +1340,362 @@ describe('SqlTableExtractor', () => {
     });
   });
 
+  describe('Token-based extraction', () => {
+    test('should ignore FROM inside function arguments', () => {
+      const sql = `
+        SELECT EXTRACT(YEAR FROM ts), SUBSTRING(name FROM 2 FOR 3), TRIM(BOTH ' ' FROM code)
+        FROM events
+      `;
+      const result = SqlTableExtractor.extractTableNames(sql);
+      expect(result.allTables).toEqual(['events']);
+    });
+
+    test('should ignore IS DISTINCT FROM comparisons', () => {
+      const sql = 'SELECT * FROM users WHERE a IS NOT DISTINCT FROM b';
+      const result = SqlTableExtractor.extractTableNames(sql);
+      expect(result.allTables).toEqual(['users']);
+    });
+
+    test('should not leak dollar-quoted bodies or escape strings', () => {
+      const sql = `
+        SELECT $$ SELECT * FROM hidden $$, E'it\\'s FROM nowhere'
+        FROM visible
+      `;
+      const result = SqlTableExtractor.extractTableNames(sql);
+      expect(result.allTables).toEqual(['visible']);
+    });
+
+    test('should handle comma-separated FROM lists', () => {
+      const sql = 'SELECT * FROM users u, orders AS o, products WHERE u.id = o.user_id';
+      const result = SqlTableExtractor.extractTableNames(sql);
+      expect(result.allTables).toEqual(['users', 'orders', 'products']);
+    });
+
+    test('should continue FROM lists after JOIN items', () => {
+      const sql = 'SELECT * FROM users u JOIN orders o ON u.id = o.user_id, products p, (SELECT 1 FROM regions) r WHERE p.id IN (1, 2) ORDER BY 1, 2';
+      const result = SqlTableExtractor.extractTableNames(sql);
+      expect(result.allTables).toEqual(['users', 'orders', 'products', 'regions']);
+      expect(result.references.find(reference => reference.name === 'products')).toMatchObject({ alias: 'p', scopeId: 0 });
+    });
+
+    test('should handle parenthesized joins', () => {
+      const sql = 'SELECT * FROM (users u JOIN orders o ON u.id = o.user_id)';
+      const result = SqlTableExtractor.extractTableNames(sql);
+      expect(result.allTables).toEqual(['users', 'orders']);
+    });
+
+    test('should not treat locking clauses or LATERAL as tables', () => {
+      const sql = `
+        SELECT * FROM users u
+        CROSS JOIN LATERAL (SELECT * FROM orders o WHERE o.user_id = u.id) recent
+        FOR UPDATE NOWAIT
+      `;
+      const result = SqlTableExtractor.extractTableNames(sql);
+      expect(result.allTables).toEqual(['users', 'orders']);
+    });
+
+    test('should not match keywords embedded in identifiers', () => {
+      const sql = 'SELECT from_date, joined_at FROM memberships';
+      const result = SqlTableExtractor.extractTableNames(sql);
+      expect(result.allTables).toEqual(['memberships']);
+    });
+  });
+
+  describe('Table references with source positions', () => {
+    test('should report every reference with offsets, line and column', () => {
+      const sql = 'SELECT *\n  FROM users u\n  JOIN users m ON u.manager_id = m.id';
+      const result = SqlTableExtractor.extractTableNames(sql);
+
+      expect(result.allTables).toEqual(['users']);
+      expect(result.references).toEqual([
+        { rawText: 'users', name: 'users', normalizedName: 'users', resolvedName: 'users', keyword: 'FROM', isCTE: false, access: 'read', alias: 'u', scopeId: 0, start: 16, end: 21, line: 2, column: 8 },
+        { rawText: 'users', name: 'users', normalizedName: 'users', resolvedName: 'users', keyword: 'JOIN', isCTE: false, access: 'read', alias: 'm', scopeId: 0, start: 31, end: 36, line: 3, column: 8 }
+      ]);
+    });
+
+    test('should map offsets through comments and strings', () => {
+      const sql = "/* leading\n   comment */ SELECT 'a -- b', x -- note\nFROM \"Sales\".[Orders] LEFT JOIN items ON 1 = 1";
+      const result = SqlTableExtractor.extractTableNames(sql);
+
+      const [orders, items] = result.references;
+      expect(orders).toMatchObject({ rawText: '"Sales".[Orders]', name: 'Sales.Orders', keyword: 'FROM', line: 3, column: 6 });
+      expect(sql.slice(orders.start, orders.end)).toBe('"Sales".[Orders]');
+      expect(items).toMatchObject({ rawText: 'items', keyword: 'LEFT JOIN', line: 3, column: 33 });
+      expect(sql.slice(items.start, items.end)).toBe('items');
+    });
+
+    test('should carry the resolved name from known tables', () => {
+      const knownTables = new Map([
+        ['users', { tableName: 'users', fullyQualifiedName: 'public.users', schema: 'public' }]
+      ]);
+      const result = SqlTableExtractor.extractTableNames('INSERT INTO users SELECT * FROM staging', { knownTables });
+
+      expect(result.references.map(r => [r.name, r.resolvedName, r.keyword])).toEqual([
+        ['users', 'public.users', 'INSERT INTO'],
+        ['staging', 'staging', 'FROM']
+      ]);
+    });
+  });
+
+  describe('Table access modes', () => {
+    test('should report both read and insert for INSERT ... SELECT from the same table', () => {
+      const sql = 'INSERT INTO orders SELECT * FROM orders WHERE archived = false';
+      const result = SqlTableExtractor.extractTableNames(sql);
+      expect(result.tableAccess).toEqual({ orders: ['insert', 'read'] });
+      expect(result.readTables).toEqual(['orders']);
+      expect(result.writtenTables).toEqual(['orders']);
+    });
+
+    test('should classify UPDATE, DELETE and their joined sources', () => {
+      const result = SqlTableExtractor.extractTableNames(`
+        UPDATE accounts SET balance = 0 FROM closures WHERE closures.id = accounts.id;
+        DELETE FROM sessions USING users WHERE sessions.user_id = users.id;
+      `);
+      expect(result.tableAccess).toEqual({
+        accounts: ['update'],
+        closures: ['read'],
+        sessions: ['delete'],
+        users: ['read']
+      });
+      expect(result.writtenTables).toEqual(['accounts', 'sessions']);
+      expect(result.readTables).toEqual(['closures', 'users']);
+    });
+
+    test('should classify MERGE targets and sources', () => {
+      const sql = `
+        MERGE INTO customers c USING staged_customers s ON c.id = s.id
+        WHEN MATCHED THEN UPDATE SET name = s.name
+        WHEN NOT MATCHED THEN INSERT VALUES (s.id, s.name)
+      `;
+      const result = SqlTableExtractor.extractTableNames(sql);
+      expect(result.tableAccess).toEqual({ customers: ['merge'], staged_customers: ['read'] });
+    });
+
+    test('should classify bare INTO by its statement', () => {
+      const result = SqlTableExtractor.extractTableNames(`
+        INSERT IGNORE INTO events VALUES (1);
+        SELECT * INTO events_backup FROM events;
+      `);
+      expect(result.tableAccess).toEqual({ events: ['insert', 'read'], events_backup: ['create'] });
+      expect(result.createdTables).toEqual(['events_backup']);
+    });
+
+    test('should classify DDL statements', () => {
+      const result = SqlTableExtractor.extractTableNames(`
+        CREATE TABLE IF NOT EXISTS daily_totals AS SELECT day, SUM(amount) FROM payments GROUP BY day;
+        ALTER TABLE daily_totals ADD COLUMN note text;
+        TRUNCATE staging_payments;
+        DROP TABLE IF EXISTS old_totals, older_totals;
+      `);
+      expect(result.tableAccess).toEqual({
+        daily_totals: ['create', 'alter'],
+        payments: ['read'],
+        staging_payments: ['truncate'],
+        old_totals: ['drop'],
+        older_totals: ['drop']
+      });
+      expect(result.createdTables).toEqual(['daily_totals']);
+      expect(result.droppedTables).toEqual(['old_totals', 'older_totals']);
+      expect(result.writtenTables).toEqual(['daily_totals', 'staging_payments']);
+    });
+
+    test('should classify the targets of multi-table deletes', () => {
+      const byName = SqlTableExtractor.extractTableNames('DELETE t FROM t JOIN u ON t.id = u.id');
+      expect(byName.tableAccess).toEqual({ t: ['delete'], u: ['read'] });
+      expect(byName.writtenTables).toEqual(['t']);
+
+      const byAlias = SqlTableExtractor.extractTableNames('DELETE a FROM t a JOIN u ON a.id = u.id WHERE u.id IN (SELECT id FROM a)');
+      expect(byAlias.tableAccess).toEqual({ t: ['delete'], u: ['read'], a: ['read'] });
+
+      expect(SqlTableExtractor.extractTableNames('DELETE t WHERE id = 1').tableAccess).toEqual({ t: ['delete'] });
+      expect(SqlTableExtractor.extractTableNames('CREATE TABLE x (a int REFERENCES y ON DELETE CASCADE)').tableAccess)
+        .toEqual({ x: ['create'] });
+    });
+
+    test('should leave CTEs out of the access lists', () => {
+      const sql = 'WITH recent AS (SELECT * FROM orders) INSERT INTO order_archive SELECT * FROM recent';
+      const result = SqlTableExtractor.extractTableNames(sql);
+      expect(result.tableAccess).toEqual({ orders: ['read'], order_archive: ['insert'] });
+      expect(result.references.find(r => r.isCTE)?.access).toBe('read');
+    });
+
+    test('should leave COPY stages out of the tables', () => {
+      const result = SqlTableExtractor.extractTableNames(`
+        COPY INTO raw.orders FROM @landing/orders FILE_FORMAT = (TYPE = CSV);
+        COPY INTO @exports/daily FROM (SELECT * FROM mart.daily);
+      `);
+      expect(result.tableAccess).toEqual({ 'raw.orders': ['insert'], 'mart.daily': ['read'] });
+    });
+  });
+
+  describe('Multi-statement scripts', () => {
+    test('should return one result per statement with its source range', () => {
+      const sql = 'CREATE TABLE staging AS SELECT * FROM raw_events;\nINSERT INTO events SELECT * FROM staging;';
+      const results = SqlTableExtractor.extractTableNamesByStatement(sql);
+
+      expect(results.map(r => r.statement)).toEqual([
+        { index: 0, text: 'CREATE TABLE staging AS SELECT * FROM raw_events', start: 0, end: 48, line: 1, column: 1 },
+        { index: 1, text: 'INSERT INTO events SELECT * FROM staging', start: 50, end: 90, line: 2, column: 1 }
+      ]);
+      expect(results.map(r => r.allTables)).toEqual([['staging', 'raw_events'], ['events', 'staging']]);
+      expect(results[1].references[1]).toMatchObject({ name: 'staging', start: 83, line: 2, column: 34 });
+    });
+
+    test('should not leak CTEs from one statement into the next', () => {
+      const sql = `
+        WITH recent AS (SELECT * FROM orders) SELECT * FROM recent;
+        SELECT * FROM recent
+      `;
+      const [first, second] = SqlTableExtractor.extractTableNamesByStatement(sql);
+      expect(first.filteredCTEs).toEqual(['recent']);
+      expect(second.realTables).toEqual(['recent']);
+      expect(SqlTableExtractor.extractTableNames(sql).realTables).toEqual(['orders', 'recent']);
+    });
+
+    test('should merge all statements of a GO-separated script in extractTableNames', () => {
+      const sql = 'SELECT * FROM a\nGO\nSELECT * FROM b';
+      expect(SqlTableExtractor.extractTableNames(sql).allTables).toEqual(['a', 'b']);
+      expect(SqlTableExtractor.extractTableNamesByStatement(sql)).toHaveLength(2);
+    });
+  });
+
+  describe('Table aliases', () => {
+    test('should detect AS and bare aliases without taking clause keywords for aliases', () => {
+      const sql = `
+        SELECT * FROM users u
+        JOIN orders AS o ON o.user_id = u.id
+        LEFT JOIN payments ON payments.order_id = o.id
+        WHERE u.active
+      `;
+      const result = SqlTableExtractor.extractTableNames(sql);
+      expect(result.references.map(r => [r.name, r.alias])).toEqual([
+        ['users', 'u'],
+        ['orders', 'o'],
+        ['payments', undefined]
+      ]);
+    });
+
+    test('should not take clause words after a table for aliases', () => {
+      const sql = 'SELECT * FROM sales PIVOT (SUM(amount) FOR quarter IN (1, 2)) p; SELECT * FROM t USE INDEX (idx)';
+      const result = SqlTableExtractor.extractTableNames(sql);
+      expect(result.references.map(r => r.alias)).toEqual([undefined, undefined]);
+    });
+
+    test('should map aliases to resolved tables and CTEs per scope', () => {
+      const knownTables = new Map<string, TableMetadata>([
+        ['users', { tableName: 'users', fullyQualifiedName: 'public.users', schema: 'public' }]
+      ]);
+      const sql = `
+        WITH recent AS (SELECT * FROM orders o)
+        SELECT * FROM users u JOIN recent r ON r.user_id = u.id
+        WHERE EXISTS (SELECT 1 FROM refunds u WHERE u.user_id = r.user_id)
+      `;
+      const { scopes, references } = SqlTableExtractor.extractTableNames(sql, { knownTables });
+
+      const main = scopes.find(scope => scope.parentId === undefined)!;
+      expect(main.aliases).toEqual({
+        u: { kind: 'table', name: 'public.users' },
+        r: { kind: 'cte', name: 'recent' }
+      });
+
+      const refunds = references.find(r => r.name === 'refunds')!;
+      const subquery = scopes[refunds.scopeId];
+      expect(subquery.parentId).toBe(main.id);
+      expect(subquery.aliases).toEqual({ u: { kind: 'table', name: 'refunds' } });
+      expect(sql.slice(subquery.start, subquery.end)).toBe('SELECT 1 FROM refunds u WHERE u.user_id = r.user_id');
+    });
+
+    test('should mark subquery aliases as derived tables', () => {
+      const sql = 'SELECT * FROM (SELECT * FROM events) AS e, (VALUES (1), (2)) v(n) JOIN (SELECT 1) x ON true';
+      const [main] = SqlTableExtractor.extractTableNames(sql).scopes;
+      expect(main.aliases).toEqual({
+        e: { kind: 'derived' },
+        v: { kind: 'derived' },
+        x: { kind: 'derived' }
+      });
+    });
+
+    test('should continue a FROM list after a derived table', () => {
+      const sql = 'SELECT * FROM (SELECT * FROM events) e(id), users u, (SELECT 1) one';
+      const result = SqlTableExtractor.extractTableNames(sql);
+      expect(result.allTables).toEqual(['events', 'users']);
+      expect(result.scopes[0].aliases).toEqual({
+        e: { kind: 'derived' },
+        one: { kind: 'derived' },
+        u: { kind: 'table', name: 'users' }
+      });
+    });
+
+    test('should keep parenthesized join aliases in the enclosing scope', () => {
+      const sql = 'SELECT * FROM (users u JOIN orders o ON o.user_id = u.id)';
+      const { scopes } = SqlTableExtractor.extractTableNames(sql);
+      expect(scopes).toHaveLength(1);
+      expect(Object.keys(scopes[0].aliases)).toEqual(['u', 'o']);
+    });
+
+    test('should only accept explicit aliases on INSERT targets', () => {
+      const sql = 'INSERT INTO logs AS l (id) SELECT id FROM src s';
+      const result = SqlTableExtractor.extractTableNames(sql);
+      expect(result.references.map(r => [r.name, r.alias])).toEqual([['logs', 'l'], ['src', 's']]);
+      expect(SqlTableExtractor.extractTableNames('INSERT INTO logs SELECT 1').references[0].alias).toBeUndefined();
+    });
+  });
+
+  describe('Table-valued functions', () => {
+    test('should report functions in FROM and JOIN with their aliases', () => {
+      const sql = `
+        SELECT * FROM generate_series(1, 10) AS g(n), orders o
+        JOIN users u ON u.id = g.n
+        CROSS JOIN unnest(u.tags) t
+      `;
+      const result = SqlTableExtractor.extractTableNames(sql);
+      expect(result.allTables).toEqual(['orders', 'users']);
+      expect(result.tableFunctions.map(f => [f.name, f.keyword, f.lateral, f.alias, f.argumentTables])).toEqual([
+        ['generate_series', 'FROM', false, 'g', []],
+        ['unnest', 'CROSS JOIN', false, 't', ['users']]
+      ]);
+      expect(result.tableFunctions[0]).toMatchObject({ rawText: 'generate_series(1, 10)', line: 2 });
+      expect(result.scopes[0].aliases.g).toEqual({ kind: 'function', name: 'generate_series' });
+    });
+
+    test('should find the tables referenced in function arguments', () => {
+      const sql = `
+        SELECT f.value FROM events e, TABLE(FLATTEN(input => e.payload)) f;
+        SELECT * FROM unnest(ARRAY(SELECT id FROM ids)) x;
+        SELECT * FROM users JOIN JSON_TABLE(users.doc, '$[*]' COLUMNS (id INT PATH '$.id')) AS jt ON true
+      `;
+      const result = SqlTableExtractor.extractTableNames(sql);
+      expect(result.tableFunctions.map(f => [f.name, f.argumentTables])).toEqual([
+        ['FLATTEN', ['events']],
+        ['unnest', ['ids']],
+        ['JSON_TABLE', ['users']]
+      ]);
+      expect(result.allTables).toEqual(['events', 'ids', 'users']);
+    });
+
+    test('should mark LATERAL and APPLY functions as lateral', () => {
+      const sql = `
+        SELECT * FROM users u
+        CROSS APPLY OPENJSON(u.metadata) AS j
+        JOIN LATERAL FLATTEN(input => u.features) f ON true
+        OUTER APPLY dbo.top_orders(u.id) o
+      `;
+      const result = SqlTableExtractor.extractTableNames(sql, { dialect: 'sqlserver' });
+      expect(result.tableFunctions.map(f => [f.name, f.keyword, f.lateral, f.alias, f.argumentTables])).toEqual([
+        ['OPENJSON', 'CROSS APPLY', true, 'j', ['users']],
+        ['FLATTEN', 'JOIN', true, 'f', ['users']],
+        ['dbo.top_orders', 'OUTER APPLY', true, 'o', ['users']]
+      ]);
+      expect(result.allTables).toEqual(['users']);
+    });
+
+    test('should read APPLY functions with the default keywords', () => {
+      const result = SqlTableExtractor.extractTableNames('SELECT * FROM t CROSS APPLY OPENJSON(t.j) AS j OUTER APPLY (SELECT * FROM u) x');
+      expect(result.tableFunctions.map(f => [f.name, f.keyword, f.argumentTables])).toEqual([['OPENJSON', 'CROSS APPLY', ['t']]]);
+      expect(result.allTables).toEqual(['t', 'u']);
+    });
+  });
+
   describe('Table metadata and fully qualified names', () => {
     test('should return fully qualified names when using TableMetadata', () => {
       const sql = 'SELECT * FROM users JOIN orders ON users.id = orders.user_id';
@@ -1439,9 +1890,12 @@ describe('SqlTableExtractor', () => {
         }]
       ]);
 
+      // Ambiguous without a resolution context, whatever the insertion order
       const result = SqlTableExtractor.extractTableNames(sql, { knownTables });
-      // Should return the first match found
-      expect(result.allTables).toEqual(['public.users']);
+      expect(result.allTables).toEqual(['users']);
+
+      const withSearchPath = SqlTableExtractor.extractTableNames(sql, { knownTables, searchPath: ['private', 'public'] });
+      expect(withSearchPath.allTables).toEqual(['private.users']);
     });
 
     test('should prioritize exact key matches over table name matches', () => {
@@ -1466,6 +1920,174 @@ describe('SqlTableExtractor', () => {
     });
   });
 
+  describe('Resolution context', () => {
+    const catalog = new Map<string, TableMetadata>([
+      ['prod.public.users', { tableName: 'users', fullyQualifiedName: 'prod.public.users', schema: 'public', database: 'prod' }],
+      ['prod.analytics.users', { tableName: 'users', fullyQualifiedName: 'prod.analytics.users', schema: 'analytics', database: 'prod' }],
+      ['dev.public.users', { tableName: 'users', fullyQualifiedName: 'dev.public.users', schema: 'public', database: 'dev' }],
+      ['prod.public.orders', { tableName: 'orders', fullyQualifiedName: 'prod.public.orders', schema: 'public', database: 'prod' }]
+    ]);
+
+    const resolve = (sql: string, context: TableResolutionContext = {}) =>
+      SqlTableExtractor.extractTableNames(sql, { knownTables: catalog, ...context }).references.map(ref => ref.resolvedName);
+
+    test('should leave ambiguous names unresolved without a context', () => {
+      expect(resolve('SELECT * FROM users JOIN orders ON true')).toEqual(['users', 'prod.public.orders']);
+    });
+
+    test('should resolve unqualified names through the database and search path', () => {
+      const context = { currentDatabase: 'prod', searchPath: ['analytics', 'public'] };
+      expect(resolve('SELECT * FROM users', context)).toEqual(['prod.analytics.users']);
+      expect(resolve('SELECT * FROM users', { currentDatabase: 'dev' })).toEqual(['dev.public.users']);
+    });
+
+    test('should fall back to the default schema after the search path', () => {
+      const context = { currentDatabase: 'prod', searchPath: ['staging'], defaultSchema: 'public' };
+      expect(resolve('SELECT * FROM users', context)).toEqual(['prod.public.users']);
+    });
+
+    test('should resolve partially qualified names', () => {
+      expect(resolve('SELECT * FROM analytics.users')).toEqual(['prod.analytics.users']);
+      expect(resolve('SELECT * FROM public.users')).toEqual(['public.users']);
+      expect(resolve('SELECT * FROM public.users', { currentDatabase: 'dev' })).toEqual(['dev.public.users']);
+      expect(resolve('SELECT * FROM dev.public.users', { currentDatabase: 'prod' })).toEqual(['dev.public.users']);
+    });
+
+    test('should follow USE and SET search_path for the statements that follow', () => {
+      const sql = [
+        'SELECT * FROM users',
+        'USE dev',
+        'SELECT * FROM users',
+        'USE prod',
+        'SET search_path TO "$user", analytics',
+        'SELECT * FROM users',
+        'SET search_path = DEFAULT',
+        'SELECT * FROM users'
+      ].join(';\n');
+
+      expect(resolve(sql, { searchPath: ['public'] })).toEqual([
+        'users', 'dev.public.users', 'prod.analytics.users', 'prod.public.users'
+      ]);
+    });
+
+    test('should apply USE SCHEMA and USE db.schema per statement', () => {
+      const results = SqlTableExtractor.extractTableNamesByStatement(
+        'USE SCHEMA prod.analytics; SELECT * FROM users; USE dev.public; SELECT * FROM users; USE WAREHOUSE wh; SELECT * FROM users',
+        { knownTables: catalog }
+      );
+      expect(results.map(result => result.allTables)).toEqual([
+        [], ['prod.analytics.users'], [], ['dev.public.users'], [], ['dev.public.users']
+      ]);
+    });
+
+    test('should treat ambiguous names as known tables', () => {
+      const result = SqlTableExtractor.extractTableNames('SELECT * FROM users JOIN missing ON true', {
+        knownTables: catalog,
+        filterCTEs: true
+      });
+      expect(result.realTables).toEqual(['users']);
+      expect(result.unknownTables).toEqual(['missing']);
+    });
+  });
+
+  describe('Identifier normalization', () => {
+    const knownTables = new Map<string, TableMetadata>([
+      ['sales.orders', { tableName: 'orders', fullyQualifiedName: 'sales.orders', schema: 'sales' }],
+      ['SALES.ITEMS', { tableName: 'ITEMS', fullyQualifiedName: 'SALES.ITEMS', schema: 'SALES' }]
+    ]);
+
+    const references = (sql: string, options: TableExtractionOptions = {}) =>
+      SqlTableExtractor.extractTableNames(sql, { knownTables, ...options }).references
+        .map(ref => [ref.name, ref.normalizedName, ref.resolvedName]);
+
+    test('should keep names as written without a dialect', () => {
+      expect(references('SELECT * FROM Sales.Orders')).toEqual([['Sales.Orders', 'Sales.Orders', 'Sales.Orders']]);
+    });
+
+    test('should fold unquoted identifiers to the dialect case', () => {
+      expect(references('SELECT * FROM Sales.Orders', { dialect: 'postgres' }))
+        .toEqual([['Sales.Orders', 'sales.orders', 'sales.orders']]);
+      expect(references('SELECT * FROM sales.items', { dialect: 'snowflake' }))
+        .toEqual([['sales.items', 'SALES.ITEMS', 'SALES.ITEMS']]);
+    });
+
+    test('should preserve quoted identifiers exactly', () => {
+      expect(references('SELECT * FROM "Sales".orders', { dialect: 'postgres' }))
+        .toEqual([['Sales.orders', 'Sales.orders', 'Sales.orders']]);
+      expect(references('SELECT * FROM "SALES"."ITEMS", "sales".items', { dialect: 'snowflake' }))
+        .toEqual([['SALES.ITEMS', 'SALES.ITEMS', 'SALES.ITEMS'], ['sales.items', 'sales.ITEMS', 'sales.ITEMS']]);
+    });
+
+    test('should match regardless of case when asked to', () => {
+      expect(references('SELECT * FROM Sales.Orders JOIN sales.Items ON true', { caseInsensitive: true }))
+        .toEqual([['Sales.Orders', 'Sales.Orders', 'sales.orders'], ['sales.Items', 'sales.Items', 'SALES.ITEMS']]);
+      expect(references('SELECT * FROM [Sales].[ORDERS]', { dialect: 'sqlserver' }))
+        .toEqual([['Sales.ORDERS', 'Sales.ORDERS', 'sales.orders']]);
+    });
+
+    test('should fold names in USE and search_path', () => {
+      const result = SqlTableExtractor.extractTableNames('SET search_path TO Sales; SELECT * FROM Orders', { dialect: 'postgres', knownTables });
+      expect(result.allTables).toEqual(['sales.orders']);
+    });
+  });
+
+  describe('Diagnostics', () => {
+    const knownTables = new Map<string, TableMetadata>([
+      ['public.users', { tableName: 'users', fullyQualifiedName: 'public.users', schema: 'public' }],
+      ['archive.users', { tableName: 'users', fullyQualifiedName: 'archive.users', schema: 'archive' }],
+      ['orders', { tableName: 'orders', fullyQualifiedName: 'public.orders', schema: 'public' }]
+    ]);
+
+    test('should report ambiguous names with their candidates and position', () => {
+      const { diagnostics } = SqlTableExtractor.extractTableNames('SELECT *\nFROM users', { knownTables });
+      expect(diagnostics).toEqual([{
+        code: 'ambiguous-table',
+        severity: 'warning',
+        message: 'Table "users" matches 2 known tables: public.users, archive.users',
+        candidates: ['public.users', 'archive.users'],
+        start: 14,
+        end: 19,
+        line: 2,
+        column: 6
+      }]);
+    });
+
+    test('should report unknown tables only when known tables are given', () => {
+      const sql = 'INSERT INTO audit SELECT * FROM orders; CREATE TABLE scratch (id int)';
+      expect(SqlTableExtractor.extractTableNames(sql).diagnostics).toEqual([]);
+
+      const { diagnostics } = SqlTableExtractor.extractTableNames(sql, { knownTables });
+      expect(diagnostics.map(d => [d.code, d.message])).toEqual([
+        ['unknown-table', 'Table "audit" is not a known table']
+      ]);
+    });
+
+    test('should flag function names read as tables', () => {
+      const { diagnostics } = SqlTableExtractor.extractTableNames('SELECT * FROM t CROSS JOIN LATERAL unnest');
+      expect(diagnostics).toMatchObject([{ code: 'function-as-table', severity: 'warning', start: 35, end: 41 }]);
+    });
+
+    test('should report unterminated strings, comments and quoted identifiers as errors', () => {
+      const diagnose = (sql: string) => SqlTableExtractor.extractTableNames(sql).diagnostics
+        .map(({ code, severity, start, end }) => ({ code, severity, start, end }));
+
+      expect(diagnose("SELECT * FROM t WHERE a = 'open")).toEqual([
+        { code: 'unterminated-string', severity: 'error', start: 26, end: 31 }
+      ]);
+      expect(diagnose('SELECT * FROM t; /* open')).toEqual([
+        { code: 'unterminated-comment', severity: 'error', start: 17, end: 24 }
+      ]);
+      expect(diagnose('SELECT * FROM "open')).toEqual([
+        { code: 'unterminated-identifier', severity: 'error', start: 14, end: 19 }
+      ]);
+    });
+
+    test('should report unterminated tokens with the last statement', () => {
+      const results = SqlTableExtractor.extractTableNamesByStatement("SELECT 1; SELECT 'open");
+      expect(results.map(result => result.diagnostics.map(d => d.code))).toEqual([[], ['unterminated-string']]);
+    });
+  });
+
   describe('Database-specific keywords', () => {
     test('should handle PostgreSQL-specific keywords', () => {
       const sql = 'UPSERT INTO users (id, name) VALUES (1, "John")';
@@ -0,0 +1,141 @@
+import { describe, expect, test } from '@jest/globals';
+import { TableMetadata } from '../parser';
+import { countTableUsage, readQueryLog } from '../query-logs';
+
+describe('Query logs', () => {
+  describe('NDJSON and CSV', () => {
+    test('should read the SQL field of each record and report bad lines', () => {
+      const log = [
+        '{"query": "SELECT * FROM users", "user": "ann", "timestamp": "2024-01-15T10:00:00Z"}',
+        '',
+        'not json',
+        '{"event": {"sql": "SELECT 1"}}'
+      ].join('\n');
+
+      const { queries, errors } = readQueryLog(log, 'ndjson');
+      expect(queries).toEqual([{ sql: 'SELECT * FROM users', line: 1, user: 'ann', timestamp: '2024-01-15T10:00:00Z' }]);
+      expect(errors.map(error => error.line)).toEqual([3, 4]);
+
+      expect(readQueryLog(log, 'ndjson', { field: 'event.sql' }).queries).toEqual([{ sql: 'SELECT 1', line: 4 }]);
+    });
+
+    test('should read the time and user from the configured fields', () => {
+      const log = '{"sql": "SELECT 1", "meta": {"at": 1705314225000, "by": "ann"}, "user": "service"}';
+
+      expect(readQueryLog(log, 'ndjson', { field: 'sql', timestampField: 'meta.at', userField: 'meta.by' }).queries)
+        .toEqual([{ sql: 'SELECT 1', line: 1, timestamp: '1705314225000', user: 'ann' }]);
+      expect(readQueryLog('q,who\nSELECT 1,ann', 'csv', { column: 'q', userField: 'who' }).queries)
+        .toEqual([{ sql: 'SELECT 1', line: 2, user: 'ann' }]);
+    });
+
+    test('should read quoted multi-line CSV fields from the query column', () => {
+      const csv = 'user,statement\r\nann,"SELECT *\nFROM ""Odd"""\r\nbob,SELECT * FROM b\r\n';
+
+      expect(readQueryLog(csv, 'csv', { column: 'statement' }).queries).toEqual([
+        { sql: 'SELECT *\nFROM "Odd"', line: 2, user: 'ann' },
+        { sql: 'SELECT * FROM b', line: 4, user: 'bob' }
+      ]);
+      expect(() => readQueryLog(csv, 'csv')).toThrow('CSV header has no "query" column');
+    });
+  });
+
+  describe('Server logs', () => {
+    test('should read Postgres statement entries with continuation lines', () => {
+      const log = [
+        '2024-01-15 10:23:45.123 UTC [101] app@shop LOG:  statement: SELECT * FROM users',
+        '\tJOIN orders ON orders.user_id = users.id',
+        '2024-01-15 10:23:46.000 UTC [101] app@shop LOG:  duration: 0.512 ms  statement: DELETE FROM carts',
+        '2024-01-15 10:23:47.000 UTC [102] app@shop ERROR:  relation "nope" does not exist',
+        '2024-01-15 10:23:47.000 UTC [102] app@shop STATEMENT:  SELECT * FROM nope',
+        '2024-01-15 10:23:48.000 UTC [103] bob@shop LOG:  execute <unnamed>: SELECT * FROM orders WHERE id = $1',
+        '2024-01-15 10:23:48.000 UTC [103] bob@shop DETAIL:  parameters: $1 = \'5\''
+      ].join('\n');
+
+      expect(readQueryLog(log, 'postgres').queries).toEqual([
+        {
+          sql: 'SELECT * FROM users\nJOIN orders ON orders.user_id = users.id', line: 1,
+          timestamp: '2024-01-15 10:23:45.123 UTC', user: 'app', database: 'shop'
+        },
+        { sql: 'DELETE FROM carts', line: 3, timestamp: '2024-01-15 10:23:46.000 UTC', user: 'app', database: 'shop' },
+        { sql: 'SELECT * FROM orders WHERE id = $1', line: 6, timestamp: '2024-01-15 10:23:48.000 UTC', user: 'bob', database: 'shop' }
+      ]);
+    });
+
+    test('should read MySQL general log queries with their connection user and database', () => {
+      const log = [
+        '/usr/sbin/mysqld, Version: 8.0.35 (MySQL Community Server - GPL). started with:',
+        'Tcp port: 3306  Unix socket: /var/run/mysqld/mysqld.sock',
+        'Time                 Id Command    Argument',
+        '2024-01-15T10:23:45.100000Z\t   12 Connect\tapp@localhost on shop using TCP/IP',
+        '2024-01-15T10:23:45.200000Z\t   12 Query\tSELECT * FROM users',
+        'JOIN orders ON true',
+        '2024-01-15T10:23:46.000000Z\t   12 Init DB\tarchive',
+        '2024-01-15T10:23:46.100000Z\t   12 Query\tDELETE FROM old_orders',
+        '2024-01-15T10:23:47.000000Z\t   12 Quit\t'
+      ].join('\n');
+
+      expect(readQueryLog(log, 'mysql-general').queries).toEqual([
+        { sql: 'SELECT * FROM users\nJOIN orders ON true', line: 5, timestamp: '2024-01-15T10:23:45.200000Z', user: 'app', database: 'shop' },
+        { sql: 'DELETE FROM old_orders', line: 8, timestamp: '2024-01-15T10:23:46.100000Z', user: 'app', database: 'archive' }
+      ]);
+    });
+
+    test('should read MySQL slow log entries without their timestamp and use lines', () => {
+      const log = [
+        '# Time: 2024-01-15T10:23:45.123456Z',
+        '# User@Host: app[app] @ localhost [127.0.0.1]  Id:    12',
+        '# Query_time: 2.000123  Lock_time: 0.000010 Rows_sent: 1  Rows_examined: 100000',
+        'use shop;',
+        'SET timestamp=1705314225;',
+        'SELECT *',
+        'FROM users u JOIN orders o ON o.user_id = u.id;',
+        '# Time: 2024-01-15T10:24:00.000000Z',
+        '# User@Host: bob[bob] @ localhost []  Id:    13',
+        'SET timestamp=1705314240;',
+        'UPDATE orders SET total = 0;'
+      ].join('\n');
+
+      expect(readQueryLog(log, 'mysql-slow').queries).toEqual([
+        {
+          sql: 'SELECT *\nFROM users u JOIN orders o ON o.user_id = u.id;', line: 6,
+          timestamp: '2024-01-15T10:23:45.123456Z', user: 'app', database: 'shop'
+        },
+        { sql: 'UPDATE orders SET total = 0;', line: 11, timestamp: '2024-01-15T10:24:00.000000Z', user: 'bob', database: 'shop' }
+      ]);
+    });
+
+    test('should split plain SQL scripts into queries', () => {
+      expect(readQueryLog('SELECT * FROM a;\nSELECT * FROM b', 'sql').queries).toEqual([
+        { sql: 'SELECT * FROM a', line: 1 },
+        { sql: 'SELECT * FROM b', line: 2 }
+      ]);
+    });
+  });
+
+  describe('countTableUsage', () => {
+    test('should count the queries using each table, most used first', () => {
+      const usage = countTableUsage([
+        'SELECT * FROM orders o JOIN orders p ON p.id = o.parent_id',
+        'WITH u AS (SELECT * FROM users) SELECT * FROM u JOIN orders ON true',
+        'INSERT INTO audit SELECT * FROM users'
+      ]);
+
+      expect(usage).toEqual({ queries: 3, failedQueries: 0, tables: { orders: 2, users: 2, audit: 1 } });
+      expect(Object.keys(usage.tables)).toEqual(['orders', 'users', 'audit']);
+    });
+
+    test('should resolve each query against its logged database', () => {
+      const knownTables = new Map<string, TableMetadata>([
+        ['shop.users', { tableName: 'users', fullyQualifiedName: 'shop.users', database: 'shop' }],
+        ['archive.users', { tableName: 'users', fullyQualifiedName: 'archive.users', database: 'archive' }]
+      ]);
+      const usage = countTableUsage([
+        { sql: 'SELECT * FROM users', line: 1, database: 'shop' },
+        { sql: 'SELECT * FROM users', line: 2, database: 'archive' },
+        { sql: 'SELECT * FROM users', line: 3 }
+      ], { knownTables });
+
+      expect(usage.tables).toEqual({ 'archive.users': 1, 'shop.users': 1, users: 1 });
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { afterAll, beforeAll, describe, expect, test } from '@jest/globals';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { TableMetadata } from '../parser';
+import { findSqlFiles, scanFile, scanFiles } from '../scan';
+
+describe('Scan', () => {
+  let root: string;
+  const path = (...parts: string[]) => join(root, ...parts);
+
+  beforeAll(() => {
+    root = mkdtempSync(join(tmpdir(), 'sql-scan-'));
+    mkdirSync(path('models', 'staging'), { recursive: true });
+    mkdirSync(path('models', '.hidden'));
+    mkdirSync(path('node_modules'));
+    writeFileSync(path('models', 'orders.sql'), 'SELECT * FROM orders JOIN users ON true;\nINSERT INTO audit SELECT * FROM orders');
+    writeFileSync(path('models', 'staging', 'users.sql'), 'WITH u AS (SELECT * FROM users) SELECT * FROM u');
+    writeFileSync(path('models', 'staging', 'notes.md'), 'SELECT * FROM notes');
+    writeFileSync(path('models', '.hidden', 'secret.sql'), 'SELECT * FROM secret');
+    writeFileSync(path('node_modules', 'vendor.sql'), 'SELECT * FROM vendor');
+    writeFileSync(path('top.sql'), 'SELECT * FROM top');
+  });
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  describe('findSqlFiles', () => {
+    test('should collect the SQL files below a directory', () => {
+      expect(findSqlFiles([root])).toEqual([
+        path('models', 'orders.sql'),
+        path('models', 'staging', 'users.sql'),
+        path('top.sql')
+      ]);
+    });
+
+    test('should expand glob patterns', () => {
+      expect(findSqlFiles([`${root}/models/*.sql`])).toEqual([path('models', 'orders.sql')]);
+      expect(findSqlFiles([`${root}/**/*.sql`])).toEqual([
+        path('models', 'orders.sql'),
+        path('models', 'staging', 'users.sql'),
+        path('top.sql')
+      ]);
+      expect(findSqlFiles([`${root}/models/staging/*.{sql,md}`])).toEqual([
+        path('models', 'staging', 'notes.md'),
+        path('models', 'staging', 'users.sql')
+      ]);
+    });
+
+    test('should keep other paths as given, once each', () => {
+      expect(findSqlFiles([path('top.sql'), path('missing.sql'), `${root}/t?p.sql`])).toEqual([
+        path('top.sql'),
+        path('missing.sql')
+      ]);
+    });
+  });
+
+  describe('scanFiles', () => {
+    test('should index files by table and total them', () => {
+      const files = [path('models', 'orders.sql'), path('models', 'staging', 'users.sql')];
+      const report = scanFiles(files);
+
+      expect(report.files.map(file => [file.file, file.statements, file.tables])).toEqual([
+        [files[0], 2, ['orders', 'users', 'audit']],
+        [files[1], 1, ['users']]
+      ]);
+      expect(report.files[0].tableAccess).toEqual({ orders: ['read'], users: ['read'], audit: ['insert'] });
+      expect(report.tables).toEqual({ orders: [files[0]], users: files, audit: [files[0]] });
+      expect(report.totals).toEqual({ files: 2, failedFiles: 0, statements: 3, tables: 3, diagnostics: 0 });
+    });
+
+    test('should report a file that cannot be read without stopping the run', () => {
+      const report = scanFiles([path('missing.sql'), path('top.sql')]);
+
+      expect(report.files[0]).toMatchObject({ file: path('missing.sql'), tables: [], error: expect.stringContaining('ENOENT') });
+      expect(report.files[1].tables).toEqual(['top']);
+      expect(report.totals.failedFiles).toBe(1);
+    });
+
+    test('should resolve names with the extraction options', () => {
+      const knownTables = new Map<string, TableMetadata>([
+        ['users', { tableName: 'users', fullyQualifiedName: 'app.users', schema: 'app' }]
+      ]);
+      const report = scanFiles([path('models', 'staging', 'users.sql')], { knownTables });
+
+      expect(report.tables).toEqual({ 'app.users': [path('models', 'staging', 'users.sql')] });
+    });
+  });
+
+  describe('scanFile', () => {
+    test('should carry the diagnostics of the file', () => {
+      writeFileSync(path('broken.sql'), "SELECT * FROM t WHERE a = 'open");
+      const scanned = scanFile(path('broken.sql'));
+
+      expect(scanned.error).toBeUndefined();
+      expect(scanned.diagnostics.map(diagnostic => diagnostic.code)).toEqual(['unterminated-string']);
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, expect, test } from '@jest/globals';
+import { splitStatements } from '../statements';
+
+const texts = (sql: string) => splitStatements(sql).map(statement => statement.text);
+
+describe('splitStatements', () => {
+  describe('Semicolons', () => {
+    test('should split on semicolons and skip empty statements', () => {
+      expect(texts('SELECT 1; ; SELECT 2;\n-- trailing comment\n')).toEqual(['SELECT 1', 'SELECT 2']);
+    });
+
+    test('should ignore semicolons in strings, comments and quoted identifiers', () => {
+      const sql = `SELECT 'a;b', "c;d" /* ; */ FROM t -- ;\n; SELECT 2`;
+      expect(texts(sql)).toEqual([`SELECT 'a;b', "c;d" /* ; */ FROM t -- ;`, 'SELECT 2']);
+    });
+
+    test('should report index, offsets and position of each statement', () => {
+      const sql = 'SELECT 1;\n  SELECT 2';
+      expect(splitStatements(sql)).toEqual([
+        { index: 0, text: 'SELECT 1', start: 0, end: 8, line: 1, column: 1 },
+        { index: 1, text: 'SELECT 2', start: 12, end: 20, line: 2, column: 3 }
+      ]);
+    });
+  });
+
+  describe('Batch separators and delimiters', () => {
+    test('should split SQL Server batches on GO lines', () => {
+      const sql = 'CREATE TABLE t (id int)\nGO\nINSERT INTO t VALUES (1)\ngo 2\nSELECT * FROM t';
+      expect(texts(sql)).toEqual(['CREATE TABLE t (id int)', 'INSERT INTO t VALUES (1)', 'SELECT * FROM t']);
+    });
+
+    test('should not treat GO inside a line as a separator', () => {
+      expect(texts('SELECT go FROM t')).toEqual(['SELECT go FROM t']);
+    });
+
+    test('should follow MySQL DELIMITER changes', () => {
+      const sql = [
+        'DELIMITER //',
+        'CREATE PROCEDURE p() BEGIN SELECT 1; SELECT 2; END //',
+        'DELIMITER $$',
+        'CREATE TRIGGER tr BEFORE INSERT ON t FOR EACH ROW SET NEW.x = 1; $$',
+        'DELIMITER ;',
+        'SELECT 3;'
+      ].join('\n');
+      expect(texts(sql)).toEqual([
+        'CREATE PROCEDURE p() BEGIN SELECT 1; SELECT 2; END',
+        'CREATE TRIGGER tr BEFORE INSERT ON t FOR EACH ROW SET NEW.x = 1;',
+        'SELECT 3'
+      ]);
+    });
+
+    test('should end statements at a delimiter written against the last word', () => {
+      const sql = [
+        'DELIMITER //',
+        'CREATE PROCEDURE p() BEGIN SELECT 1; END//',
+        'DELIMITER $$',
+        'CREATE PROCEDURE q() BEGIN SELECT 2; END$$',
+        'CREATE TABLE u (y int)$$'
+      ].join('\n');
+      expect(texts(sql)).toEqual([
+        'CREATE PROCEDURE p() BEGIN SELECT 1; END',
+        'CREATE PROCEDURE q() BEGIN SELECT 2; END',
+        'CREATE TABLE u (y int)'
+      ]);
+    });
+  });
+
+  describe('Routine bodies', () => {
+    test('should keep dollar-quoted bodies whole', () => {
+      const sql = `CREATE FUNCTION f() RETURNS void AS $$ BEGIN DELETE FROM t; END; $$ LANGUAGE plpgsql; SELECT f()`;
+      expect(texts(sql)).toHaveLength(2);
+    });
+
+    test('should keep BEGIN...END blocks whole, including nested CASE and END IF', () => {
+      const sql = `
+        CREATE PROCEDURE p() BEGIN
+          IF x THEN UPDATE t SET a = CASE WHEN b THEN 1 ELSE 2 END; END IF;
+          BEGIN DELETE FROM u; END;
+        END;
+        SELECT 1;
+      `;
+      const statements = texts(sql);
+      expect(statements).toHaveLength(2);
+      expect(statements[1]).toBe('SELECT 1');
+    });
+
+    test('should not treat transaction BEGIN as a block', () => {
+      expect(texts('BEGIN; UPDATE t SET a = 1; COMMIT;')).toEqual(['BEGIN', 'UPDATE t SET a = 1', 'COMMIT']);
+      expect(texts('BEGIN TRANSACTION; SELECT 1;')).toEqual(['BEGIN TRANSACTION', 'SELECT 1']);
+    });
+
+    test('should keep Oracle declaration sections with their block', () => {
+      const sql = `
+        DECLARE n NUMBER; BEGIN SELECT COUNT(*) INTO n FROM t; END;
+        CREATE OR REPLACE PROCEDURE p IS v NUMBER; BEGIN v := 1; END;
+        DECLARE @x INT; SELECT @x;
+      `;
+      expect(texts(sql)).toEqual([
+        'DECLARE n NUMBER; BEGIN SELECT COUNT(*) INTO n FROM t; END',
+        'CREATE OR REPLACE PROCEDURE p IS v NUMBER; BEGIN v := 1; END',
+        'DECLARE @x INT',
+        'SELECT @x'
+      ]);
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, expect, test } from '@jest/globals';
+import { extractColumnReferences } from '../columns';
+import { extractLineage } from '../lineage';
+import { SqlTableExtractor } from '../parser';
+import { renderTemplate } from '../templating';
+
+describe('Templated SQL', () => {
+  describe('renderTemplate', () => {
+    test('should resolve dbt refs and sources, through mappings when given', () => {
+      const template = "SELECT * FROM {{ ref('orders') }} o JOIN {{ source('raw', 'events') }} e ON true " +
+        "JOIN {{ ref('billing', 'invoices', v=2) }} i ON true JOIN {{- ref(\"users\") -}} u ON true";
+      const { sql, constructs } = renderTemplate(template, {
+        refs: { orders: 'analytics.fct_orders', 'billing.invoices': 'billing.invoices_v2' }
+      });
+
+      expect(sql).toBe(
+        'SELECT * FROM analytics.fct_orders o JOIN raw.events e ON true ' +
+        'JOIN billing.invoices_v2 i ON true JOIN users u ON true'
+      );
+      expect(constructs.map(construct => [construct.kind, construct.table])).toEqual([
+        ['ref', 'analytics.fct_orders'],
+        ['source', 'raw.events'],
+        ['ref', 'billing.invoices_v2'],
+        ['ref', 'users']
+      ]);
+    });
+
+    test('should neutralize Jinja tags, expressions and comments', () => {
+      const template = [
+        "{{ config(materialized='incremental') }}",
+        "SELECT id, '{{ var(\"day\") }}' AS day FROM {{ ref('events') }}",
+        '{# only new rows #}',
+        '{% if is_incremental() %}WHERE ts > (SELECT MAX(ts) FROM {{ this }}){% endif %}'
+      ].join('\n');
+
+      expect(renderTemplate(template).sql).toBe([
+        ' ',
+        "SELECT id, 'NULL' AS day FROM events",
+        ' ',
+        ' WHERE ts > (SELECT MAX(ts) FROM NULL) '
+      ].join('\n'));
+    });
+
+    test('should replace Metabase snippets and saved questions', () => {
+      const template = 'SELECT * FROM {{#12-customers}} c WHERE {{snippet: active}} AND {{snippet: recent}} AND c.id = {{id}}';
+      const { sql, constructs } = renderTemplate(template, { snippets: { active: 'c.active' } });
+
+      expect(sql).toBe('SELECT * FROM (SELECT NULL) c WHERE c.active AND   AND c.id = NULL');
+      expect(constructs.map(construct => construct.kind)).toEqual(['snippet', 'snippet', 'snippet', 'expression']);
+    });
+
+    test('should keep the clauses of Metabase optional blocks', () => {
+      const template = 'SELECT * FROM a JOIN b ON a.id = b.id WHERE a.x = 1 [[AND b.x = {{p}}]] [[AND a.y IN (SELECT y FROM c)]]';
+      const rendered = renderTemplate(template);
+
+      expect(rendered.sql).toBe('SELECT * FROM a JOIN b ON a.id = b.id WHERE a.x = 1  AND b.x = NULL   AND a.y IN (SELECT y FROM c) ');
+      expect(rendered.constructs.map(construct => construct.kind)).toEqual(['optional', 'expression', 'optional', 'optional', 'optional']);
+      expect(rendered.toTemplateOffset(rendered.sql.indexOf('c)'))).toBe(template.indexOf('c)'));
+      expect(SqlTableExtractor.extractTableNames(template, { template: true }).allTables).toEqual(['a', 'b', 'c']);
+    });
+
+    test('should replace bind parameters outside strings, comments and casts', () => {
+      const template = "SELECT v:name, x::int FROM t WHERE a = :a AND b = $1 AND c = ? AND d ?| e AND f = ':no' -- ?\n";
+
+      expect(renderTemplate(template).sql)
+        .toBe("SELECT v:name, x::int FROM t WHERE a = NULL AND b = NULL AND c = NULL AND d ?| e AND f = ':no' -- ?\n");
+    });
+
+    test('should map rendered offsets back to the template', () => {
+      const template = "SELECT * FROM {{ ref('orders') }} WHERE id = :id";
+      const rendered = renderTemplate(template, { refs: { orders: 'o' } });
+
+      expect(rendered.sql).toBe('SELECT * FROM o WHERE id = NULL');
+      expect(rendered.toTemplateOffset(14)).toBe(14);
+      expect(rendered.toTemplateOffset(15)).toBe(33);
+      expect(rendered.toTemplateOffset(rendered.sql.indexOf('WHERE'))).toBe(template.indexOf('WHERE'));
+      expect(rendered.toTemplateOffset(rendered.sql.length)).toBe(template.length);
+    });
+  });
+
+  describe('template option', () => {
+    test('should extract tables with positions in the template', () => {
+      const template = "{{ config(materialized='table') }}\nSELECT * FROM {{ ref('orders') }} o\nJOIN users u ON u.id = o.user_id";
+      const result = SqlTableExtractor.extractTableNames(template, { template: { refs: { orders: 'analytics.orders' } } });
+
+      expect(result.allTables).toEqual(['analytics.orders', 'users']);
+      expect(result.references.map(r => [r.rawText, r.line, r.column])).toEqual([
+        ["{{ ref('orders') }}", 2, 15],
+        ['users', 3, 6]
+      ]);
+      expect(result.scopes[0].start).toBe(template.indexOf('SELECT'));
+    });
+
+    test('should map statements and columns back to the template', () => {
+      const template = "SELECT 1;\nSELECT o.id FROM {{ ref('orders') }} o WHERE o.id = ?";
+      const [, second] = SqlTableExtractor.extractTableNamesByStatement(template, { template: true });
+      const { columns } = extractColumnReferences(template, { template: true });
+
+      expect(second.statement).toMatchObject({ text: "SELECT o.id FROM {{ ref('orders') }} o WHERE o.id = ?", line: 2, column: 1 });
+      expect(columns.map(c => [c.rawText, c.table, c.start])).toEqual([
+        ['o.id', 'orders', template.indexOf('o.id')],
+        ['o.id', 'orders', template.lastIndexOf('o.id')]
+      ]);
+    });
+
+    test('should render templates for lineage', () => {
+      const { statements } = extractLineage("INSERT INTO {{ ref('daily') }} SELECT * FROM {{ source('raw', 'orders') }}", { template: true });
+
+      expect(statements[0].edges).toEqual([{ target: 'daily', operation: 'insert', sources: ['raw.orders'] }]);
+    });
+  });
+});
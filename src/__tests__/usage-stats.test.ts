@@ -0,0 +1,66 @@
+import { describe, expect, test } from '@jest/globals';
+import { TableMetadata } from '../parser';
+import { TableUsageAggregator } from '../usage-stats';
+
+describe('TableUsageAggregator', () => {
+  test('should count queries, reads and writes per table', () => {
+    const report = new TableUsageAggregator().addAll([
+      'SELECT * FROM orders o JOIN orders p ON p.id = o.parent_id',
+      'INSERT INTO audit SELECT * FROM orders',
+      'UPDATE orders SET total = 0 FROM rates WHERE rates.id = orders.rate_id',
+      'WITH recent AS (SELECT * FROM orders) SELECT * FROM recent'
+    ]).getReport();
+
+    expect(report.queries).toBe(4);
+    expect(report.tables.map(stats => [stats.table, stats.queries, stats.reads, stats.writes])).toEqual([
+      ['orders', 4, 3, 1],
+      ['audit', 1, 0, 1],
+      ['rates', 1, 1, 0]
+    ]);
+  });
+
+  test('should track first and last seen and the users of each table', () => {
+    const report = new TableUsageAggregator().addAll([
+      { sql: 'SELECT * FROM users', timestamp: '2024-01-15 10:00:00 UTC', user: 'bob' },
+      { sql: 'SELECT * FROM users', timestamp: new Date('2024-01-10T08:00:00Z'), user: 'ann' },
+      { sql: 'SELECT * FROM users', timestamp: '240120 09:30:00', user: 'bob' },
+      { sql: 'SELECT * FROM users', timestamp: 'yesterday' },
+      { sql: 'SELECT * FROM users', timestamp: '1704700800' },
+      { sql: 'SELECT * FROM events' }
+    ]).getReport();
+
+    expect(report.tables[0]).toMatchObject({
+      table: 'users',
+      firstSeen: '2024-01-08T08:00:00.000Z',
+      lastSeen: '2024-01-20T09:30:00.000Z',
+      users: ['ann', 'bob']
+    });
+    expect(report.tables[1]).toEqual({ table: 'events', queries: 1, reads: 1, writes: 0, users: [], joinedWith: [] });
+  });
+
+  test('should rank the tables joined with each table', () => {
+    const report = new TableUsageAggregator({ topJoins: 2 }).addAll([
+      'SELECT * FROM orders JOIN users ON true JOIN items ON true',
+      'SELECT * FROM orders, users',
+      'SELECT * FROM orders LEFT JOIN refunds ON true WHERE EXISTS (SELECT 1 FROM fraud)',
+      'INSERT INTO archive SELECT * FROM orders'
+    ]).getReport();
+
+    const orders = report.tables.find(stats => stats.table === 'orders')!;
+    expect(orders.joinedWith).toEqual([{ table: 'users', queries: 2 }, { table: 'items', queries: 1 }]);
+    expect(report.tables.find(stats => stats.table === 'fraud')!.joinedWith).toEqual([]);
+  });
+
+  test('should flag known tables no query referenced', () => {
+    const knownTables = new Map<string, TableMetadata>([
+      ['users', { tableName: 'users', fullyQualifiedName: 'shop.users', schema: 'shop' }],
+      ['shop.users', { tableName: 'users', fullyQualifiedName: 'shop.users', schema: 'shop' }],
+      ['ghosts', { tableName: 'ghosts', fullyQualifiedName: 'shop.ghosts', schema: 'shop' }],
+      ['legacy', { tableName: 'legacy', fullyQualifiedName: 'old.legacy', schema: 'old' }]
+    ]);
+    const report = new TableUsageAggregator({ knownTables }).add('SELECT * FROM users JOIN other ON true').getReport();
+
+    expect(report.tables.map(stats => stats.table)).toEqual(['other', 'shop.users']);
+    expect(report.unusedTables).toEqual(['old.legacy', 'shop.ghosts']);
+  });
+});
@@ -0,0 +1,292 @@
+import type { DbtNodeInfo, DbtResourceType } from './dbt.js';
+import { isRecord } from './json.js';
+import type { TableColumn, TableMetadata } from './parser.js';
+
+export type CatalogProblemSeverity = 'error' | 'warning';
+
+export interface CatalogProblem {
+  /** Errors leave the entry or column out of the known tables; warnings do not */
+  severity: CatalogProblemSeverity;
+  /** JSON path of the offending value, e.g. $["users"].columns[0].name */
+  path: string;
+  message: string;
+}
+
+export interface CatalogValidationOptions {
+  /**
+   * Add a key for the short name and the schema-qualified name of each table
+   * that lacks one, unless another table has the same name
+   */
+  addAliases?: boolean;
+}
+
+export interface CatalogValidationResult {
+  /** Whether no errors were found */
+  valid: boolean;
+  /** Every problem found, in file order */
+  problems: CatalogProblem[];
+  /** The valid entries, invalid columns dropped, followed by any added alias keys */
+  knownTables: Map<string, TableMetadata>;
+  /** Keys added by `addAliases` */
+  addedKeys: string[];
+}
+
+/** Properties of a table entry, as in schemas/known-tables.schema.json */
+const TABLE_PROPERTIES = new Set(['tableName', 'fullyQualifiedName', 'schema', 'database', 'columns', 'dbt']);
+
+const COLUMN_PROPERTIES = new Set(['name', 'type', 'nullable']);
+
+const DBT_RESOURCE_TYPES = new Set<string>(['model', 'source', 'seed', 'snapshot']);
+
+/**
+ * Check a parsed known tables JSON file, reporting every problem with its
+ * JSON path. Errors are values of the wrong type or missing required
+ * properties; warnings are unknown properties, duplicate column names, a
+ * `fullyQualifiedName` that disagrees with `tableName`, `schema` and
+ * `database`, and one fully qualified name defined differently under several
+ * keys, or under a key that is none of its names.
+ */
+export function validateCatalog(data: unknown, options: CatalogValidationOptions = {}): CatalogValidationResult {
+  const problems: CatalogProblem[] = [];
+  const knownTables = new Map<string, TableMetadata>();
+
+  if (!isRecord(data)) {
+    problems.push({ severity: 'error', path: '$', message: 'Known tables must be an object mapping keys to table definitions' });
+    return { valid: false, problems, knownTables, addedKeys: [] };
+  }
+
+  const byFullName = new Map<string, string>();
+  for (const [key, value] of Object.entries(data)) {
+    const path = `$[${JSON.stringify(key)}]`;
+    const metadata = readTableEntry(value, path, problems);
+    if (!metadata) {
+      continue;
+    }
+
+    checkFullyQualifiedName(metadata, path, problems);
+    const firstKey = byFullName.get(metadata.fullyQualifiedName);
+    if (firstKey === undefined) {
+      byFullName.set(metadata.fullyQualifiedName, key);
+    } else if (!sameTable(knownTables.get(firstKey)!, metadata)) {
+      problems.push({
+        severity: 'warning',
+        path: `${path}.fullyQualifiedName`,
+        message: `Duplicate fully qualified name "${metadata.fullyQualifiedName}", defined differently under "${firstKey}"`
+      });
+    } else if (!tableNames(metadata).includes(key)) {
+      problems.push({
+        severity: 'warning',
+        path,
+        message: `Duplicate fully qualified name "${metadata.fullyQualifiedName}" under a key that is none of its names (also under "${firstKey}")`
+      });
+    }
+    knownTables.set(key, metadata);
+  }
+
+  const addedKeys = options.addAliases ? addAliasKeys(knownTables) : [];
+  return { valid: !problems.some(problem => problem.severity === 'error'), problems, knownTables, addedKeys };
+}
+
+/**
+ * Read one table entry, or report why it cannot be used
+ */
+function readTableEntry(value: unknown, path: string, problems: CatalogProblem[]): TableMetadata | undefined {
+  if (!isRecord(value)) {
+    problems.push({ severity: 'error', path, message: 'Table definition must be an object' });
+    return undefined;
+  }
+
+  const tableName = readRequiredString(value, 'tableName', path, problems);
+  const fullyQualifiedName = readRequiredString(value, 'fullyQualifiedName', path, problems);
+  const schema = readOptionalString(value, 'schema', path, problems);
+  const database = readOptionalString(value, 'database', path, problems);
+  for (const property of Object.keys(value)) {
+    if (!TABLE_PROPERTIES.has(property)) {
+      problems.push({ severity: 'warning', path: `${path}.${property}`, message: `Unknown property "${property}"` });
+    }
+  }
+
+  const dbt = readDbtInfo(value.dbt, `${path}.dbt`, problems);
+  const columns = readColumns(value.columns, `${path}.columns`, problems);
+  if (tableName === undefined || fullyQualifiedName === undefined || schema === null || database === null) {
+    return undefined;
+  }
+  return {
+    tableName,
+    fullyQualifiedName,
+    ...(schema !== undefined && { schema }),
+    ...(database !== undefined && { database }),
+    ...(columns !== undefined && { columns }),
+    ...(dbt !== undefined && { dbt })
+  };
+}
+
+/**
+ * A required non-empty string property, or undefined after reporting it
+ */
+function readRequiredString(entry: Record<string, unknown>, property: string, path: string, problems: CatalogProblem[]): string | undefined {
+  const value = entry[property];
+  if (value === undefined) {
+    problems.push({ severity: 'error', path, message: `Missing required property "${property}"` });
+    return undefined;
+  }
+  if (typeof value !== 'string' || value === '') {
+    problems.push({ severity: 'error', path: `${path}.${property}`, message: 'Must be a non-empty string' });
+    return undefined;
+  }
+  return value;
+}
+
+/**
+ * An optional string property: undefined when absent, null after reporting
+ * a value of another type
+ */
+function readOptionalString(entry: Record<string, unknown>, property: string, path: string, problems: CatalogProblem[]): string | undefined | null {
+  const value = entry[property];
+  if (value !== undefined && typeof value !== 'string') {
+    problems.push({ severity: 'error', path: `${path}.${property}`, message: 'Must be a string' });
+    return null;
+  }
+  return value;
+}
+
+/**
+ * Read the column definitions of a table, leaving out invalid ones
+ */
+function readColumns(value: unknown, path: string, problems: CatalogProblem[]): TableColumn[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!Array.isArray(value)) {
+    problems.push({ severity: 'error', path, message: 'Columns must be an array' });
+    return undefined;
+  }
+
+  const columns: TableColumn[] = [];
+  value.forEach((entry, index) => {
+    const columnPath = `${path}[${index}]`;
+    if (!isRecord(entry)) {
+      problems.push({ severity: 'error', path: columnPath, message: 'Column definition must be an object' });
+      return;
+    }
+    const { name, type, nullable } = entry;
+    if (typeof name !== 'string' || name === '') {
+      problems.push({ severity: 'error', path: `${columnPath}.name`, message: 'Column name must be a non-empty string' });
+      return;
+    }
+    if (type !== undefined && typeof type !== 'string') {
+      problems.push({ severity: 'error', path: `${columnPath}.type`, message: 'Must be a string' });
+      return;
+    }
+    if (nullable !== undefined && typeof nullable !== 'boolean') {
+      problems.push({ severity: 'error', path: `${columnPath}.nullable`, message: 'Must be a boolean' });
+      return;
+    }
+    for (const property of Object.keys(entry)) {
+      if (!COLUMN_PROPERTIES.has(property)) {
+        problems.push({ severity: 'warning', path: `${columnPath}.${property}`, message: `Unknown property "${property}"` });
+      }
+    }
+    if (columns.some(column => column.name === name)) {
+      problems.push({ severity: 'warning', path: `${columnPath}.name`, message: `Duplicate column "${name}"` });
+    }
+    columns.push({
+      name,
+      ...(type !== undefined && { type }),
+      ...(nullable !== undefined && { nullable })
+    });
+  });
+  return columns;
+}
+
+function readDbtInfo(value: unknown, path: string, problems: CatalogProblem[]): DbtNodeInfo | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const { uniqueId, resourceType, packageName } = isRecord(value) ? value : {};
+  if (typeof uniqueId !== 'string' || typeof resourceType !== 'string' || !DBT_RESOURCE_TYPES.has(resourceType) ||
+    (packageName !== undefined && typeof packageName !== 'string')) {
+    problems.push({ severity: 'error', path, message: 'Must be an object with a uniqueId, a resourceType of model, source, seed or snapshot and an optional packageName' });
+    return undefined;
+  }
+  return {
+    uniqueId,
+    resourceType: resourceType as DbtResourceType,
+    ...(packageName !== undefined && { packageName })
+  };
+}
+
+/**
+ * Warn when a fully qualified name is not table, schema.table or
+ * database.schema.table (database.table without a schema) for the table's parts
+ */
+function checkFullyQualifiedName(metadata: TableMetadata, path: string, problems: CatalogProblem[]): void {
+  const expected = metadata.schema !== undefined
+    ? [`${metadata.schema}.${metadata.tableName}`, ...(metadata.database !== undefined ? [`${metadata.database}.${metadata.schema}.${metadata.tableName}`] : [])]
+    : [metadata.tableName, ...(metadata.database !== undefined ? [`${metadata.database}.${metadata.tableName}`] : [])];
+
+  if (!expected.includes(metadata.fullyQualifiedName)) {
+    problems.push({
+      severity: 'warning',
+      path: `${path}.fullyQualifiedName`,
+      message: `"${metadata.fullyQualifiedName}" does not match tableName, schema and database: expected ${expected.map(name => `"${name}"`).join(' or ')}`
+    });
+  }
+}
+
+/**
+ * The names a table may be stored under: short, schema-qualified and fully qualified
+ */
+function tableNames(metadata: TableMetadata): string[] {
+  return [
+    metadata.tableName,
+    ...(metadata.schema !== undefined ? [`${metadata.schema}.${metadata.tableName}`] : []),
+    ...(metadata.database !== undefined && metadata.schema !== undefined ? [`${metadata.database}.${metadata.schema}.${metadata.tableName}`] : []),
+    metadata.fullyQualifiedName
+  ];
+}
+
+/**
+ * Whether two entries define the same table, regardless of property order
+ */
+function sameTable(a: TableMetadata, b: TableMetadata): boolean {
+  return a.tableName === b.tableName &&
+    a.fullyQualifiedName === b.fullyQualifiedName &&
+    a.schema === b.schema &&
+    a.database === b.database &&
+    sameColumns(a.columns, b.columns) &&
+    a.dbt?.uniqueId === b.dbt?.uniqueId &&
+    a.dbt?.resourceType === b.dbt?.resourceType &&
+    a.dbt?.packageName === b.dbt?.packageName;
+}
+
+function sameColumns(a: TableColumn[] | undefined, b: TableColumn[] | undefined): boolean {
+  if (a === undefined || b === undefined) {
+    return a === b;
+  }
+  return a.length === b.length && a.every((column, index) =>
+    column.name === b[index].name && column.type === b[index].type && column.nullable === b[index].nullable);
+}
+
+/**
+ * Store each table under its short and schema-qualified names where no key
+ * has that name yet and no other table shares it
+ */
+function addAliasKeys(knownTables: Map<string, TableMetadata>): string[] {
+  const claims = new Map<string, Map<string, TableMetadata>>();
+  for (const metadata of knownTables.values()) {
+    const aliases = [metadata.tableName, ...(metadata.schema !== undefined ? [`${metadata.schema}.${metadata.tableName}`] : [])];
+    for (const alias of aliases) {
+      claims.set(alias, (claims.get(alias) ?? new Map()).set(metadata.fullyQualifiedName, metadata));
+    }
+  }
+
+  const addedKeys: string[] = [];
+  for (const [alias, tables] of claims) {
+    if (!knownTables.has(alias) && tables.size === 1) {
+      knownTables.set(alias, tables.values().next().value!);
+      addedKeys.push(alias);
+    }
+  }
+  return addedKeys;
+}
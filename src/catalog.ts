@@ -0,0 +1,233 @@
+import { getDialect, SqlDialect, SqlDialectName } from './dialects.js';
+import type { TableMetadata } from './parser.js';
+
+export interface TableCatalogOptions {
+  /** Whether names match regardless of case; defaults to the dialect's rule, or exact matching without a dialect */
+  caseInsensitive?: boolean;
+  /** Dialect whose case sensitivity applies */
+  dialect?: SqlDialectName | SqlDialect;
+}
+
+/**
+ * Known tables indexed by key, short name, schema-qualified and fully
+ * qualified name, so every lookup takes the same time however large the
+ * catalog is. Reads like a `Map` from key to metadata.
+ */
+export class TableCatalog implements Iterable<[string, TableMetadata]> {
+  readonly caseInsensitive: boolean;
+
+  private readonly tables = new Map<string, TableMetadata>();
+  private readonly byKey = new Map<string, TableMetadata>();
+  private readonly byFullName = new Map<string, TableMetadata[]>();
+  private readonly byName = new Map<string, TableMetadata[]>();
+  /** schema.table, plus database.table for tables without a schema */
+  private readonly byQualifiedName = new Map<string, TableMetadata[]>();
+  private readonly byDatabaseQualifiedName = new Map<string, TableMetadata[]>();
+  /** Number of keys each table is stored under; a table is indexed by name once */
+  private readonly keyCounts = new Map<TableMetadata, number>();
+
+  constructor(
+    entries: Iterable<[string, TableMetadata]> | Iterable<TableMetadata> = [],
+    options: TableCatalogOptions = {}
+  ) {
+    this.caseInsensitive = options.caseInsensitive ?? (options.dialect ? getDialect(options.dialect).caseInsensitive : false);
+
+    for (const entry of entries) {
+      if (Array.isArray(entry)) {
+        this.set(entry[0], entry[1]);
+      } else {
+        const metadata = entry as TableMetadata;
+        this.set(metadata.fullyQualifiedName, metadata);
+      }
+    }
+  }
+
+  /**
+   * Use a catalog as is, or index the entries of a known tables map
+   */
+  static from(knownTables: Map<string, TableMetadata> | TableCatalog, options: TableCatalogOptions = {}): TableCatalog {
+    return knownTables instanceof TableCatalog ? knownTables : new TableCatalog(knownTables, options);
+  }
+
+  get size(): number {
+    return this.tables.size;
+  }
+
+  /**
+   * Add a table under a key, replacing any table previously stored under it
+   */
+  set(key: string, metadata: TableMetadata): this {
+    const previous = this.tables.get(key);
+    if (previous) {
+      this.unindex(key, previous);
+    }
+
+    this.tables.set(key, metadata);
+    this.byKey.set(this.fold(key), metadata);
+    const keyCount = (this.keyCounts.get(metadata) ?? 0) + 1;
+    this.keyCounts.set(metadata, keyCount);
+    if (keyCount > 1) {
+      return this;
+    }
+
+    addTo(this.byFullName, this.fold(metadata.fullyQualifiedName), metadata);
+    addTo(this.byName, this.fold(metadata.tableName), metadata);
+    for (const name of this.qualifiedNames(metadata)) {
+      addTo(this.byQualifiedName, name, metadata);
+    }
+    if (metadata.database !== undefined && metadata.schema !== undefined) {
+      addTo(this.byDatabaseQualifiedName, this.foldParts([metadata.database, metadata.schema, metadata.tableName]), metadata);
+    }
+    return this;
+  }
+
+  delete(key: string): boolean {
+    const metadata = this.tables.get(key);
+    if (!metadata) {
+      return false;
+    }
+    this.unindex(key, metadata);
+    this.tables.delete(key);
+    return true;
+  }
+
+  /**
+   * Get a table by its key (ignoring case in a case-insensitive catalog)
+   */
+  get(key: string): TableMetadata | undefined {
+    return this.tables.get(key) ?? this.byKey.get(this.fold(key));
+  }
+
+  has(key: string): boolean {
+    return this.get(key) !== undefined;
+  }
+
+  keys(): IterableIterator<string> {
+    return this.tables.keys();
+  }
+
+  values(): IterableIterator<TableMetadata> {
+    return this.tables.values();
+  }
+
+  entries(): IterableIterator<[string, TableMetadata]> {
+    return this.tables.entries();
+  }
+
+  [Symbol.iterator](): IterableIterator<[string, TableMetadata]> {
+    return this.tables.entries();
+  }
+
+  /**
+   * Find the tables a name may refer to: the table stored under that key, the
+   * tables with that fully qualified name, or else the tables matching
+   * `db.schema.table`, `db..table`, `schema.table` (or `db.table` for tables
+   * without a schema) or a bare `table`
+   */
+  findCandidates(name: string): TableMetadata[] {
+    const byKey = this.get(name);
+    if (byKey) {
+      return [byKey];
+    }
+    const byFullName = this.byFullName.get(this.fold(name));
+    if (byFullName) {
+      return uniqueTables(byFullName);
+    }
+
+    const parts = name.split('.');
+    switch (parts.length) {
+      case 1:
+        return uniqueTables(this.byName.get(this.fold(name)) ?? []);
+      case 2:
+        return uniqueTables(this.byQualifiedName.get(this.foldParts(parts)) ?? []);
+      case 3: {
+        const [database, schema, table] = parts;
+        if (schema === '') {
+          // SQL Server's db..table: any schema of the database
+          return uniqueTables((this.byName.get(this.fold(table)) ?? [])
+            .filter(metadata => this.equals(metadata.database, database)));
+        }
+        return uniqueTables(this.byDatabaseQualifiedName.get(this.foldParts(parts)) ?? []);
+      }
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * The form of a name used in the indexes: lower case in a case-insensitive catalog
+   */
+  fold(name: string): string {
+    return this.caseInsensitive ? name.toLowerCase() : name;
+  }
+
+  /**
+   * Compare two names, ignoring case in a case-insensitive catalog
+   */
+  equals(a: string | undefined, b: string | undefined): boolean {
+    return a === undefined || b === undefined ? a === b : this.fold(a) === this.fold(b);
+  }
+
+  private foldParts(parts: string[]): string {
+    return parts.map(part => this.fold(part)).join('.');
+  }
+
+  private qualifiedNames(metadata: TableMetadata): string[] {
+    if (metadata.schema !== undefined) {
+      return [this.foldParts([metadata.schema, metadata.tableName])];
+    }
+    return metadata.database !== undefined ? [this.foldParts([metadata.database, metadata.tableName])] : [];
+  }
+
+  private unindex(key: string, metadata: TableMetadata): void {
+    if (this.byKey.get(this.fold(key)) === metadata) {
+      this.byKey.delete(this.fold(key));
+    }
+    const keyCount = this.keyCounts.get(metadata)! - 1;
+    if (keyCount > 0) {
+      this.keyCounts.set(metadata, keyCount);
+      return;
+    }
+
+    this.keyCounts.delete(metadata);
+    removeFrom(this.byFullName, this.fold(metadata.fullyQualifiedName), metadata);
+    removeFrom(this.byName, this.fold(metadata.tableName), metadata);
+    for (const name of this.qualifiedNames(metadata)) {
+      removeFrom(this.byQualifiedName, name, metadata);
+    }
+    if (metadata.database !== undefined && metadata.schema !== undefined) {
+      removeFrom(this.byDatabaseQualifiedName, this.foldParts([metadata.database, metadata.schema, metadata.tableName]), metadata);
+    }
+  }
+}
+
+function addTo(index: Map<string, TableMetadata[]>, name: string, metadata: TableMetadata): void {
+  const tables = index.get(name);
+  if (tables) {
+    tables.push(metadata);
+  } else {
+    index.set(name, [metadata]);
+  }
+}
+
+function removeFrom(index: Map<string, TableMetadata[]>, name: string, metadata: TableMetadata): void {
+  const tables = index.get(name)?.filter(table => table !== metadata);
+  if (tables && tables.length > 0) {
+    index.set(name, tables);
+  } else {
+    index.delete(name);
+  }
+}
+
+/**
+ * Drop entries describing the same table (same fully qualified name) under different keys
+ */
+function uniqueTables(tables: TableMetadata[]): TableMetadata[] {
+  const unique = new Map<string, TableMetadata>();
+  for (const metadata of tables) {
+    if (!unique.has(metadata.fullyQualifiedName)) {
+      unique.set(metadata.fullyQualifiedName, metadata);
+    }
+  }
+  return Array.from(unique.values());
+}
@@ -0,0 +1,628 @@
+import { TableCatalog } from './catalog.js';
+import { getDialectLexerOptions } from './dialects.js';
+import { createPositionLookup, Token } from './lexer.js';
+import {
+  QueryScope,
+  SqlTableExtractor,
+  TableAccessMode,
+  TableColumn,
+  TableExtractionOptions,
+  TableReference
+} from './parser.js';
+import { splitTokenizedStatements } from './statements.js';
+import { renderExtractionTemplate } from './templating.js';
+
+/** The clause a column reference appears in */
+export type ColumnClause =
+  | 'select'
+  | 'where'
+  | 'join'
+  | 'groupBy'
+  | 'having'
+  | 'orderBy'
+  | 'insert'
+  | 'set'
+  | 'values'
+  | 'returning';
+
+export interface ColumnReference {
+  /** The reference exactly as written in the SQL, including qualifier and quotes */
+  rawText: string;
+  /** The column name with quotes removed, or '*' for a wildcard */
+  name: string;
+  /** The qualifier as written, with quotes removed (an alias, table or schema.table) */
+  qualifier?: string;
+  /** Table, CTE, or derived table or table function alias the column was attributed to */
+  table?: string;
+  /** What `table` refers to */
+  tableKind?: 'table' | 'cte' | 'derived' | 'function';
+  /** Clause the column appears in */
+  clause: ColumnClause;
+  /** Whether the column is written (INSERT column lists, UPDATE SET targets) or read */
+  access: 'read' | 'write';
+  /** Whether the column is unqualified and could belong to several tables */
+  ambiguous: boolean;
+  /** Tables an ambiguous column could belong to */
+  candidates?: string[];
+  /**
+   * For wildcards, the concrete columns they select, in table order. Only set
+   * when every table the wildcard covers has its columns in the known tables.
+   */
+  expandedColumns?: ExpandedColumn[];
+  /** Index of the statement in the script */
+  statementIndex: number;
+  /** Id of the query scope of the statement the column appears in */
+  scopeId: number;
+  /** Offset of the first character in the original SQL */
+  start: number;
+  /** Offset just past the last character in the original SQL */
+  end: number;
+  /** 1-based line of the first character */
+  line: number;
+  /** 1-based column of the first character */
+  column: number;
+}
+
+/** A column selected by a wildcard */
+export interface ExpandedColumn extends TableColumn {
+  /** Resolved name of the table the column belongs to */
+  table: string;
+}
+
+export interface ColumnExtractionResult {
+  /** Every column reference in source order */
+  columns: ColumnReference[];
+}
+
+/** A column reference before its statement and source position are filled in */
+type ColumnMatch = Omit<ColumnReference, 'rawText' | 'statementIndex' | 'line' | 'column'>;
+
+interface ColumnFrame {
+  /** Whether the parenthesized group is a (sub)query; clause keywords only count in queries */
+  isQuery: boolean;
+  /** Current clause, or undefined where names are not columns (FROM lists, DDL, LIMIT...) */
+  clause?: ColumnClause;
+  /** Table receiving written columns: the INSERT target of a column list, or the SET target */
+  target?: TableReference;
+  /** Output names defined in the SELECT list, which ORDER BY, GROUP BY and HAVING may refer to */
+  selectAliases: Set<string>;
+}
+
+/** Table references and scopes of the statement being walked */
+interface StatementTables {
+  references: TableReference[];
+  scopes: QueryScope[];
+  knownTables?: TableCatalog;
+}
+
+interface SourceTable {
+  table: string;
+  kind: 'table' | 'cte' | 'derived' | 'function';
+}
+
+/** Keywords that switch the clause of a query */
+const CLAUSE_KEYWORDS: Record<string, ColumnClause | undefined> = {
+  SELECT: 'select',
+  WHERE: 'where',
+  QUALIFY: 'where',
+  GROUP: 'groupBy',
+  HAVING: 'having',
+  ORDER: 'orderBy',
+  RETURNING: 'returning',
+  SET: 'set',
+  VALUES: 'values',
+  FROM: undefined,
+  JOIN: undefined,
+  APPLY: undefined,
+  INTO: undefined,
+  WITH: undefined,
+  WINDOW: undefined,
+  LIMIT: undefined,
+  OFFSET: undefined,
+  FETCH: undefined,
+  UNION: undefined,
+  INTERSECT: undefined,
+  EXCEPT: undefined,
+  INSERT: undefined,
+  UPDATE: undefined,
+  DELETE: undefined,
+  MERGE: undefined,
+  CREATE: undefined,
+  ALTER: undefined,
+  DROP: undefined,
+  TRUNCATE: undefined,
+  TABLE: undefined
+};
+
+/** Keywords that mark a parenthesized group as a query rather than function arguments */
+const QUERY_START_WORDS = new Set(['SELECT', 'DELETE', 'UPDATE', 'WITH', 'VALUES']);
+
+/** Table accesses whose tables supply columns to the query around them */
+const SOURCE_ACCESS = new Set<TableAccessMode>(['read', 'update', 'delete', 'merge']);
+
+/** Table accesses whose tables receive SET assignments */
+const SET_TARGET_ACCESS = new Set<TableAccessMode>(['update', 'merge', 'insert']);
+
+/** Words that look like names in expressions but are never columns */
+const NON_COLUMN_WORDS = new Set([
+  'TRUE', 'FALSE', 'UNKNOWN', 'CURRENT_DATE', 'CURRENT_TIME', 'CURRENT_TIMESTAMP',
+  'CURRENT_USER', 'SESSION_USER', 'LOCALTIME', 'LOCALTIMESTAMP', 'NULLS', 'FIRST', 'LAST',
+  'ROWS', 'RANGE', 'GROUPS', 'UNBOUNDED', 'PRECEDING', 'FOLLOWING', 'ROW', 'ILIKE', 'RLIKE',
+  'SIMILAR', 'ESCAPE', 'AT', 'TIME', 'ZONE', 'DATE', 'TIMESTAMP', 'YEAR', 'MONTH', 'DAY',
+  'HOUR', 'MINUTE', 'SECOND', 'WEEK', 'QUARTER', 'EPOCH', 'DOW', 'DOY', 'ARRAY', 'COLLATE',
+  'MATCHED', 'DIV', 'MOD', 'XOR', 'REGEXP', 'SOME', 'ISNULL', 'NOTNULL', 'ROLLUP', 'CUBE', 'SETS'
+]);
+
+/**
+ * Extract every column referenced by a SQL script: SELECT lists, WHERE, JOIN
+ * conditions, GROUP BY, HAVING, ORDER BY, INSERT column lists and UPDATE SET
+ * targets. Columns are attributed to tables through the aliases and table
+ * references found by `SqlTableExtractor`; unqualified columns in a scope with
+ * several tables are reported as ambiguous rather than guessed.
+ */
+export function extractColumnReferences(
+  sql: string,
+  options: TableExtractionOptions = {}
+): ColumnExtractionResult {
+  const toPosition = createPositionLookup(sql);
+  if (options.template) {
+    // Extract from the rendered SQL, then move the columns back onto the template
+    const rendered = renderExtractionTemplate(sql, options);
+    const { columns } = extractColumnReferences(rendered.sql, { ...options, template: undefined });
+    return {
+      columns: columns.map(column => {
+        const start = rendered.toTemplateOffset(column.start);
+        const end = rendered.toTemplateOffset(column.end);
+        return { ...column, rawText: sql.slice(start, end), start, end, ...toPosition(start) };
+      })
+    };
+  }
+
+  const knownTables = options.knownTables && TableCatalog.from(options.knownTables, { dialect: options.dialect, caseInsensitive: options.caseInsensitive });
+  const tableResults = SqlTableExtractor.extractTableNamesByStatement(sql, { ...options, knownTables });
+  const columns: ColumnReference[] = [];
+
+  splitTokenizedStatements(sql, { lexer: getDialectLexerOptions(options.dialect) }).forEach((statement, index) => {
+    const { references, scopes } = tableResults[index];
+    const tokens = statement.tokens.filter(token => token.type !== 'comment');
+
+    for (const found of findColumns(tokens, { references, scopes, knownTables })) {
+      columns.push({
+        ...found,
+        rawText: sql.slice(found.start, found.end),
+        statementIndex: statement.index,
+        ...toPosition(found.start)
+      });
+    }
+  });
+
+  return { columns };
+}
+
+/**
+ * Walk a statement's tokens, tracking clauses per parenthesized group, and
+ * collect the column references
+ */
+function findColumns(tokens: Token[], tables: StatementTables): ColumnMatch[] {
+  const found: ColumnMatch[] = [];
+  const frames: ColumnFrame[] = [{ isQuery: true, selectAliases: new Set() }];
+  let i = 0;
+
+  while (i < tokens.length) {
+    const token = tokens[i];
+    const frame = frames[frames.length - 1];
+    const previous = tokens[i - 1];
+    const next = tokens[i + 1];
+
+    if (token.text === '(') {
+      const insertTarget = findInsertTarget(tokens, i, tables.references);
+      if (insertTarget) {
+        frames.push({ isQuery: false, clause: 'insert', target: insertTarget, selectAliases: new Set() });
+      } else {
+        frames.push({ isQuery: false, clause: frame.clause, target: frame.target, selectAliases: frame.selectAliases });
+      }
+      i++;
+      continue;
+    }
+
+    if (token.text === ')') {
+      if (frames.length > 1) {
+        frames.pop();
+      }
+      i++;
+      continue;
+    }
+
+    if (token.type === 'keyword') {
+      if (QUERY_START_WORDS.has(token.value) && !frame.isQuery &&
+          !(token.value === 'VALUES' && next?.text === '(' && frame.clause === 'set')) {
+        frame.isQuery = true;
+        frame.target = undefined;
+        frame.selectAliases = new Set();
+      }
+      if (frame.isQuery) {
+        switchClause(frame, tokens, i, tables);
+      }
+      i++;
+      continue;
+    }
+
+    // SELECT *, SELECT DISTINCT *, SELECT a, *
+    if (token.text === '*' && frame.clause === 'select' && previous &&
+        (previous.text === ',' || (previous.type === 'keyword' && ['SELECT', 'DISTINCT', 'ALL'].includes(previous.value)))) {
+      found.push(resolveColumn('*', [], token.start, token.end, false, frame, tables));
+      i++;
+      continue;
+    }
+
+    if ((token.type !== 'identifier' && token.type !== 'quotedIdentifier') || frame.clause === undefined) {
+      i++;
+      continue;
+    }
+
+    // Read a chain of dotted names: column, alias.column, schema.table.column, alias.*
+    const parts = [token.value];
+    let j = i + 1;
+    while (tokens[j]?.text === '.' && tokens[j + 1] && tokens[j + 1].start === tokens[j].end &&
+           (['identifier', 'quotedIdentifier', 'keyword'].includes(tokens[j + 1].type) || tokens[j + 1].text === '*')) {
+      parts.push(tokens[j + 1].type === 'keyword' ? tokens[j + 1].text : tokens[j + 1].value);
+      j += 2;
+    }
+
+    if (isColumnName(tokens, i, j, parts) && !isOutputName(frame, parts)) {
+      const name = parts[parts.length - 1];
+      const isTarget = frame.clause === 'insert' || (frame.clause === 'set' && isSetTarget(tokens, i));
+      found.push(resolveColumn(name, parts.slice(0, -1), token.start, tokens[j - 1].end, isTarget, frame, tables));
+    } else if (isAlias(tokens, i, parts) && frame.isQuery && frame.clause === 'select') {
+      frame.selectAliases.add(token.value.toLowerCase());
+    }
+
+    i = j;
+  }
+
+  return found;
+}
+
+/**
+ * Update the frame's clause for a keyword seen directly in a query
+ */
+function switchClause(frame: ColumnFrame, tokens: Token[], index: number, tables: StatementTables): void {
+  const token = tokens[index];
+  const previous = tokens[index - 1];
+  const next = tokens[index + 1];
+
+  switch (token.value) {
+    case 'ON': {
+      // ON CONFLICT (...) and ON DUPLICATE KEY name the conflict target, not a join condition
+      const nextWord = next?.text.toUpperCase();
+      if (nextWord === 'CONFLICT' || nextWord === 'DUPLICATE') {
+        frame.clause = undefined;
+      } else if (frame.clause === undefined || frame.clause === 'join') {
+        frame.clause = 'join';
+      }
+      return;
+    }
+    case 'USING':
+      // JOIN ... USING (columns), as opposed to DELETE ... USING tables
+      frame.clause = next?.text === '(' ? 'join' : undefined;
+      return;
+    case 'FROM':
+      // IS [NOT] DISTINCT FROM is a comparison
+      if (previous?.value === 'DISTINCT') {
+        return;
+      }
+      break;
+    case 'UPDATE':
+      // ON DUPLICATE KEY UPDATE a = ...
+      if (previous?.text.toUpperCase() === 'KEY') {
+        frame.clause = 'set';
+        frame.target = findSetTarget(token.start, tables);
+        return;
+      }
+      break;
+    case 'WHEN':
+      // MERGE ... WHEN [NOT] MATCHED starts a new action, unlike CASE WHEN
+      if (next?.value === 'NOT' || next?.text.toUpperCase() === 'MATCHED') {
+        frame.clause = undefined;
+      }
+      return;
+  }
+
+  if (token.value in CLAUSE_KEYWORDS) {
+    frame.clause = CLAUSE_KEYWORDS[token.value];
+    if (token.value === 'SELECT') {
+      frame.selectAliases.clear();
+    }
+    if (token.value === 'SET') {
+      frame.target = findSetTarget(token.start, tables);
+    }
+  }
+}
+
+/**
+ * Whether a dotted name chain (tokens[start..end)) is a column reference
+ * rather than a function, type, alias, typed literal or keyword-like word
+ */
+function isColumnName(tokens: Token[], start: number, end: number, parts: string[]): boolean {
+  const token = tokens[start];
+  const previous = tokens[start - 1];
+  const next = tokens[end];
+
+  if (next?.text === '(' || next?.type === 'string' || next?.text === '=>') {
+    return false;
+  }
+  if (previous && (previous.text === '.' || previous.text === '::' || previous.text === ':')) {
+    return false;
+  }
+  if (token.type === 'identifier' && (token.text.startsWith('@') || token.text.startsWith('#'))) {
+    return false;
+  }
+  if (parts.length === 1 && token.type === 'identifier' && NON_COLUMN_WORDS.has(token.text.toUpperCase())) {
+    return false;
+  }
+
+  return !isAlias(tokens, start, parts);
+}
+
+/**
+ * Whether an unqualified name in ORDER BY, GROUP BY or HAVING refers to an
+ * output column defined in the SELECT list rather than a table column
+ */
+function isOutputName(frame: ColumnFrame, parts: string[]): boolean {
+  return parts.length === 1 &&
+    (frame.clause === 'orderBy' || frame.clause === 'groupBy' || frame.clause === 'having') &&
+    frame.selectAliases.has(parts[0].toLowerCase());
+}
+
+/**
+ * Whether the name at tokens[index] is an alias: it follows AS or directly
+ * follows the end of an expression (SELECT price * 2 total)
+ */
+function isAlias(tokens: Token[], index: number, parts: string[]): boolean {
+  const previous = tokens[index - 1];
+  if (!previous || parts.length > 1) {
+    return false;
+  }
+  if (previous.type === 'keyword') {
+    return previous.value === 'AS' || previous.value === 'END';
+  }
+
+  return previous.type === 'identifier' || previous.type === 'quotedIdentifier' ||
+    previous.type === 'number' || previous.type === 'string' || previous.text === ')';
+}
+
+/**
+ * Attribute a column to a table: through its qualifier when it has one,
+ * otherwise to the only table of the innermost scope that can have it
+ */
+function resolveColumn(
+  name: string,
+  qualifierParts: string[],
+  start: number,
+  end: number,
+  isTarget: boolean,
+  frame: ColumnFrame,
+  tables: StatementTables
+): ColumnMatch {
+  const scope = findScope(start, tables.scopes);
+  const column: ColumnMatch = {
+    name,
+    clause: frame.clause!,
+    access: isTarget ? 'write' : 'read',
+    ambiguous: false,
+    scopeId: scope.id,
+    start,
+    end
+  };
+
+  if (qualifierParts.length > 0) {
+    const qualifier = qualifierParts.join('.');
+    column.qualifier = qualifier;
+    const source = findQualifiedSource(qualifier, scope, tables);
+    if (source) {
+      column.table = source.table;
+      column.tableKind = source.kind;
+      const expanded = name === '*' ? expandWildcard([source], tables.knownTables) : undefined;
+      if (expanded) {
+        column.expandedColumns = expanded;
+      }
+    }
+    return column;
+  }
+
+  // Unqualified written columns belong to the statement's target table
+  if (isTarget && frame.target) {
+    column.table = frame.target.resolvedName;
+    column.tableKind = frame.target.isCTE ? 'cte' : 'table';
+    return column;
+  }
+
+  const sources = findScopeSources(scope, tables);
+  if (name === '*') {
+    if (sources.length === 1) {
+      column.table = sources[0].table;
+      column.tableKind = sources[0].kind;
+    }
+    const expanded = expandWildcard(sources, tables.knownTables);
+    if (expanded) {
+      column.expandedColumns = expanded;
+    }
+    return column;
+  }
+
+  // Tables known to lack the column cannot own it
+  const candidates = sources.length > 1
+    ? sources.filter(source => hasColumn(source, name, tables.knownTables) !== false)
+    : sources;
+  if (candidates.length === 1) {
+    column.table = candidates[0].table;
+    column.tableKind = candidates[0].kind;
+  } else if (candidates.length > 1) {
+    column.ambiguous = true;
+    column.candidates = candidates.map(source => source.table);
+  }
+
+  return column;
+}
+
+/**
+ * Whether the name at tokens[index] is the target of a SET assignment
+ */
+function isSetTarget(tokens: Token[], index: number): boolean {
+  const previous = tokens[index - 1];
+  let j = index + 1;
+  while (tokens[j]?.text === '.' && tokens[j + 1]) {
+    j += 2;
+  }
+
+  const startsAssignment = previous?.text === ',' || (previous?.type === 'keyword' && (previous.value === 'SET' || previous.value === 'UPDATE'));
+  return startsAssignment && tokens[j]?.text === '=';
+}
+
+/**
+ * Find the innermost query scope containing an offset
+ */
+function findScope(offset: number, scopes: QueryScope[]): QueryScope {
+  let innermost = scopes[0];
+  for (const scope of scopes) {
+    if (scope.start <= offset && offset <= scope.end && scope.start >= innermost.start) {
+      innermost = scope;
+    }
+  }
+  return innermost;
+}
+
+/**
+ * List a scope and its enclosing scopes, innermost first
+ */
+function withEnclosingScopes(scope: QueryScope, scopes: QueryScope[]): QueryScope[] {
+  const chain = [scope];
+  for (let current = scope; current.parentId !== undefined; current = scopes[current.parentId]) {
+    chain.push(scopes[current.parentId]);
+  }
+  return chain;
+}
+
+/**
+ * Look a qualifier up as an alias or table name, from the given scope outwards
+ */
+function findQualifiedSource(qualifier: string, scope: QueryScope, tables: StatementTables): SourceTable | undefined {
+  const lower = qualifier.toLowerCase();
+
+  for (const current of withEnclosingScopes(scope, tables.scopes)) {
+    const alias = Object.keys(current.aliases).find(key => key.toLowerCase() === lower);
+    if (alias !== undefined) {
+      const target = current.aliases[alias];
+      // Function rows are told apart by their alias, as calls of one function may differ
+      return { table: target.kind === 'function' ? alias : target.name ?? alias, kind: target.kind };
+    }
+
+    const reference = tables.references.find(ref =>
+      ref.scopeId === current.id && ref.alias === undefined && matchesQualifier(ref, lower)
+    );
+    if (reference) {
+      return { table: reference.resolvedName, kind: reference.isCTE ? 'cte' : 'table' };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Whether a table reference is named by a qualifier: its full name, or its
+ * trailing parts (users for public.users)
+ */
+function matchesQualifier(reference: TableReference, qualifier: string): boolean {
+  return [reference.name, reference.resolvedName].some(name => {
+    const lower = name.toLowerCase();
+    return lower === qualifier || lower.endsWith(`.${qualifier}`);
+  });
+}
+
+/**
+ * Tables that can supply unqualified columns in a scope: its own tables,
+ * derived tables and aliased table functions, or, when it has none, those of
+ * the nearest enclosing scope
+ */
+function findScopeSources(scope: QueryScope, tables: StatementTables): SourceTable[] {
+  for (const current of withEnclosingScopes(scope, tables.scopes)) {
+    const sources = new Map<string, SourceTable>();
+
+    for (const reference of tables.references) {
+      if (reference.scopeId === current.id && SOURCE_ACCESS.has(reference.access)) {
+        sources.set(reference.resolvedName, { table: reference.resolvedName, kind: reference.isCTE ? 'cte' : 'table' });
+      }
+    }
+    for (const [alias, target] of Object.entries(current.aliases)) {
+      if (target.kind === 'derived' || target.kind === 'function') {
+        sources.set(alias, { table: alias, kind: target.kind });
+      }
+    }
+
+    if (sources.size > 0) {
+      return Array.from(sources.values());
+    }
+  }
+
+  return [];
+}
+
+/**
+ * Whether a source table has a column: true or false when its columns are
+ * known, undefined otherwise (CTEs, derived tables, tables without column metadata)
+ */
+function hasColumn(source: SourceTable, name: string, knownTables?: TableCatalog): boolean | undefined {
+  const columns = source.kind === 'table' ? SqlTableExtractor.findTableMetadata(source.table, knownTables)?.columns : undefined;
+  if (!columns) {
+    return undefined;
+  }
+
+  const lower = name.toLowerCase();
+  return columns.some(column => column.name.toLowerCase() === lower);
+}
+
+/**
+ * List the concrete columns a wildcard selects, if all the tables it covers
+ * have known columns
+ */
+function expandWildcard(sources: SourceTable[], knownTables?: TableCatalog): ExpandedColumn[] | undefined {
+  const expanded: ExpandedColumn[] = [];
+
+  for (const source of sources) {
+    const columns = source.kind === 'table' ? SqlTableExtractor.findTableMetadata(source.table, knownTables)?.columns : undefined;
+    if (!columns) {
+      return undefined;
+    }
+    expanded.push(...columns.map(column => ({ table: source.table, ...column })));
+  }
+
+  return expanded.length > 0 ? expanded : undefined;
+}
+
+/**
+ * The table whose columns an UPDATE/MERGE/ON CONFLICT SET clause assigns
+ */
+function findSetTarget(offset: number, tables: StatementTables): TableReference | undefined {
+  const scope = findScope(offset, tables.scopes);
+  return tables.references.find(reference => reference.scopeId === scope.id && SET_TARGET_ACCESS.has(reference.access));
+}
+
+/**
+ * If the parenthesis at tokens[index] opens an INSERT column list, return the
+ * table receiving the columns: INSERT INTO t [AS x] (a, b), or MERGE's INSERT (a, b)
+ */
+function findInsertTarget(tokens: Token[], index: number, references: TableReference[]): TableReference | undefined {
+  const inner = tokens[index + 1];
+  if (!inner || (inner.type === 'keyword' && QUERY_START_WORDS.has(inner.value))) {
+    return undefined;
+  }
+
+  const previous = tokens[index - 1];
+  if (previous?.type === 'keyword' && previous.value === 'INSERT') {
+    return references.find(reference => reference.access === 'merge' && reference.end < previous.start);
+  }
+
+  // Skip the target's alias
+  const nameEnd = tokens[index - 2]?.value === 'AS' ? tokens[index - 3]?.end : previous?.end;
+  return references.find(reference => reference.access === 'insert' && reference.end === nameEnd);
+}
@@ -0,0 +1,166 @@
+import { isRecord, stringOf } from './json.js';
+import type { TableColumn, TableMetadata } from './parser.js';
+import type { TemplateOptions } from './templating.js';
+
+/** dbt resources that are tables or views in the warehouse */
+export type DbtResourceType = 'model' | 'source' | 'seed' | 'snapshot';
+
+/** Where a known table comes from in a dbt project */
+export interface DbtNodeInfo {
+  /** Unique id of the node, e.g. model.shop.orders or source.shop.raw.events */
+  uniqueId: string;
+  resourceType: DbtResourceType;
+  /** Package the node belongs to */
+  packageName?: string;
+}
+
+/** Sections of a manifest holding table-like nodes */
+const MANIFEST_SECTIONS = ['nodes', 'sources'] as const;
+
+const DBT_RESOURCE_TYPES = new Set<string>(['model', 'source', 'seed', 'snapshot']);
+
+/** Materializations that never create a relation */
+const NON_RELATION_MATERIALIZATIONS = new Set(['ephemeral']);
+
+/** A manifest node that is a relation in the warehouse */
+interface DbtRelation {
+  uniqueId: string;
+  resourceType: DbtResourceType;
+  /** Manifest section the node is in, also used to find it in the catalog */
+  section: typeof MANIFEST_SECTIONS[number];
+  node: Record<string, unknown>;
+  tableName: string;
+  schema?: string;
+  database?: string;
+  fullyQualifiedName: string;
+}
+
+/**
+ * Build known tables from a parsed dbt `manifest.json`: one entry per model,
+ * source, seed and snapshot, named by its database, schema and alias (or
+ * identifier, for sources), keyed by fully qualified name and carrying its
+ * unique id in `dbt`. Ephemeral models and tests are left out. Columns come
+ * from the parsed `catalog.json` when given, as it has the warehouse's types,
+ * or else from the columns documented in the manifest.
+ */
+export function loadDbtManifest(manifest: unknown, catalog?: unknown): Map<string, TableMetadata> {
+  if (catalog !== undefined && !isRecord(catalog)) {
+    throw new Error('Not a dbt catalog: expected an object');
+  }
+
+  const knownTables = new Map<string, TableMetadata>();
+  for (const { uniqueId, resourceType, section, node, tableName, schema, database, fullyQualifiedName } of readRelations(manifest)) {
+    const catalogNodes = isRecord(catalog) ? catalog[section] : undefined;
+    const catalogNode = isRecord(catalogNodes) ? catalogNodes[uniqueId] : undefined;
+    const columns = readCatalogColumns(catalogNode) ?? readManifestColumns(node.columns);
+    const packageName = stringOf(node.package_name);
+
+    knownTables.set(fullyQualifiedName, {
+      tableName,
+      fullyQualifiedName,
+      ...(schema !== undefined && { schema }),
+      ...(database !== undefined && { database }),
+      ...(columns !== undefined && { columns }),
+      dbt: { uniqueId, resourceType, ...(packageName !== undefined && { packageName }) }
+    });
+  }
+  return knownTables;
+}
+
+/**
+ * Map the `ref()` and `source()` calls of a dbt project to the tables they
+ * build, for rendering its models with `renderTemplate`: models, seeds and
+ * snapshots by name and by 'package.name', sources by 'source.table'
+ */
+export function loadDbtTemplateOptions(manifest: unknown): Required<Pick<TemplateOptions, 'refs' | 'sources'>> {
+  const refs: Record<string, string> = {};
+  const sources: Record<string, string> = {};
+
+  for (const { resourceType, node, fullyQualifiedName } of readRelations(manifest)) {
+    const name = stringOf(node.name);
+    if (name === undefined) {
+      continue;
+    }
+    if (resourceType === 'source') {
+      const sourceName = stringOf(node.source_name);
+      if (sourceName !== undefined) {
+        sources[`${sourceName}.${name}`] = fullyQualifiedName;
+      }
+      continue;
+    }
+    refs[name] = fullyQualifiedName;
+    const packageName = stringOf(node.package_name);
+    if (packageName !== undefined) {
+      refs[`${packageName}.${name}`] = fullyQualifiedName;
+    }
+  }
+  return { refs, sources };
+}
+
+/**
+ * The nodes of a manifest that are relations in the warehouse
+ */
+function* readRelations(manifest: unknown): Generator<DbtRelation> {
+  if (!isRecord(manifest) || !MANIFEST_SECTIONS.some(section => isRecord(manifest[section]))) {
+    throw new Error('Not a dbt manifest: expected "nodes" or "sources" objects');
+  }
+
+  for (const section of MANIFEST_SECTIONS) {
+    const nodes = manifest[section];
+    if (!isRecord(nodes)) {
+      continue;
+    }
+
+    for (const [uniqueId, node] of Object.entries(nodes)) {
+      if (!isRecord(node) || typeof node.resource_type !== 'string' || !DBT_RESOURCE_TYPES.has(node.resource_type)) {
+        continue;
+      }
+      const config = isRecord(node.config) ? node.config : {};
+      if (typeof config.materialized === 'string' && NON_RELATION_MATERIALIZATIONS.has(config.materialized)) {
+        continue;
+      }
+
+      const resourceType = node.resource_type as DbtResourceType;
+      const tableName = stringOf(resourceType === 'source' ? node.identifier : node.alias) ?? stringOf(node.name);
+      if (tableName === undefined) {
+        continue;
+      }
+      const schema = stringOf(node.schema);
+      const database = stringOf(node.database);
+      const fullyQualifiedName = [database, schema, tableName].filter(part => part !== undefined).join('.');
+      yield { uniqueId, resourceType, section, node, tableName, schema, database, fullyQualifiedName };
+    }
+  }
+}
+
+/**
+ * The columns of a catalog.json node, in warehouse order
+ */
+function readCatalogColumns(node: unknown): TableColumn[] | undefined {
+  if (!isRecord(node) || !isRecord(node.columns)) {
+    return undefined;
+  }
+
+  return Object.values(node.columns)
+    .filter(isRecord)
+    .sort((a, b) => (typeof a.index === 'number' ? a.index : 0) - (typeof b.index === 'number' ? b.index : 0))
+    .flatMap(column => typeof column.name === 'string'
+      ? [{ name: column.name, ...(typeof column.type === 'string' && { type: column.type }) }]
+      : []);
+}
+
+/**
+ * The columns documented on a manifest node, if any
+ */
+function readManifestColumns(columns: unknown): TableColumn[] | undefined {
+  if (!isRecord(columns)) {
+    return undefined;
+  }
+
+  const documented = Object.values(columns)
+    .filter(isRecord)
+    .flatMap(column => typeof column.name === 'string'
+      ? [{ name: column.name, ...(typeof column.data_type === 'string' && { type: column.data_type }) }]
+      : []);
+  return documented.length > 0 ? documented : undefined;
+}
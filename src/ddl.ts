@@ -0,0 +1,641 @@
+import { CaseFolding, getDialect, getDialectLexerOptions, SqlDialect, SqlDialectName } from './dialects.js';
+import { Token } from './lexer.js';
+import type { TableColumn, TableMetadata } from './parser.js';
+import { splitTokenizedStatements } from './statements.js';
+
+export interface DdlCatalogOptions {
+  /** Dialect whose lexer and identifier case rules apply */
+  dialect?: SqlDialectName | SqlDialect;
+  /** Database of tables created without one */
+  currentDatabase?: string;
+  /** Schema of tables created without one, e.g. public or dbo */
+  defaultSchema?: string;
+}
+
+/** A name as written in a statement, its unquoted parts folded by the dialect's rule */
+interface DdlName {
+  parts: string[];
+  next: number;
+}
+
+/** Words that may sit between CREATE and TABLE or VIEW */
+const CREATE_MODIFIERS = new Set([
+  'TEMP', 'TEMPORARY', 'GLOBAL', 'LOCAL', 'UNLOGGED', 'EXTERNAL', 'TRANSIENT', 'VOLATILE',
+  'MULTISET', 'MATERIALIZED', 'SECURE', 'RECURSIVE', 'FORCE', 'NOFORCE', 'EDITIONABLE', 'VIRTUAL'
+]);
+
+/** Words starting a table constraint rather than a column in a column list */
+const TABLE_CONSTRAINT_WORDS = new Set([
+  'CONSTRAINT', 'PRIMARY', 'FOREIGN', 'UNIQUE', 'CHECK', 'INDEX', 'KEY', 'FULLTEXT', 'SPATIAL',
+  'EXCLUDE', 'PERIOD', 'LIKE', 'PROJECTION'
+]);
+
+/** Words ending the data type of a column definition */
+const COLUMN_CONSTRAINT_WORDS = new Set([
+  'NOT', 'NULL', 'DEFAULT', 'PRIMARY', 'REFERENCES', 'UNIQUE', 'CHECK', 'CONSTRAINT', 'COLLATE',
+  'GENERATED', 'AUTO_INCREMENT', 'AUTOINCREMENT', 'IDENTITY', 'COMMENT', 'ENCODE', 'AS', 'ON',
+  'CHARACTER', 'CHARSET', 'MASKING', 'TAG', 'OPTIONS', 'CODEC', 'TTL', 'MATERIALIZED',
+  'ALIAS', 'STORED', 'VIRTUAL', 'INVISIBLE', 'VISIBLE', 'FIRST', 'AFTER'
+]);
+
+/** Words between SELECT ... INTO and the name of the table it creates */
+const SELECT_INTO_MODIFIERS = new Set(['TEMPORARY', 'TEMP', 'UNLOGGED', 'TABLE']);
+
+/**
+ * Build the known tables a DDL script (or a series of migration scripts)
+ * leaves behind: CREATE TABLE and CREATE VIEW add tables, ALTER TABLE ...
+ * RENAME and RENAME TABLE rename them, DROP TABLE and DROP VIEW remove them,
+ * all in order. Columns come from column definitions, ALTER TABLE ADD, DROP,
+ * RENAME and ALTER/MODIFY COLUMN, view column lists, the output names of the
+ * query of a view, CREATE TABLE ... AS or SELECT ... INTO, and the table
+ * copied by LIKE or CLONE. Entries are keyed by fully qualified name; tables
+ * created without a schema or database get `defaultSchema` and
+ * `currentDatabase`.
+ */
+export function catalogFromDdl(sql: string | string[], options: DdlCatalogOptions = {}): Map<string, TableMetadata> {
+  const dialect = options.dialect ? getDialect(options.dialect) : undefined;
+  const schema = new DdlSchema(options, dialect?.caseFolding ?? 'none', dialect?.caseInsensitive ?? false);
+
+  for (const script of typeof sql === 'string' ? [sql] : sql) {
+    for (const statement of splitTokenizedStatements(script, { lexer: getDialectLexerOptions(dialect) })) {
+      applyStatement(statement.tokens.filter(token => token.type !== 'comment'), script, schema);
+    }
+  }
+  return schema.tables;
+}
+
+/**
+ * The tables defined so far, keyed by fully qualified name
+ */
+class DdlSchema {
+  readonly tables = new Map<string, TableMetadata>();
+
+  constructor(
+    private readonly options: DdlCatalogOptions,
+    readonly caseFolding: CaseFolding,
+    private readonly caseInsensitive: boolean
+  ) {}
+
+  /**
+   * The table a name refers to: the one it qualifies to, or else the only
+   * table whose trailing name parts match
+   */
+  find(parts: string[]): TableMetadata | undefined {
+    const exact = this.tables.get(this.toMetadata(parts).fullyQualifiedName);
+    if (exact) {
+      return exact;
+    }
+
+    const matches = Array.from(this.tables.values()).filter(table => {
+      const tableParts = [table.database, table.schema, table.tableName];
+      return parts.every((part, index) => {
+        const tablePart = tableParts[tableParts.length - parts.length + index];
+        return tablePart !== undefined && this.same(tablePart, part);
+      });
+    });
+    return matches.length === 1 ? matches[0] : undefined;
+  }
+
+  create(parts: string[], columns: TableColumn[] | undefined, ifNotExists: boolean): void {
+    const metadata = { ...this.toMetadata(parts), ...(columns !== undefined && { columns }) };
+    if (ifNotExists && this.tables.has(metadata.fullyQualifiedName)) {
+      return;
+    }
+    this.tables.set(metadata.fullyQualifiedName, metadata);
+  }
+
+  drop(parts: string[]): void {
+    const table = this.find(parts);
+    if (table) {
+      this.tables.delete(table.fullyQualifiedName);
+    }
+  }
+
+  /**
+   * Rename a table; a new name without a schema or database keeps the old ones
+   */
+  rename(parts: string[], newParts: string[]): TableMetadata | undefined {
+    const table = this.find(parts);
+    if (!table) {
+      return undefined;
+    }
+    const renamed = newParts.length === 1
+      ? { ...table, tableName: newParts[0], fullyQualifiedName: [table.database, table.schema, newParts[0]].filter(part => part !== undefined).join('.') }
+      : { ...this.toMetadata(newParts), ...(table.columns !== undefined && { columns: table.columns }) };
+    this.tables.delete(table.fullyQualifiedName);
+    this.tables.set(renamed.fullyQualifiedName, renamed);
+    return renamed;
+  }
+
+  /**
+   * Change the columns of a table; tables without known columns are left alone
+   */
+  updateColumns(table: TableMetadata, update: (columns: TableColumn[]) => TableColumn[]): TableMetadata {
+    if (!table.columns) {
+      return table;
+    }
+    const updated = { ...table, columns: update(table.columns) };
+    this.tables.set(table.fullyQualifiedName, updated);
+    return updated;
+  }
+
+  same(a: string, b: string): boolean {
+    return this.caseInsensitive ? a.toLowerCase() === b.toLowerCase() : a === b;
+  }
+
+  fold(identifier: string): string {
+    switch (this.caseFolding) {
+      case 'lower':
+        return identifier.toLowerCase();
+      case 'upper':
+        return identifier.toUpperCase();
+      default:
+        return identifier;
+    }
+  }
+
+  private toMetadata(parts: string[]): TableMetadata {
+    const tableName = parts[parts.length - 1];
+    const schema = parts.length >= 2 ? parts[parts.length - 2] : this.options.defaultSchema;
+    const database = parts.length >= 3 ? parts[parts.length - 3] : this.options.currentDatabase;
+    return {
+      tableName,
+      fullyQualifiedName: [database, schema, tableName].filter(part => part !== undefined).join('.'),
+      ...(schema !== undefined && { schema }),
+      ...(database !== undefined && { database })
+    };
+  }
+}
+
+/**
+ * Apply one statement to the schema; statements other than table and view DDL are ignored
+ */
+function applyStatement(tokens: Token[], sql: string, schema: DdlSchema): void {
+  switch (wordAt(tokens, 0)) {
+    case 'CREATE':
+      applyCreate(tokens, sql, schema);
+      break;
+    case 'ALTER':
+      applyAlter(tokens, sql, schema);
+      break;
+    case 'DROP': {
+      let i = 1;
+      if (wordAt(tokens, i) === 'MATERIALIZED') {
+        i++;
+      }
+      if (wordAt(tokens, i) !== 'TABLE' && wordAt(tokens, i) !== 'VIEW') {
+        break;
+      }
+      i = skipWords(tokens, i + 1, ['IF', 'EXISTS']);
+      // DROP TABLE a, b
+      for (const name of readNameList(tokens, i, schema)) {
+        schema.drop(name.parts);
+      }
+      break;
+    }
+    case 'RENAME': {
+      // MySQL: RENAME TABLE a TO b, c TO d
+      if (wordAt(tokens, 1) !== 'TABLE') {
+        break;
+      }
+      let i = 2;
+      while (i < tokens.length) {
+        const from = readName(tokens, i, schema);
+        const to = from && wordAt(tokens, from.next) === 'TO' ? readName(tokens, from.next + 1, schema) : undefined;
+        if (!from || !to) {
+          break;
+        }
+        schema.rename(from.parts, to.parts);
+        i = tokens[to.next]?.text === ',' ? to.next + 1 : tokens.length;
+      }
+      break;
+    }
+    case 'SELECT': {
+      // SQL Server and PostgreSQL: SELECT ... INTO [TEMP] [TABLE] name FROM ...
+      const into = findWord(tokens, 1, 'INTO');
+      const from = findWord(tokens, 1, 'FROM');
+      if (into === undefined || (from !== undefined && from < into)) {
+        break;
+      }
+      let i = into + 1;
+      while (SELECT_INTO_MODIFIERS.has(wordAt(tokens, i) ?? '')) {
+        i++;
+      }
+      // MySQL's SELECT ... INTO @variable or OUTFILE creates no table
+      const name = tokens[i]?.text.startsWith('@') ? undefined : readName(tokens, i, schema);
+      if (name && wordAt(tokens, i) !== 'OUTFILE' && wordAt(tokens, i) !== 'DUMPFILE') {
+        schema.create(name.parts, readOutputColumns(tokens, 0, schema), false);
+      }
+      break;
+    }
+  }
+}
+
+/**
+ * CREATE [OR REPLACE] [modifiers] TABLE|VIEW [IF NOT EXISTS] name ...
+ */
+function applyCreate(tokens: Token[], sql: string, schema: DdlSchema): void {
+  let i = 1;
+  if (wordAt(tokens, i) === 'OR') {
+    // OR REPLACE, or SQL Server's OR ALTER
+    i += 2;
+  }
+  while (CREATE_MODIFIERS.has(wordAt(tokens, i) ?? '')) {
+    i++;
+  }
+  const kind = wordAt(tokens, i);
+  if (kind !== 'TABLE' && kind !== 'VIEW') {
+    return;
+  }
+  const ifNotExists = wordAt(tokens, i + 1) === 'IF';
+  const name = readName(tokens, ifNotExists ? i + 4 : i + 1, schema);
+  if (!name) {
+    return;
+  }
+
+  let j = name.next;
+  let columns: TableColumn[] | undefined;
+  if (tokens[j]?.text === '(' && !isQueryStart(tokens, j + 1)) {
+    const close = findClosing(tokens, j);
+    const elements = splitTopLevel(tokens.slice(j + 1, close));
+    if (kind === 'VIEW' || wordAt(tokens, close + 1) === 'AS') {
+      // Column names of a view, or of CREATE TABLE t (a, b) AS SELECT ...
+      columns = elements.map(element => ({ name: identifierOf(element[0], schema) }));
+    } else if (elements.length === 1 && wordAt(elements[0], 0) === 'LIKE') {
+      // PostgreSQL: CREATE TABLE t (LIKE other)
+      columns = copyColumns(elements[0], 1, schema);
+    } else {
+      columns = elements.map(element => readColumnDefinition(element, sql, schema)).filter((column): column is TableColumn => !!column);
+    }
+    j = close + 1;
+  } else if (wordAt(tokens, j) === 'LIKE' || wordAt(tokens, j) === 'CLONE') {
+    // MySQL: CREATE TABLE t LIKE other; Snowflake: CREATE TABLE t CLONE other
+    columns = copyColumns(tokens, j + 1, schema);
+  }
+
+  if (columns === undefined) {
+    // The output names of the query of a view or CREATE TABLE ... AS
+    const as = findWord(tokens, j, 'AS');
+    if (as !== undefined) {
+      columns = readOutputColumns(tokens, as + 1, schema);
+    }
+  }
+  schema.create(name.parts, columns, ifNotExists);
+}
+
+/**
+ * ALTER TABLE|VIEW [IF EXISTS] [ONLY] name action [, action ...]
+ */
+function applyAlter(tokens: Token[], sql: string, schema: DdlSchema): void {
+  let i = 1;
+  if (wordAt(tokens, i) === 'MATERIALIZED') {
+    i++;
+  }
+  if (wordAt(tokens, i) !== 'TABLE' && wordAt(tokens, i) !== 'VIEW') {
+    return;
+  }
+  i = skipWords(tokens, skipWords(tokens, i + 1, ['IF', 'EXISTS']), ['ONLY']);
+  const name = readName(tokens, i, schema);
+  if (!name) {
+    return;
+  }
+
+  let parts = name.parts;
+  for (const action of splitTopLevel(tokens.slice(name.next))) {
+    const table = schema.find(parts);
+    const verb = wordAt(action, 0);
+    if (!table) {
+      return;
+    }
+
+    if (verb === 'RENAME') {
+      const target = wordAt(action, 1);
+      if (target === 'TO' || target === 'AS' || (target !== 'COLUMN' && wordAt(action, 2) !== 'TO' && action.length === 2)) {
+        // RENAME TO new, or MySQL's RENAME new
+        const newName = readName(action, target === 'TO' || target === 'AS' ? 2 : 1, schema);
+        const renamed = newName && schema.rename(parts, newName.parts);
+        if (renamed) {
+          parts = [renamed.database, renamed.schema, renamed.tableName].filter((part): part is string => part !== undefined);
+        }
+        continue;
+      }
+      // RENAME [COLUMN] a TO b
+      const from = target === 'COLUMN' ? 2 : 1;
+      if (wordAt(action, from + 1) === 'TO' && action[from] && action[from + 2]) {
+        const oldName = identifierOf(action[from], schema);
+        const newName = identifierOf(action[from + 2], schema);
+        schema.updateColumns(table, columns => columns.map(column => schema.same(column.name, oldName) ? { ...column, name: newName } : column));
+      }
+      continue;
+    }
+
+    if (verb === 'ADD') {
+      let j = skipWords(action, 1, ['COLUMN']);
+      j = skipWords(action, j, ['IF', 'NOT', 'EXISTS']);
+      // MySQL and Oracle: ADD (a int, b int)
+      const definitions = action[j]?.text === '(' ? splitTopLevel(action.slice(j + 1, findClosing(action, j))) : [action.slice(j)];
+      const added = definitions.map(definition => readColumnDefinition(definition, sql, schema)).filter((column): column is TableColumn => !!column);
+      schema.updateColumns(table, columns => [...columns.filter(column => !added.some(add => schema.same(add.name, column.name))), ...added]);
+      continue;
+    }
+
+    if (verb === 'DROP') {
+      const j = skipWords(action, 1, ['COLUMN']);
+      const first = wordAt(action, j);
+      if (first !== undefined && TABLE_CONSTRAINT_WORDS.has(first) || first === 'DEFAULT' || first === 'PARTITION') {
+        continue;
+      }
+      const k = skipWords(action, j, ['IF', 'EXISTS']);
+      if (action[k]) {
+        const dropped = identifierOf(action[k], schema);
+        schema.updateColumns(table, columns => columns.filter(column => !schema.same(column.name, dropped)));
+      }
+      continue;
+    }
+
+    if (verb === 'ALTER' || verb === 'MODIFY' || verb === 'CHANGE') {
+      applyColumnChange(action, sql, schema, table);
+    }
+  }
+}
+
+/**
+ * ALTER [COLUMN] c TYPE t | SET DATA TYPE t | SET NOT NULL | DROP NOT NULL,
+ * SQL Server's ALTER COLUMN c definition, MODIFY [COLUMN] definition and
+ * MySQL's CHANGE [COLUMN] old definition
+ */
+function applyColumnChange(action: Token[], sql: string, schema: DdlSchema, table: TableMetadata): void {
+  const verb = wordAt(action, 0);
+  let j = skipWords(action, 1, ['COLUMN']);
+  if (verb === 'MODIFY' && action[j]?.text === '(') {
+    // Oracle: MODIFY (a NUMBER, b DATE)
+    for (const definition of splitTopLevel(action.slice(j + 1, findClosing(action, j)))) {
+      table = replaceColumn(schema, table, readColumnDefinition(definition, sql, schema));
+    }
+    return;
+  }
+  if (!action[j]) {
+    return;
+  }
+
+  const name = identifierOf(action[j], schema);
+  if (verb === 'CHANGE') {
+    const changed = readColumnDefinition(action.slice(j + 1), sql, schema);
+    if (changed) {
+      schema.updateColumns(table, columns => columns.map(column => schema.same(column.name, name) ? changed : column));
+    }
+    return;
+  }
+
+  const next = wordAt(action, j + 1);
+  if (verb === 'ALTER' && (next === 'TYPE' || next === 'SET' || next === 'DROP')) {
+    const words = action.slice(j + 1).map(token => token.text.toUpperCase()).join(' ');
+    const typeStart = next === 'TYPE' ? j + 2 : words.startsWith('SET DATA TYPE') ? j + 4 : undefined;
+    schema.updateColumns(table, columns => columns.map(column => {
+      if (!schema.same(column.name, name)) {
+        return column;
+      }
+      if (typeStart !== undefined) {
+        const type = readType(action, typeStart, sql);
+        return { ...column, ...(type !== undefined && { type }) };
+      }
+      if (words.startsWith('SET NOT NULL')) {
+        return { ...column, nullable: false };
+      }
+      if (words.startsWith('DROP NOT NULL')) {
+        return { ...column, nullable: true };
+      }
+      return column;
+    }));
+    return;
+  }
+  replaceColumn(schema, table, readColumnDefinition(action.slice(j), sql, schema));
+}
+
+function replaceColumn(schema: DdlSchema, table: TableMetadata, changed: TableColumn | undefined): TableMetadata {
+  return changed
+    ? schema.updateColumns(table, columns => columns.map(column => schema.same(column.name, changed.name) ? changed : column))
+    : table;
+}
+
+/**
+ * Read one element of a column list: name, data type and NULL constraints.
+ * Table constraints are not columns.
+ */
+function readColumnDefinition(tokens: Token[], sql: string, schema: DdlSchema): TableColumn | undefined {
+  const first = tokens[0];
+  if (!first || TABLE_CONSTRAINT_WORDS.has(wordAt(tokens, 0) ?? '') && first.type !== 'quotedIdentifier') {
+    return undefined;
+  }
+  if (first.type !== 'identifier' && first.type !== 'quotedIdentifier' && first.type !== 'keyword') {
+    return undefined;
+  }
+
+  const type = readType(tokens, 1, sql);
+  let nullable: boolean | undefined;
+  let depth = 0;
+  tokens.forEach((token, index) => {
+    if (token.text === '(') {
+      depth++;
+    } else if (token.text === ')') {
+      depth--;
+    } else if (depth === 0 && index > 0) {
+      const word = wordAt(tokens, index);
+      if (word === 'NULL') {
+        nullable = wordAt(tokens, index - 1) !== 'NOT';
+      } else if (word === 'PRIMARY') {
+        nullable ??= false;
+      }
+    }
+  });
+
+  return {
+    name: identifierOf(first, schema),
+    ...(type !== undefined && { type }),
+    ...(nullable !== undefined && { nullable })
+  };
+}
+
+/**
+ * The data type starting at a token, as written, up to its first constraint
+ */
+function readType(tokens: Token[], start: number, sql: string): string | undefined {
+  let end = start;
+  let depth = 0;
+  while (end < tokens.length) {
+    const token = tokens[end];
+    if (token.text === '(') {
+      depth++;
+    } else if (token.text === ')') {
+      depth--;
+    } else if (depth === 0 && (COLUMN_CONSTRAINT_WORDS.has(wordAt(tokens, end) ?? '') || token.text === ',')) {
+      break;
+    }
+    end++;
+  }
+  return end > start ? sql.slice(tokens[start].start, tokens[end - 1].end) : undefined;
+}
+
+/**
+ * The columns of the table named at a token, for LIKE and CLONE
+ */
+function copyColumns(tokens: Token[], index: number, schema: DdlSchema): TableColumn[] | undefined {
+  const source = readName(tokens, index, schema);
+  return source && schema.find(source.parts)?.columns?.map(column => ({ ...column }));
+}
+
+/**
+ * The output column names of the query starting at a token, when every
+ * select-list item has one: a column, or an expression with an alias. One
+ * unnamed item, such as `*` or `lower(x)` without an alias, leaves the whole
+ * list unknown rather than a partial list passing for the table's columns.
+ */
+function readOutputColumns(tokens: Token[], index: number, schema: DdlSchema): TableColumn[] | undefined {
+  // The first SELECT outside parentheses, past any WITH clause
+  let depth = 0;
+  let select: number | undefined;
+  for (let i = index; i < tokens.length; i++) {
+    if (tokens[i].text === '(') {
+      depth++;
+    } else if (tokens[i].text === ')') {
+      depth--;
+    } else if (depth <= 0 && wordAt(tokens, i) === 'SELECT') {
+      select = i;
+      break;
+    }
+  }
+  if (select === undefined) {
+    return undefined;
+  }
+
+  let start = skipWords(tokens, select + 1, ['DISTINCT']);
+  start = skipWords(tokens, start, ['ALL']);
+  if (wordAt(tokens, start) === 'TOP') {
+    start += 2;
+  }
+  // The select list ends at FROM, or at the INTO of SELECT ... INTO, whichever comes first
+  const clauses = [findWord(tokens, start, 'FROM'), findWord(tokens, start, 'INTO')].filter((end): end is number => end !== undefined);
+  const end = Math.min(tokens.length, ...clauses);
+
+  const columns: TableColumn[] = [];
+  for (const item of splitTopLevel(tokens.slice(start, end))) {
+    const last = item[item.length - 1];
+    const previous = item[item.length - 2];
+    const isName = last && (last.type === 'identifier' || last.type === 'quotedIdentifier' || last.type === 'keyword');
+    if (!isName || (previous && previous.type === 'operator')) {
+      return undefined;
+    }
+    columns.push({ name: identifierOf(last, schema) });
+  }
+  return columns.length > 0 ? columns : undefined;
+}
+
+/**
+ * Read a possibly qualified name, folding its unquoted parts
+ */
+function readName(tokens: Token[], index: number, schema: DdlSchema): DdlName | undefined {
+  const first = tokens[index];
+  if (!first || !(first.type === 'identifier' || first.type === 'quotedIdentifier' || first.type === 'keyword')) {
+    return undefined;
+  }
+
+  const parts = [identifierOf(first, schema)];
+  let i = index + 1;
+  while (tokens[i]?.text === '.' && tokens[i + 1] && tokens[i + 1].type !== 'punctuation' && tokens[i + 1].type !== 'operator') {
+    parts.push(identifierOf(tokens[i + 1], schema));
+    i += 2;
+  }
+  return { parts, next: i };
+}
+
+/**
+ * Read a comma-separated list of names, as in DROP TABLE a, b
+ */
+function readNameList(tokens: Token[], index: number, schema: DdlSchema): DdlName[] {
+  const names: DdlName[] = [];
+  let name = readName(tokens, index, schema);
+  while (name) {
+    names.push(name);
+    name = tokens[name.next]?.text === ',' ? readName(tokens, name.next + 1, schema) : undefined;
+  }
+  return names;
+}
+
+/**
+ * The name an identifier token stands for, unquoted or folded
+ */
+function identifierOf(token: Token, schema: DdlSchema): string {
+  return token.type === 'quotedIdentifier' ? token.value : schema.fold(token.text);
+}
+
+/**
+ * A word token in upper case, or undefined for quoted identifiers and other tokens
+ */
+function wordAt(tokens: Token[], index: number): string | undefined {
+  const token = tokens[index];
+  return token && (token.type === 'keyword' || token.type === 'identifier') ? token.text.toUpperCase() : undefined;
+}
+
+/**
+ * Skip a sequence of words if it is present, such as IF EXISTS
+ */
+function skipWords(tokens: Token[], index: number, words: string[]): number {
+  return words.length > 0 && words.every((word, offset) => wordAt(tokens, index + offset) === word) ? index + words.length : index;
+}
+
+/**
+ * Index of the first occurrence of a word outside parentheses, from a token on
+ */
+function findWord(tokens: Token[], index: number, word: string): number | undefined {
+  let depth = 0;
+  for (let i = index; i < tokens.length; i++) {
+    if (tokens[i].text === '(') {
+      depth++;
+    } else if (tokens[i].text === ')') {
+      depth--;
+    } else if (depth === 0 && wordAt(tokens, i) === word) {
+      return i;
+    }
+  }
+  return undefined;
+}
+
+function isQueryStart(tokens: Token[], index: number): boolean {
+  const word = wordAt(tokens, index);
+  return word === 'SELECT' || word === 'WITH' || word === 'VALUES';
+}
+
+/**
+ * Index of the parenthesis closing the one at a token, or the last token if unclosed
+ */
+function findClosing(tokens: Token[], index: number): number {
+  let depth = 0;
+  for (let i = index; i < tokens.length; i++) {
+    if (tokens[i].text === '(') {
+      depth++;
+    } else if (tokens[i].text === ')' && --depth === 0) {
+      return i;
+    }
+  }
+  return tokens.length - 1;
+}
+
+/**
+ * Split tokens at the commas outside parentheses
+ */
+function splitTopLevel(tokens: Token[]): Token[][] {
+  const items: Token[][] = [[]];
+  let depth = 0;
+  for (const token of tokens) {
+    if (token.text === '(') {
+      depth++;
+    } else if (token.text === ')') {
+      depth--;
+    } else if (depth === 0 && token.text === ',') {
+      items.push([]);
+      continue;
+    }
+    items[items.length - 1].push(token);
+  }
+  return items.filter(item => item.length > 0);
+}
@@ -0,0 +1,212 @@
+import { LexerOptions } from './lexer.js';
+import { defaultSqlKeywords } from './sql-keywords-config.js';
+
+export type SqlDialectName =
+  | 'postgres'
+  | 'mysql'
+  | 'sqlserver'
+  | 'oracle'
+  | 'snowflake'
+  | 'bigquery'
+  | 'sqlite'
+  | 'duckdb'
+  | 'redshift'
+  | 'clickhouse';
+
+/** How unquoted identifiers are folded: to lower or upper case, or not at all */
+export type CaseFolding = 'lower' | 'upper' | 'none';
+
+export interface SqlDialect {
+  /** Profile name, as accepted by the `dialect` option and `--dialect` flag */
+  name: string;
+  /** Human-readable engine name */
+  displayName: string;
+  /** Keywords that may precede table names */
+  keywords: string[];
+  /** Characters opening a quoted identifier, among '"', '`' and '[' */
+  identifierQuotes: string[];
+  /** How unquoted identifiers are folded, e.g. lower case in PostgreSQL and upper case in Snowflake */
+  caseFolding: CaseFolding;
+  /** Whether table names match regardless of case, as with SQL Server's default collation */
+  caseInsensitive: boolean;
+  /** String literal rules */
+  strings: {
+    /** Letters that may prefix a string literal (E'...', N'...', X'...') */
+    prefixes: string[];
+    /** Whether backslash escapes apply in every string literal */
+    backslashEscapes: boolean;
+    /** Whether "..." is a string literal rather than a quoted identifier */
+    doubleQuoted: boolean;
+    /** Whether $$...$$ and $tag$...$tag$ are string literals */
+    dollarQuoted: boolean;
+  };
+  /** Comment syntax */
+  comments: {
+    /** Markers starting a comment that runs to the end of the line */
+    line: string[];
+    /** Whether block comments nest */
+    nestedBlock: boolean;
+  };
+}
+
+/** Keywords shared by every dialect */
+const COMMON_KEYWORDS = defaultSqlKeywords.default.filter(
+  keyword => !['REPLACE INTO', 'UPSERT INTO', 'MERGE INTO'].includes(keyword)
+);
+
+export const sqlDialects: Record<SqlDialectName, SqlDialect> = {
+  postgres: {
+    name: 'postgres',
+    displayName: 'PostgreSQL',
+    keywords: [...COMMON_KEYWORDS, 'MERGE INTO', 'CREATE TEMPORARY TABLE', 'CREATE TEMP TABLE', 'CREATE UNLOGGED TABLE'],
+    identifierQuotes: ['"'],
+    caseFolding: 'lower',
+    caseInsensitive: false,
+    strings: { prefixes: ['E', 'N', 'X', 'B'], backslashEscapes: false, doubleQuoted: false, dollarQuoted: true },
+    comments: { line: ['--'], nestedBlock: true }
+  },
+  mysql: {
+    name: 'mysql',
+    displayName: 'MySQL',
+    keywords: [...COMMON_KEYWORDS, 'REPLACE INTO', 'INSERT IGNORE INTO', 'STRAIGHT_JOIN', 'CREATE TEMPORARY TABLE'],
+    identifierQuotes: ['`'],
+    caseFolding: 'none',
+    caseInsensitive: false,
+    strings: { prefixes: ['N', 'X', 'B'], backslashEscapes: true, doubleQuoted: true, dollarQuoted: false },
+    comments: { line: ['--', '#'], nestedBlock: false }
+  },
+  sqlserver: {
+    name: 'sqlserver',
+    displayName: 'SQL Server',
+    keywords: [...COMMON_KEYWORDS, 'MERGE INTO', 'MERGE'],
+    identifierQuotes: ['"', '['],
+    caseFolding: 'none',
+    caseInsensitive: true,
+    strings: { prefixes: ['N'], backslashEscapes: false, doubleQuoted: false, dollarQuoted: false },
+    comments: { line: ['--'], nestedBlock: true }
+  },
+  oracle: {
+    name: 'oracle',
+    displayName: 'Oracle',
+    keywords: [...COMMON_KEYWORDS, 'MERGE INTO', 'INSERT ALL INTO', 'CREATE GLOBAL TEMPORARY TABLE'],
+    identifierQuotes: ['"'],
+    caseFolding: 'upper',
+    caseInsensitive: false,
+    strings: { prefixes: ['N'], backslashEscapes: false, doubleQuoted: false, dollarQuoted: false },
+    comments: { line: ['--'], nestedBlock: false }
+  },
+  snowflake: {
+    name: 'snowflake',
+    displayName: 'Snowflake',
+    keywords: [
+      ...COMMON_KEYWORDS, 'MERGE INTO', 'COPY INTO', 'INSERT ALL INTO', 'INSERT OVERWRITE INTO',
+      'CREATE OR REPLACE TABLE', 'CREATE TRANSIENT TABLE', 'CREATE TEMPORARY TABLE'
+    ],
+    identifierQuotes: ['"'],
+    caseFolding: 'upper',
+    caseInsensitive: false,
+    strings: { prefixes: ['X'], backslashEscapes: true, doubleQuoted: false, dollarQuoted: true },
+    comments: { line: ['--', '//'], nestedBlock: false }
+  },
+  bigquery: {
+    name: 'bigquery',
+    displayName: 'BigQuery',
+    keywords: [
+      ...COMMON_KEYWORDS, 'MERGE INTO', 'MERGE', 'CREATE OR REPLACE TABLE', 'CREATE TEMP TABLE', 'CREATE TEMPORARY TABLE'
+    ],
+    identifierQuotes: ['`'],
+    caseFolding: 'none',
+    caseInsensitive: false,
+    strings: { prefixes: ['B', 'R'], backslashEscapes: true, doubleQuoted: true, dollarQuoted: false },
+    comments: { line: ['--', '#'], nestedBlock: false }
+  },
+  sqlite: {
+    name: 'sqlite',
+    displayName: 'SQLite',
+    keywords: [
+      ...COMMON_KEYWORDS, 'REPLACE INTO', 'INSERT OR REPLACE INTO', 'INSERT OR IGNORE INTO',
+      'CREATE TEMP TABLE', 'CREATE TEMPORARY TABLE'
+    ],
+    identifierQuotes: ['"', '`', '['],
+    caseFolding: 'none',
+    caseInsensitive: true,
+    strings: { prefixes: ['X'], backslashEscapes: false, doubleQuoted: false, dollarQuoted: false },
+    comments: { line: ['--'], nestedBlock: false }
+  },
+  duckdb: {
+    name: 'duckdb',
+    displayName: 'DuckDB',
+    keywords: [
+      ...COMMON_KEYWORDS, 'INSERT OR REPLACE INTO', 'INSERT OR IGNORE INTO', 'CREATE OR REPLACE TABLE',
+      'CREATE TEMP TABLE', 'ASOF JOIN', 'POSITIONAL JOIN', 'SEMI JOIN', 'ANTI JOIN'
+    ],
+    identifierQuotes: ['"'],
+    caseFolding: 'none',
+    caseInsensitive: true,
+    strings: { prefixes: ['E', 'X'], backslashEscapes: false, doubleQuoted: false, dollarQuoted: true },
+    comments: { line: ['--'], nestedBlock: false }
+  },
+  redshift: {
+    name: 'redshift',
+    displayName: 'Amazon Redshift',
+    keywords: [...COMMON_KEYWORDS, 'MERGE INTO', 'CREATE TEMP TABLE', 'CREATE TEMPORARY TABLE'],
+    identifierQuotes: ['"'],
+    caseFolding: 'lower',
+    caseInsensitive: false,
+    strings: { prefixes: ['E'], backslashEscapes: false, doubleQuoted: false, dollarQuoted: true },
+    comments: { line: ['--'], nestedBlock: false }
+  },
+  clickhouse: {
+    name: 'clickhouse',
+    displayName: 'ClickHouse',
+    keywords: [...COMMON_KEYWORDS, 'CREATE TEMPORARY TABLE', 'ASOF JOIN', 'SEMI JOIN', 'ANTI JOIN', 'GLOBAL JOIN'],
+    identifierQuotes: ['"', '`'],
+    caseFolding: 'none',
+    caseInsensitive: false,
+    strings: { prefixes: ['X'], backslashEscapes: true, doubleQuoted: false, dollarQuoted: false },
+    comments: { line: ['--', '#'], nestedBlock: false }
+  }
+};
+
+/**
+ * Look up a dialect profile by name. Profiles passed as objects are returned
+ * as is, so callers can define their own.
+ */
+export function getDialect(dialect: string | SqlDialect): SqlDialect {
+  if (typeof dialect !== 'string') {
+    return dialect;
+  }
+
+  const name = dialect.toLowerCase();
+  if (!Object.prototype.hasOwnProperty.call(sqlDialects, name)) {
+    throw new Error(`Unknown SQL dialect "${dialect}". Available dialects: ${getDialectNames().join(', ')}`);
+  }
+  return sqlDialects[name as SqlDialectName];
+}
+
+/**
+ * Get the names of all built-in dialect profiles
+ */
+export function getDialectNames(): SqlDialectName[] {
+  return Object.keys(sqlDialects) as SqlDialectName[];
+}
+
+/**
+ * Build the lexer options for a dialect; without one, the lexer's defaults apply
+ */
+export function getDialectLexerOptions(dialect?: string | SqlDialect): LexerOptions {
+  if (!dialect) {
+    return {};
+  }
+
+  const { identifierQuotes, strings, comments } = getDialect(dialect);
+  return {
+    nestedBlockComments: comments.nestedBlock,
+    dollarQuotedStrings: strings.dollarQuoted,
+    lineComments: comments.line,
+    identifierQuotes,
+    doubleQuotedStrings: strings.doubleQuoted,
+    backslashEscapes: strings.backslashEscapes,
+    stringPrefixes: strings.prefixes
+  };
+}
@@ -0,0 +1,331 @@
+import { catalogFromDdl } from './ddl.js';
+import { isRecord, stringOf } from './json.js';
+import type { TableColumn, TableMetadata } from './parser.js';
+import { parseCsv } from './query-logs.js';
+
+/** Magic string at the start of every SQLite database file */
+const SQLITE_HEADER = 'SQLite format 3\0';
+
+/** SQLite b-tree page types */
+const INTERIOR_TABLE_PAGE = 0x05;
+const LEAF_TABLE_PAGE = 0x0d;
+
+/** Text encodings of a SQLite database, by the number in its header */
+const SQLITE_ENCODINGS: Record<number, string> = { 1: 'utf-8', 2: 'utf-16le', 3: 'utf-16be' };
+
+/**
+ * Build known tables from rows of `information_schema.columns`, or of
+ * `information_schema.tables` for tables without columns, as exported to JSON
+ * by most warehouses: an array of objects with `table_catalog`,
+ * `table_schema`, `table_name` and, for columns, `column_name`,
+ * `ordinal_position`, `data_type` and `is_nullable`. Keys are matched
+ * regardless of case. Columns are listed in ordinal order.
+ */
+export function loadInformationSchema(rows: unknown): Map<string, TableMetadata> {
+  if (!Array.isArray(rows)) {
+    throw new Error('Not an information_schema export: expected an array of rows');
+  }
+
+  return buildInformationSchemaCatalog(rows.filter(isRecord).map(row =>
+    Object.fromEntries(Object.entries(row).map(([key, value]) => [key.toLowerCase(), value === null ? undefined : String(value)]))
+  ));
+}
+
+/**
+ * Build known tables from an `information_schema.columns` or
+ * `information_schema.tables` export in CSV, with a header line naming the
+ * columns as in `loadInformationSchema`
+ */
+export function loadInformationSchemaCsv(text: string): Map<string, TableMetadata> {
+  const [header, ...records] = parseCsv(text);
+  const names = header ? header.fields.map(name => name.trim().toLowerCase()) : [];
+
+  return buildInformationSchemaCatalog(records
+    .filter(record => !(record.fields.length === 1 && record.fields[0] === ''))
+    .map(record => Object.fromEntries(names.map((name, index) => [name, record.fields[index]]))));
+}
+
+/**
+ * Build known tables from a Metabase metadata API response: a database with
+ * its tables (`GET /api/database/:id/metadata`), a table with its fields
+ * (`GET /api/table/:id/query_metadata`), or a list of tables (`GET
+ * /api/table`). Tables are named by their schema and name, and by the
+ * database name in the connection details where Metabase reports it; columns
+ * come from the table's top-level fields with their database types.
+ * Inactive tables are left out.
+ */
+export function loadMetabaseMetadata(response: unknown): Map<string, TableMetadata> {
+  let tables: unknown[];
+  let database: string | undefined;
+  if (Array.isArray(response)) {
+    tables = response;
+  } else if (isRecord(response) && Array.isArray(response.tables)) {
+    tables = response.tables;
+    database = metabaseDatabaseName(response);
+  } else if (isRecord(response) && Array.isArray(response.fields)) {
+    tables = [response];
+  } else {
+    throw new Error('Not a Metabase metadata response: expected "tables" or "fields"');
+  }
+
+  const knownTables = new Map<string, TableMetadata>();
+  for (const table of tables) {
+    if (!isRecord(table) || typeof table.name !== 'string' || table.active === false) {
+      continue;
+    }
+    const tableName = table.name;
+    const schema = stringOf(table.schema);
+    const tableDatabase = database ?? (isRecord(table.db) ? metabaseDatabaseName(table.db) : undefined);
+    const fullyQualifiedName = [tableDatabase, schema, tableName].filter(part => part !== undefined).join('.');
+    const columns = Array.isArray(table.fields) ? readMetabaseFields(table.fields) : undefined;
+
+    knownTables.set(fullyQualifiedName, {
+      tableName,
+      fullyQualifiedName,
+      ...(schema !== undefined && { schema }),
+      ...(tableDatabase !== undefined && { database: tableDatabase }),
+      ...(columns !== undefined && { columns })
+    });
+  }
+  return knownTables;
+}
+
+/**
+ * Build known tables from the contents of a SQLite database file: the tables
+ * and views in its `sqlite_master` table, with the columns of the CREATE
+ * statements stored there. Changes still in a write-ahead log are not seen.
+ */
+export function loadSqliteDatabase(data: Uint8Array): Map<string, TableMetadata> {
+  const file = new SqliteFile(data);
+  const statements: string[] = [];
+
+  // sqlite_master: type, name, tbl_name, rootpage, sql
+  for (const [type, name, , , sql] of file.readTable(1)) {
+    if ((type === 'table' || type === 'view') && typeof name === 'string' && !name.startsWith('sqlite_') && typeof sql === 'string') {
+      statements.push(sql);
+    }
+  }
+  return catalogFromDdl(statements, { dialect: 'sqlite' });
+}
+
+/**
+ * Turn information_schema rows, their keys in lower case, into known tables
+ */
+function buildInformationSchemaCatalog(rows: Record<string, string | undefined>[]): Map<string, TableMetadata> {
+  if (rows.length > 0 && !rows.some(row => row.table_name !== undefined)) {
+    throw new Error('Not an information_schema export: expected a "table_name" column');
+  }
+
+  const knownTables = new Map<string, TableMetadata>();
+  const positions = new Map<TableColumn, number>();
+  for (const row of rows) {
+    const tableName = stringOf(row.table_name);
+    if (tableName === undefined) {
+      continue;
+    }
+    const schema = stringOf(row.table_schema);
+    const database = stringOf(row.table_catalog);
+    const fullyQualifiedName = [database, schema, tableName].filter(part => part !== undefined).join('.');
+
+    let metadata = knownTables.get(fullyQualifiedName);
+    if (!metadata) {
+      metadata = {
+        tableName,
+        fullyQualifiedName,
+        ...(schema !== undefined && { schema }),
+        ...(database !== undefined && { database })
+      };
+      knownTables.set(fullyQualifiedName, metadata);
+    }
+
+    const name = stringOf(row.column_name);
+    if (name === undefined) {
+      continue;
+    }
+    const type = stringOf(row.data_type);
+    const nullable = row.is_nullable?.toUpperCase();
+    const column: TableColumn = {
+      name,
+      ...(type !== undefined && { type }),
+      ...((nullable === 'YES' || nullable === 'NO') && { nullable: nullable === 'YES' })
+    };
+    positions.set(column, Number(row.ordinal_position) || 0);
+    metadata.columns = [...(metadata.columns ?? []), column];
+  }
+
+  for (const metadata of knownTables.values()) {
+    metadata.columns?.sort((a, b) => positions.get(a)! - positions.get(b)!);
+  }
+  return knownTables;
+}
+
+/**
+ * The database name in the connection details of a Metabase database
+ */
+function metabaseDatabaseName(database: Record<string, unknown>): string | undefined {
+  const details = isRecord(database.details) ? database.details : {};
+  return stringOf(details.dbname) ?? stringOf(details.db);
+}
+
+/**
+ * The top-level fields of a Metabase table, in database order; nested JSON
+ * fields are not columns
+ */
+function readMetabaseFields(fields: unknown[]): TableColumn[] {
+  return fields
+    .filter(isRecord)
+    .filter(field => field.parent_id === undefined || field.parent_id === null)
+    .sort((a, b) => (typeof a.database_position === 'number' ? a.database_position : 0) -
+      (typeof b.database_position === 'number' ? b.database_position : 0))
+    .flatMap(field => typeof field.name === 'string'
+      ? [{ name: field.name, ...(typeof field.database_type === 'string' && { type: field.database_type }) }]
+      : []);
+}
+
+/**
+ * Just enough of the SQLite file format to read the rows of a table b-tree
+ */
+class SqliteFile {
+  private readonly view: DataView;
+  private readonly pageSize: number;
+  private readonly usableSize: number;
+  private readonly decoder: TextDecoder;
+
+  constructor(private readonly data: Uint8Array) {
+    if (data.length < 100 || new TextDecoder('latin1').decode(data.subarray(0, 16)) !== SQLITE_HEADER) {
+      throw new Error('Not a SQLite database: missing the "SQLite format 3" header');
+    }
+    this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const pageSize = this.view.getUint16(16);
+    this.pageSize = pageSize === 1 ? 65536 : pageSize;
+    this.usableSize = this.pageSize - data[20];
+    this.decoder = new TextDecoder(SQLITE_ENCODINGS[this.view.getUint32(56)] ?? 'utf-8');
+  }
+
+  /**
+   * The rows of the table whose b-tree starts at a page, in rowid order
+   */
+  *readTable(rootPage: number): Generator<unknown[]> {
+    const offset = this.pageOffset(rootPage);
+    // The first page holds the 100-byte file header before its b-tree header
+    const header = rootPage === 1 ? offset + 100 : offset;
+    const type = this.data[header];
+    const cellCount = this.view.getUint16(header + 3);
+    const cellPointers = header + (type === INTERIOR_TABLE_PAGE ? 12 : 8);
+
+    if (type !== INTERIOR_TABLE_PAGE && type !== LEAF_TABLE_PAGE) {
+      throw new Error(`Not a SQLite database: page ${rootPage} is not a table b-tree page`);
+    }
+
+    for (let i = 0; i < cellCount; i++) {
+      const cell = offset + this.view.getUint16(cellPointers + i * 2);
+      if (type === INTERIOR_TABLE_PAGE) {
+        yield* this.readTable(this.view.getUint32(cell));
+      } else {
+        yield this.readRecord(this.readPayload(cell));
+      }
+    }
+    if (type === INTERIOR_TABLE_PAGE) {
+      yield* this.readTable(this.view.getUint32(header + 8));
+    }
+  }
+
+  /**
+   * The payload of a leaf cell, following its overflow pages
+   */
+  private readPayload(cell: number): Uint8Array {
+    const [size, sizeLength] = this.readVarint(cell);
+    const [, rowidLength] = this.readVarint(cell + sizeLength);
+    const start = cell + sizeLength + rowidLength;
+
+    const maxLocal = this.usableSize - 35;
+    if (size <= maxLocal) {
+      return this.data.subarray(start, start + size);
+    }
+    const minLocal = Math.floor((this.usableSize - 12) * 32 / 255) - 23;
+    const surplus = minLocal + (size - minLocal) % (this.usableSize - 4);
+    const local = surplus <= maxLocal ? surplus : minLocal;
+
+    const payload = new Uint8Array(size);
+    payload.set(this.data.subarray(start, start + local));
+    let copied = local;
+    let page = this.view.getUint32(start + local);
+    while (copied < size && page !== 0) {
+      const offset = this.pageOffset(page);
+      const chunk = this.data.subarray(offset + 4, offset + 4 + Math.min(this.usableSize - 4, size - copied));
+      payload.set(chunk, copied);
+      copied += chunk.length;
+      page = this.view.getUint32(offset);
+    }
+    return payload;
+  }
+
+  /**
+   * The values of a record: numbers, strings, blobs and nulls
+   */
+  private readRecord(payload: Uint8Array): unknown[] {
+    const view = new DataView(payload.buffer, payload.byteOffset, payload.byteLength);
+    const [headerSize, headerSizeLength] = readVarint(payload, 0);
+    const serialTypes: number[] = [];
+    for (let i = headerSizeLength; i < headerSize;) {
+      const [serialType, length] = readVarint(payload, i);
+      serialTypes.push(serialType);
+      i += length;
+    }
+
+    const values: unknown[] = [];
+    let offset = headerSize;
+    for (const serialType of serialTypes) {
+      if (serialType >= 12) {
+        const length = Math.floor((serialType - 12) / 2);
+        const bytes = payload.subarray(offset, offset + length);
+        values.push(serialType % 2 === 1 ? this.decoder.decode(bytes) : bytes);
+        offset += length;
+      } else if (serialType === 7) {
+        values.push(view.getFloat64(offset));
+        offset += 8;
+      } else if (serialType === 8 || serialType === 9) {
+        values.push(serialType - 8);
+      } else if (serialType === 0) {
+        values.push(null);
+      } else {
+        // Big-endian signed integers of 1, 2, 3, 4, 6 or 8 bytes
+        const length = [0, 1, 2, 3, 4, 6, 8][serialType];
+        let value = 0;
+        for (let i = 0; i < length; i++) {
+          value = value * 256 + payload[offset + i];
+        }
+        values.push(payload[offset] >= 0x80 ? value - 2 ** (length * 8) : value);
+        offset += length;
+      }
+    }
+    return values;
+  }
+
+  private readVarint(offset: number): [number, number] {
+    return readVarint(this.data, offset);
+  }
+
+  private pageOffset(page: number): number {
+    const offset = (page - 1) * this.pageSize;
+    if (page < 1 || offset >= this.data.length) {
+      throw new Error(`Not a SQLite database: page ${page} is past the end of the file`);
+    }
+    return offset;
+  }
+}
+
+/**
+ * A SQLite variable-length integer and the number of bytes it takes
+ */
+function readVarint(bytes: Uint8Array, offset: number): [number, number] {
+  let value = 0;
+  for (let i = 0; i < 8; i++) {
+    const byte = bytes[offset + i];
+    value = value * 128 + (byte & 0x7f);
+    if (byte < 0x80) {
+      return [value, i + 1];
+    }
+  }
+  return [value * 256 + bytes[offset + 8], 9];
+}
@@ -2,12 +2,27 @@
 
 import chalk from 'chalk';
 import { Command } from 'commander';
-import { readFileSync } from 'fs';
-import ora from 'ora';
-import { dirname, join } from 'path';
+import { readFileSync, writeFileSync } from 'fs';
+import ora, { Ora } from 'ora';
+import { dirname, extname, join } from 'path';
 import { fileURLToPath } from 'url';
-import { SqlTableExtractor, TableMetadata } from './parser.js';
+import { validateCatalog } from './catalog-validation.js';
+import { TableCatalog } from './catalog.js';
+import { extractColumnReferences } from './columns.js';
+import { catalogFromDdl, DdlCatalogOptions } from './ddl.js';
+import { loadDbtManifest, loadDbtTemplateOptions } from './dbt.js';
+import { getDialect, getDialectNames, SqlDialect } from './dialects.js';
+import { loadInformationSchema, loadInformationSchemaCsv, loadMetabaseMetadata, loadSqliteDatabase } from './importers.js';
+import { extractJoinGraph, formatJoinGraph, JOIN_GRAPH_FORMATS, JoinGraphFormat, mergeJoinGraphs } from './joins.js';
+import { extractLineage, toOpenLineageEvents } from './lineage.js';
+import { buildParseOutput, formatParseOutput, OUTPUT_FORMATS, OutputFormat } from './output.js';
+import { Diagnostic, SqlTableExtractor, TableMetadata } from './parser.js';
+import { countTableUsage, QUERY_LOG_FORMATS, QueryLogFormat, readQueryLog } from './query-logs.js';
+import { findSqlFiles } from './scan.js';
+import { TableUsageAggregator } from './usage-stats.js';
+import { scanFilesInParallel } from './scan-worker.js';
 import { defaultSqlKeywords, getAllKeywords } from './sql-keywords-config.js';
+import { TemplateOptions } from './templating.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -17,6 +32,227 @@ const packageJson = JSON.parse(
   readFileSync(join(__dirname, '../package.json'), 'utf-8')
 );
 
+/**
+ * Read all of standard input
+ */
+function readStdin(): string {
+  return readFileSync(0, 'utf-8');
+}
+
+/**
+ * Read a known tables file: a SQLite database, an information_schema export
+ * in CSV or JSON, a Metabase metadata API response, or a known tables JSON
+ * file, whose invalid entries are skipped
+ */
+function readKnownTables(file: string): Map<string, TableMetadata> {
+  const data = readFileSync(file);
+  if (data.subarray(0, 15).toString('latin1') === 'SQLite format 3') {
+    return loadSqliteDatabase(data);
+  }
+  if (extname(file).toLowerCase() === '.csv') {
+    return loadInformationSchemaCsv(data.toString('utf-8'));
+  }
+
+  const tablesData = JSON.parse(data.toString('utf-8'));
+  if (Array.isArray(tablesData)) {
+    // information_schema rows, or the table list of the Metabase API
+    const isInformationSchema = tablesData.some(row => typeof row === 'object' && row !== null &&
+      Object.keys(row).some(key => key.toLowerCase() === 'table_name'));
+    return isInformationSchema ? loadInformationSchema(tablesData) : loadMetabaseMetadata(tablesData);
+  }
+  if (typeof tablesData === 'object' && tablesData !== null && (Array.isArray(tablesData.tables) || Array.isArray(tablesData.fields))) {
+    return loadMetabaseMetadata(tablesData);
+  }
+
+  if (typeof tablesData !== 'object' || tablesData === null) {
+    throw new Error('JSON file must contain an object');
+  }
+
+  // Entries and columns with errors are skipped; `catalog validate` reports the warnings too
+  const { problems, knownTables } = validateCatalog(tablesData);
+  for (const problem of problems.filter(problem => problem.severity === 'error')) {
+    console.warn(chalk.yellow(`Warning: ${problem.path}: ${problem.message} - skipping`));
+  }
+  return knownTables;
+}
+
+/**
+ * Read the known tables of a dbt project from its manifest.json, with columns
+ * from its catalog.json if given, and the tables its refs and sources stand for
+ */
+function readDbtProject(manifestFile: string, catalogFile?: string): {
+  knownTables: Map<string, TableMetadata>;
+  templateOptions: TemplateOptions;
+} {
+  const manifest = JSON.parse(readFileSync(manifestFile, 'utf-8'));
+  const catalog = catalogFile === undefined ? undefined : JSON.parse(readFileSync(catalogFile, 'utf-8'));
+  return { knownTables: loadDbtManifest(manifest, catalog), templateOptions: loadDbtTemplateOptions(manifest) };
+}
+
+/**
+ * Build known tables from DDL scripts: a comma-separated list of files,
+ * directories and glob patterns, applied in order
+ */
+function readDdlFiles(files: string, options: DdlCatalogOptions): Map<string, TableMetadata> {
+  const paths = findSqlFiles(splitList(files) ?? []);
+  return catalogFromDdl(paths.map(path => readFileSync(path, 'utf-8')), options);
+}
+
+/**
+ * Read a template mapping JSON file: { refs, sources, snippets }, each mapping
+ * names to table names or SQL. Invalid entries are skipped.
+ */
+function readTemplateMap(file: string): TemplateOptions {
+  const mapData = JSON.parse(readFileSync(file, 'utf-8'));
+
+  if (typeof mapData !== 'object' || mapData === null) {
+    throw new Error('JSON file must contain an object');
+  }
+
+  const templateOptions: TemplateOptions = {};
+  for (const section of ['refs', 'sources', 'snippets'] as const) {
+    if (mapData[section] === undefined) {
+      continue;
+    }
+    if (typeof mapData[section] !== 'object' || mapData[section] === null) {
+      console.warn(chalk.yellow(`Warning: Invalid "${section}" mapping - ignoring it`));
+      continue;
+    }
+    const mapping: Record<string, string> = {};
+    for (const [key, value] of Object.entries(mapData[section])) {
+      if (typeof value === 'string') {
+        mapping[key] = value;
+      } else {
+        console.warn(chalk.yellow(`Warning: Invalid ${section} entry for key "${key}" - skipping`));
+      }
+    }
+    templateOptions[section] = mapping;
+  }
+  return templateOptions;
+}
+
+/**
+ * Split a comma-separated option value, dropping empty entries
+ */
+function splitList(value: string | undefined): string[] | undefined {
+  return value?.split(',').map(item => item.trim()).filter(item => item.length > 0);
+}
+
+/**
+ * Report an option that could not be read, on the spinner if the command has
+ * one, and exit
+ */
+function failOption(spinner: Ora | undefined, message: string, error: unknown): never {
+  const detail = error instanceof Error ? error.message : String(error);
+  if (spinner) {
+    spinner.fail(message);
+    console.error(chalk.red('Error:'), detail);
+  } else {
+    console.error(chalk.red('Error:'), `${message}:`, detail);
+  }
+  process.exit(1);
+}
+
+/**
+ * Look up the dialect profile named by --dialect, if any
+ */
+function resolveDialect(options: { dialect?: string }, spinner?: Ora): SqlDialect | undefined {
+  if (!options.dialect) {
+    return undefined;
+  }
+  try {
+    return getDialect(options.dialect.trim());
+  } catch (error) {
+    failOption(spinner, 'Invalid dialect', error);
+  }
+}
+
+/**
+ * Load the known tables given by --known-tables, --dbt-manifest and --ddl, in
+ * that order, later definitions replacing earlier ones. Also returns the refs
+ * and sources of the dbt project, if any.
+ */
+function loadKnownTablesOption(
+  options: { knownTables?: string; dbtManifest?: string; dbtCatalog?: string; ddl?: string; database?: string; defaultSchema?: string },
+  dialect: SqlDialect | undefined,
+  spinner?: Ora,
+  log?: (message: string) => void
+): { knownTables?: Map<string, TableMetadata>; dbtTemplateOptions?: TemplateOptions } {
+  let knownTables: Map<string, TableMetadata> | undefined;
+  if (options.knownTables) {
+    try {
+      knownTables = readKnownTables(options.knownTables);
+      log?.(`Loaded ${knownTables.size} known tables from ${options.knownTables}`);
+    } catch (error) {
+      failOption(spinner, `Failed to read known tables file: ${options.knownTables}`, error);
+    }
+  }
+
+  // Add the models, sources, seeds and snapshots of a dbt project
+  let dbtTemplateOptions: TemplateOptions | undefined;
+  if (options.dbtManifest) {
+    try {
+      const project = readDbtProject(options.dbtManifest, options.dbtCatalog);
+      knownTables = new Map([...(knownTables ?? []), ...project.knownTables]);
+      dbtTemplateOptions = project.templateOptions;
+      log?.(`Loaded ${project.knownTables.size} tables from ${options.dbtManifest}`);
+    } catch (error) {
+      failOption(spinner, `Failed to read dbt manifest: ${options.dbtManifest}`, error);
+    }
+  }
+
+  // Add the tables left by DDL scripts
+  if (options.ddl) {
+    try {
+      const ddlTables = readDdlFiles(options.ddl, { dialect, currentDatabase: options.database, defaultSchema: options.defaultSchema });
+      knownTables = new Map([...(knownTables ?? []), ...ddlTables]);
+      log?.(`Loaded ${ddlTables.size} tables from ${options.ddl}`);
+    } catch (error) {
+      failOption(spinner, `Failed to read DDL files: ${options.ddl}`, error);
+    }
+  }
+
+  return { knownTables, dbtTemplateOptions };
+}
+
+/**
+ * Read the templating options: --template, or the mappings of --template-map.
+ * Refs and sources render as the tables a dbt project builds unless mapped
+ * explicitly.
+ */
+function loadTemplateOption(
+  options: { template?: boolean; templateMap?: string },
+  spinner?: Ora,
+  dbtTemplateOptions?: TemplateOptions
+): boolean | TemplateOptions | undefined {
+  let template: boolean | TemplateOptions | undefined = options.template;
+  if (options.templateMap) {
+    try {
+      template = readTemplateMap(options.templateMap);
+    } catch (error) {
+      failOption(spinner, `Failed to read template map file: ${options.templateMap}`, error);
+    }
+  }
+
+  if (template && dbtTemplateOptions) {
+    const mapped = typeof template === 'object' ? template : {};
+    template = {
+      ...mapped,
+      refs: { ...dbtTemplateOptions.refs, ...mapped.refs },
+      sources: { ...dbtTemplateOptions.sources, ...mapped.sources }
+    };
+  }
+  return template;
+}
+
+/**
+ * Render a diagnostic on one line: position, severity, code and message
+ */
+function formatDiagnostic(diagnostic: Diagnostic): string {
+  const severity = diagnostic.severity === 'error' ? chalk.red('error') : chalk.yellow('warning');
+  return `${diagnostic.line}:${diagnostic.column} ${severity} ${diagnostic.message} ${chalk.dim(`(${diagnostic.code})`)}`;
+}
+
 const program = new Command();
 
 program
@@ -27,27 +263,68 @@ program
 program
   .command('parse')
   .description('Parse SQL query and extract table names')
-  .argument('<query>', 'SQL query to parse (or file path if using --file)')
+  .argument('<query>', 'SQL query to parse (or file path if using --file, or - to read standard input)')
   .option('-f, --file', 'Read SQL from file instead of argument')
   .option('-v, --verbose', 'Show verbose output')
-  .option('-t, --known-tables <file>', 'Path to JSON file containing known table definitions')
-  .option('--filter-ctes', 'Filter out CTEs using known tables')
+  .option('-t, --known-tables <file>', 'Path to known tables: JSON, information_schema CSV or JSON, Metabase metadata or SQLite database')
+  .option('--dbt-manifest <file>', 'Path to a dbt manifest.json whose models, sources, seeds and snapshots are known tables')
+  .option('--dbt-catalog <file>', 'Path to a dbt catalog.json supplying the columns of the manifest tables')
+  .option('--ddl <files>', 'Comma-separated DDL files, directories or globs whose CREATE, ALTER and DROP statements build known tables')
+  .option('--filter-ctes', 'Also filter out references that are not in the known tables')
   .option('--keywords <keywords>', 'Comma-separated list of SQL keywords to look for (overrides defaults)')
   .option('--custom-keywords <keywords>', 'Additional keywords to include (comma-separated)')
+  .option('--per-statement', 'Show the tables of each statement separately')
+  .option('--columns', 'Also show the columns referenced and the tables they belong to')
+  .option('-d, --dialect <name>', `SQL dialect (${getDialectNames().join(', ')})`)
+  .option('--format <format>', `Output format (${OUTPUT_FORMATS.join(', ')})`, 'text')
+  .option('--database <name>', 'Current database for resolving names without one')
+  .option('--search-path <schemas>', 'Comma-separated schemas searched in order for names without one')
+  .option('--default-schema <name>', 'Schema searched after the search path')
+  .option('--strict', 'Exit with a non-zero code when any diagnostic is reported')
+  .option('--case-insensitive', 'Match known tables regardless of case')
+  .option('--template', 'Render dbt, Jinja and Metabase tags and bind parameters before parsing')
+  .option('--template-map <file>', 'JSON file mapping dbt refs and sources to tables and Metabase snippets to SQL (implies --template)')
   .action(async (queryOrPath: string, options: {
     file?: boolean;
     verbose?: boolean;
     knownTables?: string;
+    dbtManifest?: string;
+    dbtCatalog?: string;
+    ddl?: string;
     filterCtes?: boolean;
     keywords?: string;
     customKeywords?: string;
+    perStatement?: boolean;
+    columns?: boolean;
+    dialect?: string;
+    format?: string;
+    database?: string;
+    searchPath?: string;
+    defaultSchema?: string;
+    strict?: boolean;
+    caseInsensitive?: boolean;
+    template?: boolean;
+    templateMap?: string;
   }) => {
-    const spinner = ora('Parsing SQL query...').start();
+    const format = (options.format ?? 'text').toLowerCase() as OutputFormat;
+    if (!OUTPUT_FORMATS.includes(format)) {
+      console.error(chalk.red('Error:'), `Unknown format "${options.format}". Available formats: ${OUTPUT_FORMATS.join(', ')}`);
+      process.exit(1);
+    }
+
+    // Machine-readable formats keep stdout clean: no spinner, no color codes
+    const machineReadable = format !== 'text';
+    if (machineReadable) {
+      chalk.level = 0;
+    }
+    const spinner = ora({ text: 'Parsing SQL query...', isSilent: machineReadable }).start();
 
     try {
       // Get SQL content
       let sql: string;
-      if (options.file) {
+      if (queryOrPath === '-') {
+        sql = readStdin();
+      } else if (options.file) {
         try {
           sql = readFileSync(queryOrPath, 'utf-8');
           if (options.verbose) {
@@ -62,81 +339,104 @@ program
         sql = queryOrPath;
       }
 
-      // Parse known tables from JSON file if provided
-      let knownTables: Map<string, TableMetadata> | undefined;
-      if (options.knownTables) {
-        try {
-          const tablesJson = readFileSync(options.knownTables, 'utf-8');
-          const tablesData = JSON.parse(tablesJson);
+      const dialect = resolveDialect(options, spinner);
+      const { knownTables, dbtTemplateOptions } = loadKnownTablesOption(options, dialect, spinner,
+        options.verbose && !machineReadable ? message => console.log(chalk.dim(message)) : undefined);
+      const template = loadTemplateOption(options, spinner, dbtTemplateOptions);
 
-          if (typeof tablesData !== 'object' || tablesData === null) {
-            throw new Error('JSON file must contain an object');
-          }
-
-          knownTables = new Map();
-          for (const [key, value] of Object.entries(tablesData)) {
-            if (typeof value === 'object' && value !== null) {
-              const metadata = value as any;
-              if (typeof metadata.tableName === 'string' && typeof metadata.fullyQualifiedName === 'string') {
-                knownTables.set(key, {
-                  tableName: metadata.tableName,
-                  fullyQualifiedName: metadata.fullyQualifiedName,
-                  schema: metadata.schema,
-                  database: metadata.database
-                });
-              } else {
-                console.warn(chalk.yellow(`Warning: Invalid table metadata for key "${key}" - skipping`));
-              }
-            } else {
-              console.warn(chalk.yellow(`Warning: Invalid table metadata for key "${key}" - skipping`));
-            }
-          }
+      const keywords = splitList(options.keywords);
+      const customKeywords = splitList(options.customKeywords);
+      const extractionOptions = {
+        knownTables,
+        filterCTEs: options.filterCtes && !!knownTables,
+        keywords,
+        customKeywords,
+        dialect,
+        currentDatabase: options.database,
+        searchPath: splitList(options.searchPath),
+        defaultSchema: options.defaultSchema,
+        caseInsensitive: options.caseInsensitive,
+        template
+      };
 
-          if (options.verbose) {
-            console.log(chalk.dim(`Loaded ${knownTables.size} known tables from ${options.knownTables}`));
-          }
-        } catch (error) {
-          spinner.fail(`Failed to read known tables file: ${options.knownTables}`);
-          console.error(chalk.red('Error:'), error instanceof Error ? error.message : String(error));
+      const printDiagnostics = (diagnostics: Diagnostic[]) => {
+        if (diagnostics.length > 0) {
+          console.log(chalk.red(`\nDiagnostics (${diagnostics.length}):`));
+          diagnostics.forEach(diagnostic => console.log(`- ${formatDiagnostic(diagnostic)}`));
+        }
+      };
+      const exitOnDiagnostics = (diagnostics: Diagnostic[]) => {
+        if (options.strict && diagnostics.length > 0) {
           process.exit(1);
         }
-      }
+      };
 
-      // Parse keywords if provided
-      let keywords: string[] | undefined;
-      if (options.keywords) {
-        keywords = options.keywords.split(',').map(k => k.trim()).filter(k => k.length > 0);
+      if (format !== 'text') {
+        const results = options.perStatement
+          ? { statements: SqlTableExtractor.extractTableNamesByStatement(sql, extractionOptions) }
+          : { result: SqlTableExtractor.extractTableNames(sql, extractionOptions) };
+        const output = buildParseOutput(results, {
+          knownTables,
+          dialect: dialect?.name,
+          columns: options.columns ? extractColumnReferences(sql, extractionOptions).columns : undefined
+        });
+        spinner.stop();
+        console.log(formatParseOutput(output, format));
+
+        // JSON output carries the diagnostics; rows have no place for them
+        const diagnostics = results.statements?.flatMap(result => result.diagnostics) ?? results.result!.diagnostics;
+        if (format !== 'json') {
+          diagnostics.forEach(diagnostic => console.error(formatDiagnostic(diagnostic)));
+        }
+        exitOnDiagnostics(diagnostics);
+        return;
       }
 
-      // Parse custom keywords if provided
-      let customKeywords: string[] | undefined;
-      if (options.customKeywords) {
-        customKeywords = options.customKeywords.split(',').map(k => k.trim()).filter(k => k.length > 0);
+      // Show the tables grouped by statement if requested
+      if (options.perStatement) {
+        const results = SqlTableExtractor.extractTableNamesByStatement(sql, extractionOptions);
+        spinner.succeed(`SQL parsed successfully (${results.length} statements)`);
+
+        results.forEach(({ statement, ...result }) => {
+          console.log(chalk.green(`\nStatement ${statement.index + 1} (line ${statement.line}):`));
+          const preview = statement.text.replace(/\s+/g, ' ').trim();
+          console.log(chalk.dim(`  ${preview.length > 80 ? preview.slice(0, 77) + '...' : preview}`));
+
+          if (result.allTables.length === 0) {
+            console.log(chalk.yellow('  No tables found'));
+          }
+          result.allTables.forEach(table => {
+            const modes = result.tableAccess[table];
+            const label = modes ? ` (${modes.join(', ')})` : result.filteredCTEs.includes(table) ? ' (CTE)' : '';
+            console.log(chalk.yellow(`  - ${table}`) + chalk.dim(label));
+          });
+          result.diagnostics.forEach(diagnostic => console.log(`  ${formatDiagnostic(diagnostic)}`));
+        });
+        exitOnDiagnostics(results.flatMap(result => result.diagnostics));
+        return;
       }
 
       // Extract table names
-      const result = SqlTableExtractor.extractTableNames(sql, {
-        knownTables,
-        filterCTEs: options.filterCtes && !!knownTables,
-        keywords,
-        customKeywords
-      });
+      const result = SqlTableExtractor.extractTableNames(sql, extractionOptions);
 
       spinner.succeed('SQL query parsed successfully');
 
       // Display results
       if (result.allTables.length === 0) {
         console.log(chalk.yellow('\nNo tables found in the query'));
+        printDiagnostics(result.diagnostics);
+        exitOnDiagnostics(result.diagnostics);
         return;
       }
 
       console.log(chalk.green(`\nTables found (${result.allTables.length}):`));
       result.allTables.forEach(table => {
-        console.log(chalk.yellow(`- ${table}`));
+        const modes = result.tableAccess[table];
+        console.log(chalk.yellow(`- ${table}`) + (modes ? chalk.dim(` (${modes.join(', ')})`) : ''));
       });
 
-      // Show filtered results if CTE filtering was enabled
-      if (options.filterCtes && knownTables) {
+      // Show real tables separately when CTEs or unknown tables were filtered out
+      if (result.filteredCTEs.length > 0 || result.unknownTables.length > 0) {
         if (result.realTables.length > 0) {
           console.log(chalk.green(`\nReal tables (${result.realTables.length}):`));
           result.realTables.forEach(table => {
@@ -150,6 +450,35 @@ program
             console.log(chalk.dim(`- ${table}`));
           });
         }
+
+        if (result.unknownTables.length > 0) {
+          console.log(chalk.red(`\nUnknown tables (${result.unknownTables.length}):`));
+          result.unknownTables.forEach(table => {
+            console.log(chalk.dim(`- ${table}`));
+          });
+        }
+      }
+
+      if (result.tableFunctions.length > 0) {
+        console.log(chalk.green(`\nTable functions (${result.tableFunctions.length}):`));
+        result.tableFunctions.forEach(call => {
+          const reads = call.argumentTables.length > 0 ? chalk.dim(` -> ${call.argumentTables.join(', ')}`) : '';
+          console.log(chalk.cyan(`- ${call.name}`) + (call.lateral ? chalk.dim(' (lateral)') : '') + reads);
+        });
+      }
+
+      printDiagnostics(result.diagnostics);
+
+      if (options.columns) {
+        const { columns } = extractColumnReferences(sql, extractionOptions);
+        console.log(chalk.green(`\nColumns found (${columns.length}):`));
+        columns.forEach(column => {
+          const owner = column.table ?? (column.ambiguous ? `ambiguous: ${column.candidates!.join(', ')}` : 'unresolved');
+          console.log(chalk.yellow(`- ${column.rawText}`) + chalk.dim(` (${column.clause}, ${column.access}) -> ${owner}`));
+          column.expandedColumns?.forEach(expanded => {
+            console.log(chalk.dim(`    ${expanded.table}.${expanded.name}${expanded.type ? ` ${expanded.type}` : ''}`));
+          });
+        });
       }
 
       if (options.verbose) {
@@ -173,6 +502,8 @@ program
           }
         }
       }
+
+      exitOnDiagnostics(result.diagnostics);
     } catch (error) {
       spinner.fail('Failed to parse SQL query');
       console.error(chalk.red('Error:'), error instanceof Error ? error.message : String(error));
@@ -180,6 +511,606 @@ program
     }
   });
 
+program
+  .command('scan')
+  .description('Parse every SQL file in directories or glob patterns and report the tables they use')
+  .argument('<paths...>', 'Files, directories or glob patterns (quote globs such as "models/**/*.sql")')
+  .option('-t, --known-tables <file>', 'Path to known tables: JSON, information_schema CSV or JSON, Metabase metadata or SQLite database')
+  .option('--ddl <files>', 'Comma-separated DDL files, directories or globs whose CREATE, ALTER and DROP statements build known tables')
+  .option('--filter-ctes', 'Also filter out references that are not in the known tables')
+  .option('-d, --dialect <name>', `SQL dialect (${getDialectNames().join(', ')})`)
+  .option('--format <format>', 'Output format (text, json)', 'text')
+  .option('--workers <count>', 'Number of files parsed in parallel', '1')
+  .option('--database <name>', 'Current database for resolving names without one')
+  .option('--search-path <schemas>', 'Comma-separated schemas searched in order for names without one')
+  .option('--default-schema <name>', 'Schema searched after the search path')
+  .option('--case-insensitive', 'Match known tables regardless of case')
+  .option('--template', 'Render dbt, Jinja and Metabase tags and bind parameters before parsing')
+  .option('--template-map <file>', 'JSON file mapping dbt refs and sources to tables and Metabase snippets to SQL (implies --template)')
+  .action(async (paths: string[], options: {
+    knownTables?: string;
+    ddl?: string;
+    filterCtes?: boolean;
+    dialect?: string;
+    format?: string;
+    workers?: string;
+    database?: string;
+    searchPath?: string;
+    defaultSchema?: string;
+    caseInsensitive?: boolean;
+    template?: boolean;
+    templateMap?: string;
+  }) => {
+    const format = (options.format ?? 'text').toLowerCase();
+    if (format !== 'text' && format !== 'json') {
+      console.error(chalk.red('Error:'), `Unknown format "${options.format}". Available formats: text, json`);
+      process.exit(1);
+    }
+    const workers = Number(options.workers);
+    if (!Number.isInteger(workers) || workers < 1) {
+      console.error(chalk.red('Error:'), `Invalid worker count "${options.workers}"`);
+      process.exit(1);
+    }
+
+    const machineReadable = format === 'json';
+    if (machineReadable) {
+      chalk.level = 0;
+    }
+    const spinner = ora({ text: 'Finding SQL files...', isSilent: machineReadable }).start();
+
+    try {
+      const dialect = resolveDialect(options, spinner);
+      const { knownTables } = loadKnownTablesOption(options, dialect, spinner);
+      const template = loadTemplateOption(options, spinner);
+
+      const files = findSqlFiles(paths);
+      if (files.length === 0) {
+        spinner.fail('No SQL files found');
+        process.exit(1);
+      }
+
+      spinner.text = `Scanning ${files.length} files...`;
+      const report = await scanFilesInParallel(files, {
+        knownTables,
+        filterCTEs: options.filterCtes && !!knownTables,
+        dialect,
+        currentDatabase: options.database,
+        searchPath: splitList(options.searchPath),
+        defaultSchema: options.defaultSchema,
+        caseInsensitive: options.caseInsensitive,
+        template
+      }, workers);
+      const { totals } = report;
+
+      if (machineReadable) {
+        spinner.stop();
+        console.log(JSON.stringify(report, null, 2));
+      } else {
+        spinner.succeed(`Scanned ${totals.files} files`);
+
+        console.log(chalk.green(`\nFiles (${totals.files}):`));
+        report.files.forEach(scanned => {
+          if (scanned.error !== undefined) {
+            console.log(chalk.red(`- ${scanned.file}: ${scanned.error}`));
+            return;
+          }
+          console.log(chalk.yellow(`- ${scanned.file}`) + chalk.dim(` (${scanned.statements} statements)`));
+          scanned.tables.forEach(table => {
+            const modes = scanned.tableAccess[table];
+            console.log(`    ${table}` + (modes ? chalk.dim(` (${modes.join(', ')})`) : ''));
+          });
+          scanned.diagnostics.forEach(diagnostic => console.log(`    ${formatDiagnostic(diagnostic)}`));
+        });
+
+        console.log(chalk.green(`\nTables (${totals.tables}):`));
+        Object.entries(report.tables)
+          .sort(([a], [b]) => a.localeCompare(b))
+          .forEach(([table, tableFiles]) => {
+            console.log(chalk.cyan(`- ${table}`) + chalk.dim(` (${tableFiles.length} files)`));
+            tableFiles.forEach(file => console.log(chalk.dim(`    ${file}`)));
+          });
+
+        console.log(chalk.green('\nTotals:'));
+        console.log(`  Files:       ${totals.files}`);
+        console.log(`  Failed:      ${totals.failedFiles}`);
+        console.log(`  Statements:  ${totals.statements}`);
+        console.log(`  Tables:      ${totals.tables}`);
+        console.log(`  Diagnostics: ${totals.diagnostics}`);
+      }
+
+      if (totals.failedFiles > 0) {
+        process.exit(1);
+      }
+    } catch (error) {
+      spinner.fail('Failed to scan SQL files');
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+program
+  .command('usage')
+  .description('Count the queries using each table in a query log')
+  .argument('<file>', 'Query log file, or - to read standard input')
+  .option('-l, --log-format <format>', `Log format (${QUERY_LOG_FORMATS.join(', ')})`, 'sql')
+  .option('--sql-field <field>', 'NDJSON field holding the SQL, with dots for nested fields', 'query')
+  .option('--query-column <name>', 'CSV column holding the SQL', 'query')
+  .option('-t, --known-tables <file>', 'Path to known tables: JSON, information_schema CSV or JSON, Metabase metadata or SQLite database')
+  .option('--filter-ctes', 'Also filter out references that are not in the known tables')
+  .option('-d, --dialect <name>', `SQL dialect (${getDialectNames().join(', ')})`)
+  .option('--format <format>', 'Output format (text, json)', 'text')
+  .option('--database <name>', 'Current database for resolving names without one')
+  .option('--search-path <schemas>', 'Comma-separated schemas searched in order for names without one')
+  .option('--default-schema <name>', 'Schema searched after the search path')
+  .option('--case-insensitive', 'Match known tables regardless of case')
+  .action((file: string, options: {
+    logFormat: string;
+    sqlField: string;
+    queryColumn: string;
+    knownTables?: string;
+    filterCtes?: boolean;
+    dialect?: string;
+    format?: string;
+    database?: string;
+    searchPath?: string;
+    defaultSchema?: string;
+    caseInsensitive?: boolean;
+  }) => {
+    const logFormat = options.logFormat.toLowerCase() as QueryLogFormat;
+    if (!QUERY_LOG_FORMATS.includes(logFormat)) {
+      console.error(chalk.red('Error:'), `Unknown log format "${options.logFormat}". Available formats: ${QUERY_LOG_FORMATS.join(', ')}`);
+      process.exit(1);
+    }
+    const format = (options.format ?? 'text').toLowerCase();
+    if (format !== 'text' && format !== 'json') {
+      console.error(chalk.red('Error:'), `Unknown format "${options.format}". Available formats: text, json`);
+      process.exit(1);
+    }
+
+    const machineReadable = format === 'json';
+    if (machineReadable) {
+      chalk.level = 0;
+    }
+    const spinner = ora({ text: 'Reading query log...', isSilent: machineReadable }).start();
+
+    try {
+      let text: string;
+      try {
+        text = file === '-' ? readStdin() : readFileSync(file, 'utf-8');
+      } catch (error) {
+        spinner.fail(`Failed to read file: ${file}`);
+        console.error(chalk.red('Error:'), error instanceof Error ? error.message : String(error));
+        process.exit(1);
+      }
+
+      const dialect = resolveDialect(options, spinner);
+      const { knownTables } = loadKnownTablesOption(options, dialect, spinner);
+      const { queries, errors } = readQueryLog(text, logFormat, {
+        field: options.sqlField,
+        column: options.queryColumn,
+        dialect
+      });
+
+      spinner.text = `Parsing ${queries.length} queries...`;
+      const usage = countTableUsage(queries, {
+        knownTables: knownTables && new TableCatalog(knownTables, { dialect, caseInsensitive: options.caseInsensitive }),
+        filterCTEs: options.filterCtes && !!knownTables,
+        dialect,
+        currentDatabase: options.database,
+        searchPath: splitList(options.searchPath),
+        defaultSchema: options.defaultSchema
+      });
+
+      if (machineReadable) {
+        spinner.stop();
+        console.log(JSON.stringify({ ...usage, errors }, null, 2));
+        return;
+      }
+
+      spinner.succeed(`Parsed ${usage.queries} queries`);
+      errors.forEach(error => console.log(chalk.red(`- line ${error.line}: ${error.message}`)));
+      if (usage.failedQueries > 0) {
+        console.log(chalk.red(`${usage.failedQueries} queries could not be parsed`));
+      }
+
+      const tables = Object.entries(usage.tables);
+      if (tables.length === 0) {
+        console.log(chalk.yellow('\nNo tables found in the log'));
+        return;
+      }
+      console.log(chalk.green(`\nTables (${tables.length}):`));
+      const width = Math.max(...tables.map(([, count]) => String(count).length));
+      tables.forEach(([table, count]) => {
+        console.log(`  ${chalk.cyan(String(count).padStart(width))}  ${table}`);
+      });
+    } catch (error) {
+      spinner.fail('Failed to read query log');
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+program
+  .command('stats')
+  .description('Report per-table usage statistics for the queries of a query log')
+  .argument('<file>', 'Query log file, or - to read standard input')
+  .option('-l, --log-format <format>', `Log format (${QUERY_LOG_FORMATS.join(', ')})`, 'sql')
+  .option('--sql-field <field>', 'NDJSON field holding the SQL, with dots for nested fields', 'query')
+  .option('--query-column <name>', 'CSV column holding the SQL', 'query')
+  .option('--timestamp-field <field>', 'NDJSON field or CSV column holding the query time')
+  .option('--user-field <field>', 'NDJSON field or CSV column holding the user')
+  .option('--top-joins <count>', 'Number of most joined tables shown per table', '5')
+  .option('-t, --known-tables <file>', 'Path to known tables: JSON, information_schema CSV or JSON, Metabase metadata or SQLite database (reports unused tables)')
+  .option('--filter-ctes', 'Also filter out references that are not in the known tables')
+  .option('-d, --dialect <name>', `SQL dialect (${getDialectNames().join(', ')})`)
+  .option('--format <format>', 'Output format (text, json)', 'text')
+  .option('--database <name>', 'Current database for resolving names without one')
+  .option('--search-path <schemas>', 'Comma-separated schemas searched in order for names without one')
+  .option('--default-schema <name>', 'Schema searched after the search path')
+  .option('--case-insensitive', 'Match known tables regardless of case')
+  .action((file: string, options: {
+    logFormat: string;
+    sqlField: string;
+    queryColumn: string;
+    timestampField?: string;
+    userField?: string;
+    topJoins: string;
+    knownTables?: string;
+    filterCtes?: boolean;
+    dialect?: string;
+    format?: string;
+    database?: string;
+    searchPath?: string;
+    defaultSchema?: string;
+    caseInsensitive?: boolean;
+  }) => {
+    const logFormat = options.logFormat.toLowerCase() as QueryLogFormat;
+    if (!QUERY_LOG_FORMATS.includes(logFormat)) {
+      console.error(chalk.red('Error:'), `Unknown log format "${options.logFormat}". Available formats: ${QUERY_LOG_FORMATS.join(', ')}`);
+      process.exit(1);
+    }
+    const format = (options.format ?? 'text').toLowerCase();
+    if (format !== 'text' && format !== 'json') {
+      console.error(chalk.red('Error:'), `Unknown format "${options.format}". Available formats: text, json`);
+      process.exit(1);
+    }
+    const topJoins = Number(options.topJoins);
+    if (!Number.isInteger(topJoins) || topJoins < 0) {
+      console.error(chalk.red('Error:'), `Invalid join count "${options.topJoins}"`);
+      process.exit(1);
+    }
+
+    const machineReadable = format === 'json';
+    if (machineReadable) {
+      chalk.level = 0;
+    }
+    const spinner = ora({ text: 'Reading query log...', isSilent: machineReadable }).start();
+
+    try {
+      let text: string;
+      try {
+        text = file === '-' ? readStdin() : readFileSync(file, 'utf-8');
+      } catch (error) {
+        spinner.fail(`Failed to read file: ${file}`);
+        console.error(chalk.red('Error:'), error instanceof Error ? error.message : String(error));
+        process.exit(1);
+      }
+
+      const dialect = resolveDialect(options, spinner);
+      const { knownTables } = loadKnownTablesOption(options, dialect, spinner);
+      const { queries, errors } = readQueryLog(text, logFormat, {
+        field: options.sqlField,
+        column: options.queryColumn,
+        timestampField: options.timestampField,
+        userField: options.userField,
+        dialect
+      });
+
+      spinner.text = `Parsing ${queries.length} queries...`;
+      const report = new TableUsageAggregator({
+        knownTables,
+        filterCTEs: options.filterCtes && !!knownTables,
+        dialect,
+        currentDatabase: options.database,
+        searchPath: splitList(options.searchPath),
+        defaultSchema: options.defaultSchema,
+        caseInsensitive: options.caseInsensitive,
+        topJoins
+      }).addAll(queries).getReport();
+
+      if (machineReadable) {
+        spinner.stop();
+        console.log(JSON.stringify({ ...report, errors }, null, 2));
+        return;
+      }
+
+      spinner.succeed(`Parsed ${report.queries} queries`);
+      errors.forEach(error => console.log(chalk.red(`- line ${error.line}: ${error.message}`)));
+      if (report.failedQueries > 0) {
+        console.log(chalk.red(`${report.failedQueries} queries could not be parsed`));
+      }
+
+      if (report.tables.length === 0) {
+        console.log(chalk.yellow('\nNo tables found in the log'));
+      } else {
+        console.log(chalk.green(`\nTables (${report.tables.length}):`));
+      }
+      report.tables.forEach(stats => {
+        console.log(chalk.yellow(`- ${stats.table}`) + chalk.dim(` (${stats.queries} queries: ${stats.reads} reads, ${stats.writes} writes)`));
+        if (stats.firstSeen !== undefined) {
+          console.log(chalk.dim(`    seen ${stats.firstSeen} to ${stats.lastSeen}`));
+        }
+        if (stats.users.length > 0) {
+          console.log(chalk.dim(`    users: ${stats.users.join(', ')}`));
+        }
+        if (stats.joinedWith.length > 0) {
+          console.log(chalk.dim(`    joined with: ${stats.joinedWith.map(joined => `${joined.table} (${joined.queries})`).join(', ')}`));
+        }
+      });
+
+      if (report.unusedTables.length > 0) {
+        console.log(chalk.magenta(`\nUnused known tables (${report.unusedTables.length}):`));
+        report.unusedTables.forEach(table => console.log(chalk.dim(`- ${table}`)));
+      }
+    } catch (error) {
+      spinner.fail('Failed to read query log');
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+program
+  .command('graph')
+  .description('Render the join graph of a query, or of SQL files merged into one graph')
+  .argument('<inputs...>', 'SQL query (or with --file: files, directories or glob patterns; - reads standard input)')
+  .option('-f, --file', 'Read SQL from files instead of the argument')
+  .option('-t, --known-tables <file>', 'Path to known tables: JSON, information_schema CSV or JSON, Metabase metadata or SQLite database')
+  .option('--filter-ctes', 'Also filter out references that are not in the known tables')
+  .option('-d, --dialect <name>', `SQL dialect (${getDialectNames().join(', ')})`)
+  .option('--format <format>', `Graph format (${JOIN_GRAPH_FORMATS.join(', ')})`, 'dot')
+  .option('--database <name>', 'Current database for resolving names without one')
+  .option('--search-path <schemas>', 'Comma-separated schemas searched in order for names without one')
+  .option('--default-schema <name>', 'Schema searched after the search path')
+  .option('--case-insensitive', 'Match known tables regardless of case')
+  .option('--template', 'Render dbt, Jinja and Metabase tags and bind parameters before parsing')
+  .option('--template-map <file>', 'JSON file mapping dbt refs and sources to tables and Metabase snippets to SQL (implies --template)')
+  .action((inputs: string[], options: {
+    file?: boolean;
+    knownTables?: string;
+    filterCtes?: boolean;
+    dialect?: string;
+    format?: string;
+    database?: string;
+    searchPath?: string;
+    defaultSchema?: string;
+    caseInsensitive?: boolean;
+    template?: boolean;
+    templateMap?: string;
+  }) => {
+    const format = (options.format ?? 'dot').toLowerCase() as JoinGraphFormat;
+    if (!JOIN_GRAPH_FORMATS.includes(format)) {
+      console.error(chalk.red('Error:'), `Unknown format "${options.format}". Available formats: ${JOIN_GRAPH_FORMATS.join(', ')}`);
+      process.exit(1);
+    }
+
+    // Every graph format is machine-readable: messages go to stderr only
+    chalk.level = 0;
+
+    try {
+      const dialect = resolveDialect(options);
+      const { knownTables } = loadKnownTablesOption(options, dialect);
+      const template = loadTemplateOption(options);
+
+      let sources: string[];
+      if (inputs.length === 1 && inputs[0] === '-') {
+        sources = [readStdin()];
+      } else if (options.file) {
+        const files = findSqlFiles(inputs);
+        if (files.length === 0) {
+          console.error(chalk.red('Error:'), 'No SQL files found');
+          process.exit(1);
+        }
+        sources = [];
+        for (const file of files) {
+          try {
+            sources.push(readFileSync(file, 'utf-8'));
+          } catch (error) {
+            console.error(chalk.yellow('Warning:'), `Skipping ${file}:`, error instanceof Error ? error.message : String(error));
+          }
+        }
+      } else {
+        sources = [inputs.join(' ')];
+      }
+
+      // Index the known tables once for all files
+      const extractionOptions = {
+        knownTables: knownTables && new TableCatalog(knownTables, { dialect, caseInsensitive: options.caseInsensitive }),
+        filterCTEs: options.filterCtes && !!knownTables,
+        dialect,
+        currentDatabase: options.database,
+        searchPath: splitList(options.searchPath),
+        defaultSchema: options.defaultSchema,
+        caseInsensitive: options.caseInsensitive,
+        template
+      };
+      const graph = mergeJoinGraphs(sources.map(sql => extractJoinGraph(sql, extractionOptions)));
+      console.log(formatJoinGraph(graph, format));
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+program
+  .command('lineage')
+  .description('Show which source tables feed the tables each statement writes')
+  .argument('<query>', 'SQL query to parse (or file path if using --file, or - to read standard input)')
+  .option('-f, --file', 'Read SQL from file instead of argument')
+  .option('-t, --known-tables <file>', 'Path to known tables: JSON, information_schema CSV or JSON, Metabase metadata or SQLite database')
+  .option('--filter-ctes', 'Also filter out references that are not in the known tables')
+  .option('-d, --dialect <name>', `SQL dialect (${getDialectNames().join(', ')})`)
+  .option('--format <format>', 'Output format (text, json, openlineage)', 'text')
+  .option('--namespace <namespace>', 'OpenLineage namespace of the datasets and jobs', 'default')
+  .option('--job-name <name>', 'OpenLineage job name; statements are numbered after it', 'sql')
+  .option('--database <name>', 'Current database for resolving names without one')
+  .option('--search-path <schemas>', 'Comma-separated schemas searched in order for names without one')
+  .option('--default-schema <name>', 'Schema searched after the search path')
+  .option('--case-insensitive', 'Match known tables regardless of case')
+  .option('--template', 'Render dbt, Jinja and Metabase tags and bind parameters before parsing')
+  .option('--template-map <file>', 'JSON file mapping dbt refs and sources to tables and Metabase snippets to SQL (implies --template)')
+  .action((queryOrPath: string, options: {
+    file?: boolean;
+    knownTables?: string;
+    filterCtes?: boolean;
+    dialect?: string;
+    format?: string;
+    namespace: string;
+    jobName: string;
+    database?: string;
+    searchPath?: string;
+    defaultSchema?: string;
+    caseInsensitive?: boolean;
+    template?: boolean;
+    templateMap?: string;
+  }) => {
+    const format = (options.format ?? 'text').toLowerCase();
+    if (format !== 'text' && format !== 'json' && format !== 'openlineage') {
+      console.error(chalk.red('Error:'), `Unknown format "${options.format}". Available formats: text, json, openlineage`);
+      process.exit(1);
+    }
+
+    const machineReadable = format !== 'text';
+    if (machineReadable) {
+      chalk.level = 0;
+    }
+    const spinner = ora({ text: 'Parsing SQL query...', isSilent: machineReadable }).start();
+
+    try {
+      let sql: string;
+      try {
+        sql = queryOrPath === '-' ? readStdin() : options.file ? readFileSync(queryOrPath, 'utf-8') : queryOrPath;
+      } catch (error) {
+        spinner.fail(`Failed to read file: ${queryOrPath}`);
+        console.error(chalk.red('Error:'), error instanceof Error ? error.message : String(error));
+        process.exit(1);
+      }
+
+      const dialect = resolveDialect(options, spinner);
+      const { knownTables } = loadKnownTablesOption(options, dialect, spinner);
+      const template = loadTemplateOption(options, spinner);
+
+      const lineage = extractLineage(sql, {
+        knownTables,
+        filterCTEs: options.filterCtes && !!knownTables,
+        dialect,
+        currentDatabase: options.database,
+        searchPath: splitList(options.searchPath),
+        defaultSchema: options.defaultSchema,
+        caseInsensitive: options.caseInsensitive,
+        template
+      });
+
+      if (format === 'json') {
+        spinner.stop();
+        console.log(JSON.stringify(lineage, null, 2));
+        return;
+      }
+      if (format === 'openlineage') {
+        spinner.stop();
+        console.log(JSON.stringify(toOpenLineageEvents(lineage, { namespace: options.namespace, jobName: options.jobName }), null, 2));
+        return;
+      }
+
+      spinner.succeed('Lineage extracted');
+      if (lineage.statements.length === 0) {
+        console.log(chalk.yellow('\nNo statement writes a table from other tables'));
+      }
+      lineage.statements.forEach(statement => {
+        console.log(chalk.green(`\nStatement ${statement.statementIndex + 1}:`));
+        statement.edges.forEach(edge => {
+          console.log(chalk.yellow(`- ${edge.target}`) + chalk.dim(` (${edge.operation})`) + ` <- ${edge.sources.join(', ')}`);
+        });
+      });
+    } catch (error) {
+      spinner.fail('Failed to extract lineage');
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+const catalogCommand = program
+  .command('catalog')
+  .description('Check and maintain known tables files');
+
+catalogCommand
+  .command('validate')
+  .description('Check a known tables JSON file and report every problem with its JSON path')
+  .argument('<file>', 'Known tables JSON file')
+  .option('--add-aliases', 'Add the missing short-name and schema-qualified keys and write the catalog to standard output or --output')
+  .option('-o, --output <file>', 'File to write the catalog with added keys to (may be the input file)')
+  .option('--format <format>', 'Report format (text, json)', 'text')
+  .option('--strict', 'Exit with a non-zero code on warnings as well as errors')
+  .action((file: string, options: {
+    addAliases?: boolean;
+    output?: string;
+    format?: string;
+    strict?: boolean;
+  }) => {
+    const format = (options.format ?? 'text').toLowerCase();
+    if (format !== 'text' && format !== 'json') {
+      console.error(chalk.red('Error:'), `Unknown format "${options.format}". Available formats: text, json`);
+      process.exit(1);
+    }
+    if (format === 'json') {
+      chalk.level = 0;
+    }
+
+    let data: unknown;
+    try {
+      data = JSON.parse(readFileSync(file, 'utf-8'));
+    } catch (error) {
+      console.error(chalk.red('Error:'), `Failed to read known tables file: ${file}:`, error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+
+    const result = validateCatalog(data, { addAliases: options.addAliases });
+    // The catalog takes standard output when written there, and the report moves to stderr
+    const catalogToStdout = options.addAliases && !options.output;
+    const report = catalogToStdout ? console.error : console.log;
+
+    if (format === 'json') {
+      const { valid, problems, addedKeys } = result;
+      report(JSON.stringify({ valid, problems, ...(options.addAliases && { addedKeys }) }, null, 2));
+    } else {
+      for (const problem of result.problems) {
+        const severity = problem.severity === 'error' ? chalk.red('error') : chalk.yellow('warning');
+        report(`- ${severity} ${problem.path}: ${problem.message}`);
+      }
+      const errors = result.problems.filter(problem => problem.severity === 'error').length;
+      const warnings = result.problems.length - errors;
+      const summary = `${file}: ${errors} errors, ${warnings} warnings`;
+      report(errors > 0 ? chalk.red(summary) : warnings > 0 ? chalk.yellow(summary) : chalk.green(summary));
+      if (options.addAliases) {
+        report(chalk.dim(`Added ${result.addedKeys.length} keys${result.addedKeys.length > 0 ? `: ${result.addedKeys.join(', ')}` : ''}`));
+      }
+    }
+
+    if (options.addAliases && typeof data === 'object' && data !== null) {
+      // Write the file as it was, invalid entries included, plus the added keys
+      const catalog = { ...data, ...Object.fromEntries(result.addedKeys.map(key => [key, result.knownTables.get(key)])) };
+      const json = JSON.stringify(catalog, null, 2) + '\n';
+      if (options.output) {
+        writeFileSync(options.output, json);
+      } else {
+        process.stdout.write(json);
+      }
+    }
+
+    if (!result.valid || (options.strict && result.problems.length > 0)) {
+      process.exit(1);
+    }
+  });
+
 program
   .command('demo')
   .description('Run test cases to demonstrate the parser')
@@ -283,7 +1214,26 @@ program
 program
   .command('keywords')
   .description('Show available SQL keywords')
-  .action(() => {
+  .option('-d, --dialect <name>', 'Show the keywords and syntax of a dialect profile')
+  .action((options: { dialect?: string }) => {
+    const dialect = resolveDialect(options);
+    if (dialect) {
+      console.log(chalk.blue.bold(`\n📋 ${dialect.displayName} keywords\n`));
+      dialect.keywords.forEach(k => console.log(`  - ${k}`));
+
+      console.log(chalk.yellow('\nSyntax:'));
+      console.log(`  Identifier quotes: ${dialect.identifierQuotes.map(q => q === '[' ? '[]' : q + q).join(' ')}`);
+      console.log(`  Unquoted names:    ${dialect.caseFolding === 'none' ? 'kept as written' : `folded to ${dialect.caseFolding} case`}`);
+      console.log(`  Name matching:     ${dialect.caseInsensitive ? 'case-insensitive' : 'case-sensitive'}`);
+      console.log(`  String prefixes:   ${dialect.strings.prefixes.join(', ') || 'none'}`);
+      console.log(`  Backslash escapes: ${dialect.strings.backslashEscapes ? 'yes' : 'no'}`);
+      console.log(`  "..." strings:     ${dialect.strings.doubleQuoted ? 'yes' : 'no'}`);
+      console.log(`  $$ strings:        ${dialect.strings.dollarQuoted ? 'yes' : 'no'}`);
+      console.log(`  Line comments:     ${dialect.comments.line.join(' ')}`);
+      console.log(`  Nested comments:   ${dialect.comments.nestedBlock ? 'yes' : 'no'}`);
+      return;
+    }
+
     console.log(chalk.blue.bold('\n📋 SQL Keywords Configuration\n'));
 
     console.log(chalk.yellow('Default keywords (commonly used):'));
@@ -299,6 +1249,8 @@ program
     }
 
     console.log(chalk.dim(`\nTotal available: ${allKeywords.length} keywords`));
+    console.log(chalk.dim(`Dialects: ${getDialectNames().join(', ')}`));
+    console.log(chalk.dim('Use keywords --dialect <name> to see the keywords of a dialect'));
     console.log(chalk.dim('Use --keywords to specify which keywords to use when parsing'));
     console.log(chalk.dim('Use --custom-keywords to add additional keywords beyond the defaults'));
   });
@@ -313,13 +1265,33 @@ program
     console.log(chalk.yellow('Usage:'));
     console.log('  sql-parser parse "SELECT * FROM users JOIN orders ON users.id = orders.user_id"');
     console.log('  sql-parser parse query.sql --file');
+    console.log('  sql-parser parse migration.sql --file --per-statement');
+    console.log('  sql-parser parse "SELECT name FROM users u JOIN teams t ON t.id = u.team_id" --columns --known-tables tables.json');
     console.log('  sql-parser parse "SELECT * FROM products" --verbose');
     console.log('  sql-parser parse "WITH cte AS (...) SELECT * FROM cte" --known-tables tables.json --filter-ctes');
     console.log('  sql-parser parse "MERGE INTO users" --keywords "MERGE INTO,USING"');
+    console.log('  sql-parser parse "SELECT * FROM `db`.`users` # note" --dialect mysql');
+    console.log('  sql-parser keywords --dialect snowflake');
+    console.log('  sql-parser parse query.sql --file --format json --known-tables tables.json');
+    console.log('  sql-parser scan "models/**/*.sql" --known-tables tables.json --workers 4');
+    console.log('  cat queries.log | sql-parser usage - --log-format postgres --known-tables tables.json');
+    console.log('  sql-parser stats queries.csv --log-format csv --known-tables tables.json');
+    console.log('  sql-parser graph "models/**/*.sql" --file --format mermaid');
+    console.log('  sql-parser lineage etl.sql --file --format openlineage --namespace postgres://db:5432');
+    console.log('  sql-parser scan models --template-map refs.json');
+    console.log('  sql-parser parse model.sql --file --template --dbt-manifest target/manifest.json');
+    console.log('  sql-parser scan queries --ddl migrations --dialect postgres --filter-ctes');
+    console.log('  sql-parser catalog validate tables.json --add-aliases --output tables.json');
     console.log('  sql-parser keywords\n');
 
     console.log(chalk.yellow('Commands:'));
     console.log('  parse <query>  Parse SQL query and extract table names');
+    console.log('  scan <paths>   Parse SQL files in directories or globs and report their tables');
+    console.log('  usage <file>   Count the queries using each table in a query log');
+    console.log('  stats <file>   Report per-table usage statistics for a query log');
+    console.log('  graph <inputs> Render the join graph of a query or of SQL files');
+    console.log('  lineage <query> Show the source tables feeding each written table');
+    console.log('  catalog validate <file> Check a known tables JSON file');
     console.log('  demo           Run test cases to demonstrate the parser');
     console.log('  keywords       Show available SQL keywords by database type');
     console.log('  help           Show this help message\n');
@@ -327,10 +1299,35 @@ program
     console.log(chalk.yellow('Options:'));
     console.log('  -f, --file                    Read SQL from file');
     console.log('  -v, --verbose                 Show verbose output');
-    console.log('  -t, --known-tables <file>     Path to JSON file containing known table definitions');
-    console.log('  --filter-ctes                 Filter out CTEs using known tables');
+    console.log('  -t, --known-tables <file>     Known tables JSON, information_schema CSV/JSON, Metabase metadata or SQLite file');
+    console.log('  --dbt-manifest <file>         dbt manifest.json whose models, sources, seeds and snapshots are known tables (parse)');
+    console.log('  --dbt-catalog <file>          dbt catalog.json with the columns of those tables (parse)');
+    console.log('  --ddl <files>                 DDL scripts whose CREATE, ALTER and DROP statements build known tables (parse, scan)');
+    console.log('  --filter-ctes                 Also filter out references not in the known tables');
     console.log('  --keywords <keywords>         Comma-separated list of SQL keywords to look for');
     console.log('  --custom-keywords <keywords>  Additional keywords to include');
+    console.log('  --per-statement               Show the tables of each statement separately');
+    console.log('  --columns                     Also show the columns referenced and their tables');
+    console.log('  -d, --dialect <name>          SQL dialect profile (postgres, mysql, snowflake...)');
+    console.log('  --format <format>             Output format: text, json, ndjson or csv (graph: dot, mermaid or json; lineage: text, json or openlineage)');
+    console.log('  --namespace <namespace>       OpenLineage namespace (lineage)');
+    console.log('  --job-name <name>             OpenLineage job name (lineage)');
+    console.log('  --database <name>             Current database for resolving names');
+    console.log('  --search-path <schemas>       Schemas searched in order for unqualified names');
+    console.log('  --default-schema <name>       Schema searched after the search path');
+    console.log('  --strict                      Exit non-zero when any diagnostic is reported');
+    console.log('  --case-insensitive            Match known tables regardless of case');
+    console.log('  --template                    Render dbt/Jinja/Metabase tags and bind parameters (parse, scan, graph, lineage)');
+    console.log('  --template-map <file>         JSON mapping of dbt refs, sources and Metabase snippets (implies --template)');
+    console.log('  --workers <count>             Files parsed in parallel (scan)');
+    console.log('  -l, --log-format <format>     Query log format: sql, ndjson, csv, postgres, mysql-general, mysql-slow (usage, stats)');
+    console.log('  --sql-field <field>           NDJSON field holding the SQL (usage, stats)');
+    console.log('  --query-column <name>         CSV column holding the SQL (usage, stats)');
+    console.log('  --timestamp-field <field>     Field or column holding the query time (stats)');
+    console.log('  --user-field <field>          Field or column holding the user (stats)');
+    console.log('  --top-joins <count>           Most joined tables shown per table (stats)');
+    console.log('  --add-aliases                 Add missing short-name and schema-qualified keys (catalog validate)');
+    console.log('  -o, --output <file>           File to write the catalog with added keys to (catalog validate)');
     console.log('  --version                     Show version number\n');
 
     console.log(chalk.dim('Examples:'));
@@ -365,7 +1362,61 @@ if (process.argv.length <= 2) {
 }
 
 // Export the main parser and types for library usage
-export { SqlTableExtractor, TableExtractionOptions, TableExtractionResult, TableMetadata } from './parser.js';
+export { SqlTableExtractor } from './parser.js';
+export type {
+  AliasTarget,
+  Diagnostic,
+  DiagnosticCode,
+  DiagnosticSeverity,
+  QueryScope,
+  StatementExtractionResult,
+  TableAccessMode,
+  TableColumn,
+  TableExtractionOptions,
+  TableExtractionResult,
+  TableMetadata,
+  TableReference,
+  TableResolutionContext
+} from './parser.js';
+export { TableCatalog } from './catalog.js';
+export type { TableCatalogOptions } from './catalog.js';
+export { validateCatalog } from './catalog-validation.js';
+export type { CatalogProblem, CatalogProblemSeverity, CatalogValidationOptions, CatalogValidationResult } from './catalog-validation.js';
+export { loadDbtManifest, loadDbtTemplateOptions } from './dbt.js';
+export type { DbtNodeInfo, DbtResourceType } from './dbt.js';
+export { catalogFromDdl } from './ddl.js';
+export type { DdlCatalogOptions } from './ddl.js';
+export { loadInformationSchema, loadInformationSchemaCsv, loadMetabaseMetadata, loadSqliteDatabase } from './importers.js';
+export { extractColumnReferences } from './columns.js';
+export type { ColumnClause, ColumnExtractionResult, ColumnReference, ExpandedColumn } from './columns.js';
+export { tokenize } from './lexer.js';
+export type { LexerOptions, SourcePosition, Token, TokenType } from './lexer.js';
+export { splitStatements } from './statements.js';
+export type { SqlStatement, StatementSplitOptions } from './statements.js';
+export { buildScanReport, findSqlFiles, scanFile, scanFiles } from './scan.js';
+export type { ScannedFile, ScanReport } from './scan.js';
+export { scanFilesInParallel } from './scan-worker.js';
+export { extractJoinGraph, formatJoinGraph, JOIN_GRAPH_FORMATS, mergeJoinGraphs } from './joins.js';
+export type { JoinCondition, JoinEdge, JoinGraph, JoinGraphFormat, JoinGraphNode, JoinType } from './joins.js';
+export { extractLineage, toOpenLineageEvents } from './lineage.js';
+export type {
+  LineageEdge,
+  LineageResult,
+  OpenLineageDataset,
+  OpenLineageOptions,
+  OpenLineageRunEvent,
+  StatementLineage
+} from './lineage.js';
+export { renderTemplate } from './templating.js';
+export type { RenderedTemplate, TemplateConstruct, TemplateConstructKind, TemplateOptions } from './templating.js';
+export { countTableUsage, QUERY_LOG_FORMATS, readQueryLog } from './query-logs.js';
+export { TableUsageAggregator } from './usage-stats.js';
+export type { JoinedTable, TableUsageOptions, TableUsageReport, TableUsageStats, UsageQuery } from './usage-stats.js';
+export type { LoggedQuery, QueryLogError, QueryLogFormat, QueryLogOptions, QueryLogReadResult, TableUsageCounts } from './query-logs.js';
+export { buildParseOutput, formatParseOutput, OUTPUT_FORMATS, OUTPUT_SCHEMA_VERSION, toTableRows } from './output.js';
+export type { OutputFormat, ParseOutput, TableOutputRow } from './output.js';
+export { getDialect, getDialectLexerOptions, getDialectNames, sqlDialects } from './dialects.js';
+export type { CaseFolding, SqlDialect, SqlDialectName } from './dialects.js';
 export { defaultSqlKeywords, getAllKeywords } from './sql-keywords-config.js';
 export type { SqlKeywordsConfig } from './sql-keywords-config.js';
 
@@ -0,0 +1,567 @@
+import { TableCatalog } from './catalog.js';
+import { getDialectLexerOptions } from './dialects.js';
+import { Token } from './lexer.js';
+import { QueryScope, SqlTableExtractor, TableExtractionOptions, TableReference } from './parser.js';
+import { splitTokenizedStatements } from './statements.js';
+import { renderExtractionTemplate } from './templating.js';
+
+/**
+ * How a table is joined. Comma-separated FROM items are CROSS joins; LATERAL
+ * is reported separately on the edge since it combines with the other types.
+ */
+export type JoinType = 'INNER' | 'LEFT' | 'RIGHT' | 'FULL' | 'CROSS' | 'CROSS APPLY' | 'OUTER APPLY';
+
+export type JoinGraphFormat = 'dot' | 'mermaid' | 'json';
+
+export const JOIN_GRAPH_FORMATS: JoinGraphFormat[] = ['dot', 'mermaid', 'json'];
+
+export interface JoinGraphNode {
+  /** Resolved table name, or the CTE name */
+  id: string;
+  kind: 'table' | 'cte';
+}
+
+/** An equality between a column of each side of a join: ON o.user_id = u.id */
+export interface JoinCondition {
+  /** Column of the edge's left table */
+  leftColumn: string;
+  /** Column of the edge's right (joined) table */
+  rightColumn: string;
+}
+
+export interface JoinEdge {
+  /** Node the table is joined to */
+  left: string;
+  /** Node of the joined table */
+  right: string;
+  joinType: JoinType;
+  /** Whether the joined item is LATERAL and may refer to the items before it */
+  lateral: boolean;
+  /** Column equalities of the ON condition linking the two tables */
+  on: JoinCondition[];
+  /** Columns of a USING clause */
+  using: string[];
+  /** Number of joins the edge stands for */
+  count: number;
+}
+
+export interface JoinGraph {
+  /** Tables and CTEs appearing in FROM clauses */
+  nodes: JoinGraphNode[];
+  /** Joins between them, from the table joined to, to the joined table */
+  edges: JoinEdge[];
+}
+
+/** A FROM item: a table, a derived table, a table function or a parenthesized join */
+interface FromItem {
+  /** Nodes the item stands for: its table, or the tables a derived table or nested join reads */
+  nodes: string[];
+  /** Nodes reachable through each name columns may qualify the item with, keyed in lower case */
+  names: Map<string, string[]>;
+}
+
+/** The join whose item and condition are being read */
+interface PendingJoin {
+  item: FromItem;
+  joinType: JoinType;
+  lateral: boolean;
+  /** Index of the ON keyword; the condition runs up to the token ending the join */
+  onIndex?: number;
+  using: string[];
+}
+
+interface FromFrame {
+  /** Whether the walk is in the frame's FROM list */
+  inFrom: boolean;
+  /** Items of the FROM list so far */
+  items: FromItem[];
+  join?: PendingJoin;
+  /** Set when the next token starts an item; joinType is undefined for the first item */
+  expecting?: { joinType?: JoinType; lateral: boolean };
+  /** Derived table or function item waiting for its alias after the closing parenthesis */
+  aliasTarget?: FromItem;
+  /** Item of the parent frame made of this parenthesized join */
+  group?: FromItem;
+}
+
+/** Table references and scopes of the statement being walked */
+interface StatementTables {
+  references: Map<number, TableReference>;
+  scopes: QueryScope[];
+  allReferences: TableReference[];
+}
+
+/** A qualified column of a join condition: the qualifier in lower case and the column */
+interface QualifiedColumn {
+  qualifier: string;
+  column: string;
+}
+
+/** Words that may precede JOIN or APPLY in a join operator */
+const JOIN_PREFIX_WORDS = new Set(['NATURAL', 'INNER', 'LEFT', 'RIGHT', 'FULL', 'CROSS', 'OUTER']);
+
+/** Keywords that end a FROM list */
+const FROM_END_WORDS = new Set([
+  'WHERE', 'GROUP', 'HAVING', 'ORDER', 'LIMIT', 'OFFSET', 'FETCH', 'QUALIFY', 'WINDOW', 'UNION',
+  'INTERSECT', 'EXCEPT', 'SELECT', 'SET', 'RETURNING', 'VALUES', 'INTO', 'WHEN', 'INSERT', 'DELETE',
+  'MERGE'
+]);
+
+/**
+ * Extract the join graph of a SQL script: the tables and CTEs of its FROM
+ * clauses and, for each join, the join type and the ON/USING columns linking
+ * the joined table to the tables before it. A join is attributed to the tables
+ * its ON condition compares columns with, or else to the FROM item just before
+ * it. Derived tables stand for the tables they read; table functions are left out.
+ */
+export function extractJoinGraph(sql: string, options: TableExtractionOptions = {}): JoinGraph {
+  if (options.template) {
+    return extractJoinGraph(renderExtractionTemplate(sql, options).sql, { ...options, template: undefined });
+  }
+  const knownTables = options.knownTables && TableCatalog.from(options.knownTables, { dialect: options.dialect, caseInsensitive: options.caseInsensitive });
+  const tableResults = SqlTableExtractor.extractTableNamesByStatement(sql, { ...options, knownTables });
+  const graph = new JoinGraphBuilder();
+
+  splitTokenizedStatements(sql, { lexer: getDialectLexerOptions(options.dialect) }).forEach((statement, index) => {
+    const { references, scopes } = tableResults[index];
+    const tokens = statement.tokens.filter(token => token.type !== 'comment');
+    walkFromClauses(tokens, {
+      references: new Map(references.map(reference => [reference.start, reference])),
+      scopes,
+      allReferences: references
+    }, graph);
+  });
+
+  return graph.build();
+}
+
+/**
+ * Merge join graphs, such as those of many files, into one. Edges with the
+ * same tables, join type and LATERAL flag are combined: their counts are added
+ * and their columns united.
+ */
+export function mergeJoinGraphs(graphs: Iterable<JoinGraph>): JoinGraph {
+  const builder = new JoinGraphBuilder();
+  for (const graph of graphs) {
+    graph.nodes.forEach(node => builder.addNode(node.id, node.kind));
+    graph.edges.forEach(edge => builder.addEdge(edge));
+  }
+  return builder.build();
+}
+
+/**
+ * Render a join graph as Graphviz DOT, a Mermaid flowchart or JSON
+ */
+export function formatJoinGraph(graph: JoinGraph, format: JoinGraphFormat): string {
+  switch (format) {
+    case 'dot':
+      return formatDot(graph);
+    case 'mermaid':
+      return formatMermaid(graph);
+    case 'json':
+      return JSON.stringify(graph, null, 2);
+    default:
+      throw new Error(`Unknown graph format "${format}". Available formats: ${JOIN_GRAPH_FORMATS.join(', ')}`);
+  }
+}
+
+/** Collects nodes and edges, merging repeated edges */
+class JoinGraphBuilder {
+  private readonly nodes = new Map<string, JoinGraphNode>();
+  private readonly edges = new Map<string, JoinEdge>();
+
+  addNode(id: string, kind: 'table' | 'cte'): void {
+    const node = this.nodes.get(id);
+    // A name that is a table anywhere is reported as a table
+    if (!node || (node.kind === 'cte' && kind === 'table')) {
+      this.nodes.set(id, { id, kind });
+    }
+  }
+
+  addEdge(edge: JoinEdge): void {
+    const key = [edge.left, edge.right, edge.joinType, edge.lateral].join('\u0000');
+    const existing = this.edges.get(key);
+    if (!existing) {
+      this.edges.set(key, { ...edge, on: [...edge.on], using: [...edge.using] });
+      return;
+    }
+
+    existing.count += edge.count;
+    for (const condition of edge.on) {
+      if (!existing.on.some(other => other.leftColumn === condition.leftColumn && other.rightColumn === condition.rightColumn)) {
+        existing.on.push(condition);
+      }
+    }
+    for (const column of edge.using) {
+      if (!existing.using.includes(column)) {
+        existing.using.push(column);
+      }
+    }
+  }
+
+  build(): JoinGraph {
+    return { nodes: Array.from(this.nodes.values()), edges: Array.from(this.edges.values()) };
+  }
+}
+
+/**
+ * Walk a statement's tokens, reading the FROM list of each parenthesized
+ * group, and add its tables and joins to the graph
+ */
+function walkFromClauses(tokens: Token[], tables: StatementTables, graph: JoinGraphBuilder): void {
+  const frames: FromFrame[] = [{ inFrom: false, items: [] }];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const frame = frames[frames.length - 1];
+
+    if (frame.expecting) {
+      // FROM ONLY t (PostgreSQL), JOIN LATERAL (...), , LATERAL f(...)
+      if (token.value === 'LATERAL' || token.value === 'ONLY') {
+        frame.expecting.lateral ||= token.value === 'LATERAL';
+        continue;
+      }
+      const item = startItem(tokens, i, tables, graph);
+      const { joinType, lateral } = frame.expecting;
+      frame.expecting = undefined;
+      if (joinType !== undefined) {
+        frame.join = { item, joinType, lateral, using: [] };
+      }
+      frame.items.push(item);
+
+      if (token.text === '(') {
+        const isSubquery = findSubqueryScope(tokens, i, tables) !== undefined;
+        frame.aliasTarget = isSubquery ? item : undefined;
+        frames.push(isSubquery
+          ? { inFrom: false, items: [] }
+          : { inFrom: true, items: [], expecting: { lateral: false }, group: item });
+      } else if (!tables.references.has(token.start)) {
+        // Table function or other item; its alias follows its arguments
+        frame.aliasTarget = item;
+      }
+      continue;
+    }
+
+    if (token.text === '(') {
+      frames.push({ inFrom: false, items: [] });
+      continue;
+    }
+
+    if (token.text === ')') {
+      if (frames.length > 1) {
+        endJoin(frame, tokens, i, graph);
+        frames.pop();
+        if (frame.group) {
+          for (const item of frame.items) {
+            frame.group.nodes.push(...item.nodes);
+            item.names.forEach((nodes, name) => frame.group!.names.set(name, nodes));
+          }
+        }
+      }
+      continue;
+    }
+
+    if (frame.aliasTarget) {
+      if (token.type === 'identifier' || token.type === 'quotedIdentifier') {
+        frame.aliasTarget.names.set(token.value.toLowerCase(), frame.aliasTarget.nodes);
+        frame.aliasTarget = undefined;
+        continue;
+      }
+      if (token.value !== 'AS') {
+        frame.aliasTarget = undefined;
+      }
+    }
+
+    // UPDATE a JOIN b ON ... SET (MySQL) lists its tables like a FROM clause
+    if (token.type === 'keyword' && ((token.value === 'FROM' && tokens[i - 1]?.value !== 'DISTINCT') ||
+        (token.value === 'UPDATE' && tokens[i - 1]?.text.toUpperCase() !== 'KEY'))) {
+      endJoin(frame, tokens, i, graph);
+      frame.inFrom = true;
+      frame.items = [];
+      frame.expecting = { lateral: false };
+      continue;
+    }
+
+    if (!frame.inFrom) {
+      continue;
+    }
+
+    if (token.text === ',') {
+      endJoin(frame, tokens, i, graph);
+      frame.expecting = { joinType: 'CROSS', lateral: false };
+      continue;
+    }
+
+    const operator = readJoinOperator(tokens, i);
+    if (operator) {
+      endJoin(frame, tokens, i, graph);
+      frame.expecting = { joinType: operator.joinType, lateral: false };
+      i = operator.end - 1;
+      continue;
+    }
+
+    if (token.type !== 'keyword') {
+      continue;
+    }
+
+    if (token.value === 'ON' && frame.join && frame.join.onIndex === undefined) {
+      frame.join.onIndex = i;
+    } else if (token.value === 'USING') {
+      if (tokens[i + 1]?.text === '(' && frame.join) {
+        // JOIN ... USING (a, b)
+        let j = i + 2;
+        for (; j < tokens.length && tokens[j].text !== ')'; j++) {
+          if (tokens[j].type === 'identifier' || tokens[j].type === 'quotedIdentifier') {
+            frame.join.using.push(tokens[j].value);
+          }
+        }
+        i = j;
+      } else {
+        // DELETE FROM t USING a, b joins like a comma list
+        endJoin(frame, tokens, i, graph);
+        frame.expecting = { joinType: 'CROSS', lateral: false };
+      }
+    } else if (FROM_END_WORDS.has(token.value)) {
+      endJoin(frame, tokens, i, graph);
+      frame.inFrom = false;
+    }
+  }
+
+  for (const frame of frames) {
+    endJoin(frame, tokens, tokens.length, graph);
+  }
+}
+
+/**
+ * Create the FROM item starting at tokens[index] and add its table to the graph
+ */
+function startItem(tokens: Token[], index: number, tables: StatementTables, graph: JoinGraphBuilder): FromItem {
+  const token = tokens[index];
+  const reference = tables.references.get(token.start);
+  if (reference) {
+    const node = reference.resolvedName;
+    graph.addNode(node, reference.isCTE ? 'cte' : 'table');
+    const names = new Map<string, string[]>();
+    if (reference.alias !== undefined) {
+      names.set(reference.alias.toLowerCase(), [node]);
+    } else {
+      const parts = reference.name.toLowerCase().split('.');
+      names.set(parts.join('.'), [node]);
+      names.set(parts[parts.length - 1], [node]);
+    }
+    return { nodes: [node], names };
+  }
+
+  if (token.text === '(') {
+    // A derived table stands for the tables its query reads directly
+    const scope = findSubqueryScope(tokens, index, tables);
+    const nodes = new Set<string>();
+    for (const other of tables.allReferences) {
+      if (other.scopeId === scope?.id && other.access === 'read') {
+        graph.addNode(other.resolvedName, other.isCTE ? 'cte' : 'table');
+        nodes.add(other.resolvedName);
+      }
+    }
+    return { nodes: Array.from(nodes), names: new Map() };
+  }
+
+  return { nodes: [], names: new Map() };
+}
+
+/**
+ * The query scope of a parenthesized subquery opening at tokens[index]
+ */
+function findSubqueryScope(tokens: Token[], index: number, tables: StatementTables): QueryScope | undefined {
+  const first = tokens[index + 1];
+  return first && tables.scopes.find(scope => scope.parentId !== undefined && scope.start === first.start);
+}
+
+/**
+ * Read a join operator ([NATURAL] [INNER | LEFT | RIGHT | FULL | CROSS] [OUTER]
+ * JOIN, CROSS APPLY, OUTER APPLY) starting at tokens[index]
+ */
+function readJoinOperator(tokens: Token[], index: number): { joinType: JoinType; end: number } | undefined {
+  const words: string[] = [];
+  let i = index;
+  while (tokens[i]?.type === 'keyword' && JOIN_PREFIX_WORDS.has(tokens[i].value)) {
+    words.push(tokens[i].value);
+    i++;
+  }
+
+  const last = tokens[i];
+  const isJoin = last?.value === 'JOIN' || last?.text.toUpperCase() === 'STRAIGHT_JOIN';
+  if (!isJoin && last?.value !== 'APPLY') {
+    return undefined;
+  }
+
+  let joinType: JoinType = 'INNER';
+  if (last.value === 'APPLY') {
+    joinType = words.includes('OUTER') ? 'OUTER APPLY' : 'CROSS APPLY';
+  } else if (words.includes('LEFT')) {
+    joinType = 'LEFT';
+  } else if (words.includes('RIGHT')) {
+    joinType = 'RIGHT';
+  } else if (words.includes('FULL')) {
+    joinType = 'FULL';
+  } else if (words.includes('CROSS')) {
+    joinType = 'CROSS';
+  }
+  return { joinType, end: i + 1 };
+}
+
+/**
+ * Add the edges of the frame's pending join, whose tokens end before tokens[end]
+ */
+function endJoin(frame: FromFrame, tokens: Token[], end: number, graph: JoinGraphBuilder): void {
+  const join = frame.join;
+  frame.join = undefined;
+  if (!join || join.item.nodes.length === 0) {
+    return;
+  }
+
+  const right = join.item;
+  const others = frame.items.slice(0, frame.items.indexOf(right));
+  const edges = new Map<string, JoinEdge>();
+  const edgeTo = (left: string, node: string): JoinEdge => {
+    const key = `${left}\u0000${node}`;
+    let edge = edges.get(key);
+    if (!edge) {
+      edge = { left, right: node, joinType: join.joinType, lateral: join.lateral, on: [], using: [], count: 1 };
+      edges.set(key, edge);
+    }
+    return edge;
+  };
+
+  const conditions = join.onIndex !== undefined ? readEqualities(tokens.slice(join.onIndex + 1, end)) : [];
+  for (const [a, b] of conditions) {
+    for (const [inner, outer] of [[a, b], [b, a]]) {
+      const rightNodes = right.names.get(inner.qualifier);
+      const leftNodes = rightNodes && findQualifiedNodes(outer.qualifier, others);
+      if (leftNodes) {
+        for (const left of leftNodes) {
+          for (const node of rightNodes) {
+            edgeTo(left, node).on.push({ leftColumn: outer.column, rightColumn: inner.column });
+          }
+        }
+        break;
+      }
+    }
+  }
+
+  // Without columns naming the other side, the item is joined to the one before it
+  if (edges.size === 0) {
+    const previous = [...others].reverse().find(item => item.nodes.length > 0);
+    for (const left of previous?.nodes ?? []) {
+      for (const node of right.nodes) {
+        edgeTo(left, node).using.push(...join.using);
+      }
+    }
+  }
+
+  edges.forEach(edge => graph.addEdge(edge));
+}
+
+/**
+ * Nodes of the latest item a qualifier names
+ */
+function findQualifiedNodes(qualifier: string, items: FromItem[]): string[] | undefined {
+  for (let i = items.length - 1; i >= 0; i--) {
+    const nodes = items[i].names.get(qualifier);
+    if (nodes) {
+      return nodes;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * The equalities between two qualified columns in a condition (a.x = b.y)
+ */
+function readEqualities(tokens: Token[]): [QualifiedColumn, QualifiedColumn][] {
+  const found: [QualifiedColumn, QualifiedColumn][] = [];
+  tokens.forEach((token, index) => {
+    if (token.text !== '=') {
+      return;
+    }
+    const left = readQualifiedColumn(tokens, index - 1, -1);
+    const right = readQualifiedColumn(tokens, index + 1, 1);
+    if (left && right && tokens[right.next]?.text !== '(') {
+      found.push([left, right]);
+    }
+  });
+  return found;
+}
+
+/**
+ * Read a dotted column name starting at tokens[index], walking forward or
+ * backward. Returns undefined unless the name has a qualifier.
+ */
+function readQualifiedColumn(tokens: Token[], index: number, step: 1 | -1): QualifiedColumn & { next: number } | undefined {
+  const parts: string[] = [];
+  let i = index;
+  while (tokens[i] && (tokens[i].type === 'identifier' || tokens[i].type === 'quotedIdentifier' || tokens[i].type === 'keyword')) {
+    parts.push(tokens[i].value);
+    if (tokens[i + step]?.text !== '.') {
+      break;
+    }
+    i += 2 * step;
+  }
+  if (parts.length < 2 || tokens[index].type === 'keyword') {
+    return undefined;
+  }
+
+  if (step === -1) {
+    parts.reverse();
+  }
+  return {
+    qualifier: parts.slice(0, -1).join('.').toLowerCase(),
+    column: parts[parts.length - 1],
+    next: i + step
+  };
+}
+
+/**
+ * The label of an edge: its join type followed by its columns
+ */
+function edgeLabelLines(edge: JoinEdge): string[] {
+  const type = edge.joinType.endsWith('APPLY') ? edge.joinType : `${edge.joinType} JOIN`;
+  const lines = [edge.lateral ? `${type} LATERAL` : type];
+  edge.on.forEach(condition => lines.push(`${condition.leftColumn} = ${condition.rightColumn}`));
+  if (edge.using.length > 0) {
+    lines.push(`USING (${edge.using.join(', ')})`);
+  }
+  if (edge.count > 1) {
+    lines.push(`${edge.count} joins`);
+  }
+  return lines;
+}
+
+function formatDot(graph: JoinGraph): string {
+  const quote = (text: string) => `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+  const lines = ['digraph joins {', '  rankdir=LR;', '  node [shape=box];'];
+  for (const node of graph.nodes) {
+    lines.push(`  ${quote(node.id)}${node.kind === 'cte' ? ' [style=dashed]' : ''};`);
+  }
+  for (const edge of graph.edges) {
+    const label = edgeLabelLines(edge).map(line => quote(line).slice(1, -1)).join('\\n');
+    lines.push(`  ${quote(edge.left)} -> ${quote(edge.right)} [label="${label}"];`);
+  }
+  lines.push('}');
+  return lines.join('\n');
+}
+
+function formatMermaid(graph: JoinGraph): string {
+  // Mermaid ids are plain words, so nodes are numbered and labeled with their names
+  const escape = (text: string) => text.replace(/"/g, '#quot;');
+  const ids = new Map(graph.nodes.map((node, index) => [node.id, `n${index}`]));
+  const lines = ['flowchart LR'];
+  for (const node of graph.nodes) {
+    const label = `"${escape(node.id)}"`;
+    lines.push(`  ${ids.get(node.id)}${node.kind === 'cte' ? `([${label}])` : `[${label}]`}`);
+  }
+  for (const edge of graph.edges) {
+    const label = edgeLabelLines(edge).map(escape).join('<br/>');
+    lines.push(`  ${ids.get(edge.left)} -->|"${label}"| ${ids.get(edge.right)}`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,14 @@
+/**
+ * Whether a parsed JSON value is an object, as opposed to an array, a
+ * primitive or null
+ */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * A parsed JSON value if it is a non-empty string
+ */
+export function stringOf(value: unknown): string | undefined {
+  return typeof value === 'string' && value.length > 0 ? value : undefined;
+}
@@ -0,0 +1,370 @@
+export type TokenType =
+  | 'keyword'
+  | 'identifier'
+  | 'quotedIdentifier'
+  | 'string'
+  | 'number'
+  | 'operator'
+  | 'punctuation'
+  | 'comment';
+
+export interface Token {
+  /** Kind of token */
+  type: TokenType;
+  /** The token exactly as written in the source */
+  text: string;
+  /**
+   * Normalized value: upper-cased for keywords, unquoted/unescaped content for
+   * quoted identifiers and strings, the raw text otherwise
+   */
+  value: string;
+  /** Offset of the first character in the original SQL */
+  start: number;
+  /** Offset just past the last character in the original SQL */
+  end: number;
+  /** Set on strings, block comments and quoted identifiers missing their closing delimiter */
+  unterminated?: true;
+}
+
+export interface LexerOptions {
+  /** Whether block comments nest, as in PostgreSQL (default: false) */
+  nestedBlockComments?: boolean;
+  /** Whether $$...$$ and $tag$...$tag$ are string literals (default: true) */
+  dollarQuotedStrings?: boolean;
+  /** Markers starting a comment that runs to the end of the line (default: ['--']) */
+  lineComments?: string[];
+  /** Characters opening a quoted identifier, among '"', '`' and '[' (default: all three) */
+  identifierQuotes?: string[];
+  /** Whether "..." is a string literal rather than a quoted identifier, as in MySQL (default: false) */
+  doubleQuotedStrings?: boolean;
+  /** Whether backslash escapes apply in all string literals rather than only E'...' (default: false) */
+  backslashEscapes?: boolean;
+  /** Letters that may prefix a string literal (default: E, N, X, B) */
+  stringPrefixes?: string[];
+}
+
+export interface SourcePosition {
+  /** 1-based line */
+  line: number;
+  /** 1-based column */
+  column: number;
+}
+
+/**
+ * Words the lexer reports as `keyword` tokens. Anything else that looks like
+ * a word is an `identifier`; consumers decide whether a keyword can still be
+ * used as a name in a given position.
+ */
+const RESERVED_WORDS = new Set([
+  'ALL', 'ALTER', 'AND', 'ANY', 'APPLY', 'AS', 'ASC', 'BEGIN', 'BETWEEN', 'BY',
+  'CALL', 'CASE', 'CAST', 'COPY', 'CREATE', 'CROSS', 'CURRENT', 'DEFAULT',
+  'DELETE', 'DESC', 'DISTINCT', 'DROP', 'ELSE', 'END', 'EXCEPT', 'EXECUTE',
+  'EXISTS', 'FETCH', 'FILTER', 'FOR', 'FROM', 'FULL', 'GROUP', 'HAVING', 'IF',
+  'IN', 'INNER', 'INSERT', 'INTERSECT', 'INTERVAL', 'INTO', 'IS', 'JOIN',
+  'LATERAL', 'LEFT', 'LIKE', 'LIMIT', 'MERGE', 'NATURAL', 'NOT', 'NULL',
+  'OFFSET', 'ON', 'ONLY', 'OR', 'ORDER', 'OUTER', 'OVER', 'PARTITION',
+  'QUALIFY', 'RECURSIVE', 'REPLACE', 'RETURNING', 'RIGHT', 'SELECT', 'SET',
+  'TABLE', 'THEN', 'TRUNCATE', 'UNION', 'UPDATE', 'UPSERT', 'USING', 'VALUES',
+  'VIEW', 'WHEN', 'WHERE', 'WINDOW', 'WITH'
+]);
+
+const MULTI_CHAR_OPERATORS = [
+  '->>', '<=>', '::', '||', '<=', '>=', '<>', '!=', '=>', '->', ':=', '**'
+];
+
+const OPERATOR_CHARS = new Set(['+', '-', '*', '/', '%', '=', '<', '>', '!', '|', '&', '^', '~', ':', '?', '@', '#', '$']);
+
+const PUNCTUATION_CHARS = new Set(['(', ')', ',', ';', '.', '[', ']', '{', '}']);
+
+/** String literal prefixes: E'' (escape), N'' (national), X'' / B'' (binary) */
+const DEFAULT_STRING_PREFIXES = ['E', 'N', 'X', 'B'];
+
+const isIdentifierStart = (char: string | undefined): boolean =>
+  char !== undefined && /[\p{L}_]/u.test(char);
+
+const isIdentifierPart = (char: string | undefined): boolean =>
+  char !== undefined && /[\p{L}\p{N}_$@#]/u.test(char);
+
+const isDigit = (char: string | undefined): boolean =>
+  char !== undefined && char >= '0' && char <= '9';
+
+/**
+ * Split SQL into typed tokens. Whitespace is dropped; every other character
+ * of the input belongs to exactly one token, so `start`/`end` always map
+ * back to the original text. The lexer never throws: unterminated strings,
+ * comments and quoted identifiers simply run to the end of the input and are
+ * flagged as `unterminated`.
+ */
+export function tokenize(sql: string, options: LexerOptions = {}): Token[] {
+  const {
+    nestedBlockComments = false,
+    dollarQuotedStrings = true,
+    lineComments = ['--'],
+    doubleQuotedStrings = false,
+    backslashEscapes = false
+  } = options;
+  const identifierQuotes = new Set(options.identifierQuotes ?? ['"', '`', '[']);
+  const stringPrefixes = new Set((options.stringPrefixes ?? DEFAULT_STRING_PREFIXES).map(prefix => prefix.toUpperCase()));
+  const tokens: Token[] = [];
+  let i = 0;
+
+  const push = (type: TokenType, start: number, end: number, value?: string, terminated = true) => {
+    const text = sql.slice(start, end);
+    tokens.push({ type, text, value: value ?? text, start, end, ...(!terminated && { unterminated: true as const }) });
+  };
+
+  while (i < sql.length) {
+    const char = sql[i];
+    const nextChar = sql[i + 1];
+    const start = i;
+    const previous = tokens[tokens.length - 1];
+    const adjacentToPrevious = previous !== undefined && previous.end === i;
+
+    // Whitespace
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    // Single-line comments (-- comment, and # or // in some dialects)
+    if (lineComments.some(marker => sql.startsWith(marker, i))) {
+      while (i < sql.length && sql[i] !== '\n') {
+        i++;
+      }
+      push('comment', start, i);
+      continue;
+    }
+
+    // Multi-line comments (/* comment */)
+    if (char === '/' && nextChar === '*') {
+      const { end, terminated } = skipBlockComment(sql, i, nestedBlockComments);
+      i = end;
+      push('comment', start, i, undefined, terminated);
+      continue;
+    }
+
+    // Prefixed string literals (E'...', N'...', X'...', B'...'); R'...' is raw
+    if (stringPrefixes.has(char.toUpperCase()) && nextChar === "'") {
+      const prefix = char.toUpperCase();
+      const escapes = prefix === 'E' || (backslashEscapes && prefix !== 'R');
+      const { end, value, terminated } = readQuoted(sql, i + 1, "'", "'", escapes);
+      i = end;
+      push('string', start, i, value, terminated);
+      continue;
+    }
+
+    // Single-quoted strings
+    if (char === "'" || (char === '"' && doubleQuotedStrings)) {
+      const { end, value, terminated } = readQuoted(sql, i, char, char, backslashEscapes);
+      i = end;
+      push('string', start, i, value, terminated);
+      continue;
+    }
+
+    // Dollar-quoted strings ($$...$$ or $tag$...$tag$)
+    if (char === '$' && dollarQuotedStrings) {
+      const tagMatch = /^\$([A-Za-z_][A-Za-z0-9_]*)?\$/.exec(sql.slice(i));
+      if (tagMatch) {
+        const tag = tagMatch[0];
+        const bodyStart = i + tag.length;
+        const closing = sql.indexOf(tag, bodyStart);
+        i = closing === -1 ? sql.length : closing + tag.length;
+        push('string', start, i, sql.slice(bodyStart, closing === -1 ? sql.length : closing), closing !== -1);
+        continue;
+      }
+    }
+
+    // Quoted identifiers ("name", `name`)
+    if ((char === '"' || char === '`') && identifierQuotes.has(char)) {
+      const { end, value, terminated } = readQuoted(sql, i, char, char, false);
+      i = end;
+      push('quotedIdentifier', start, i, value, terminated);
+      continue;
+    }
+
+    // Bracketed identifiers ([name]), unless this is an array subscript like arr[1]
+    if (char === '[' && identifierQuotes.has('[')) {
+      const isSubscript = adjacentToPrevious &&
+        (previous.type === 'identifier' || previous.type === 'keyword' ||
+         previous.text === ']' || previous.text === ')');
+
+      if (!isSubscript) {
+        const { end, value, terminated } = readQuoted(sql, i, '[', ']', false);
+        i = end;
+        push('quotedIdentifier', start, i, value, terminated);
+        continue;
+      }
+    }
+
+    // Numbers (42, 3.14, .5, 1e10, 0x1F), but not the part after a dot in schema.2023_t
+    const followsDot = adjacentToPrevious && previous.text === '.';
+    const followsName = adjacentToPrevious &&
+      (previous.type === 'identifier' || previous.type === 'quotedIdentifier');
+    if ((isDigit(char) && !followsDot) || (char === '.' && isDigit(nextChar) && !followsName)) {
+      const numberMatch = /^(?:0x[0-9a-f]+|(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)/i.exec(sql.slice(i))!;
+      const end = i + numberMatch[0].length;
+
+      // Words that merely start with digits (e.g. 2023_sales) are identifiers
+      if (isIdentifierPart(sql[end]) && !sql[end].match(/[$@#]/)) {
+        i = end;
+        while (isIdentifierPart(sql[i])) {
+          i++;
+        }
+        push('identifier', start, i);
+        continue;
+      }
+
+      i = end;
+      push('number', start, i);
+      continue;
+    }
+
+    // Words: keywords and identifiers, including @variables and #temp tables
+    if (isIdentifierStart(char) || (isDigit(char) && followsDot) ||
+        ((char === '@' || char === '#') && (isIdentifierPart(nextChar)))) {
+      i++;
+      while (isIdentifierPart(sql[i])) {
+        i++;
+      }
+      const word = sql.slice(start, i);
+      const upper = word.toUpperCase();
+      if (RESERVED_WORDS.has(upper)) {
+        push('keyword', start, i, upper);
+      } else {
+        push('identifier', start, i);
+      }
+      continue;
+    }
+
+    if (PUNCTUATION_CHARS.has(char)) {
+      i++;
+      push('punctuation', start, i);
+      continue;
+    }
+
+    const operator = MULTI_CHAR_OPERATORS.find(op => sql.startsWith(op, i));
+    if (operator) {
+      i += operator.length;
+      push('operator', start, i);
+      continue;
+    }
+
+    if (OPERATOR_CHARS.has(char)) {
+      i++;
+      push('operator', start, i);
+      continue;
+    }
+
+    // Anything else is kept as a single-character operator so offsets stay contiguous
+    i++;
+    push('operator', start, i);
+  }
+
+  return tokens;
+}
+
+/**
+ * Build a function mapping offsets in the SQL to 1-based line and column
+ */
+export function createPositionLookup(sql: string): (offset: number) => SourcePosition {
+  const lineStarts = [0];
+  for (let i = 0; i < sql.length; i++) {
+    if (sql[i] === '\n') {
+      lineStarts.push(i + 1);
+    }
+  }
+
+  return (offset: number) => {
+    // Binary search for the last line starting at or before the offset
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (lineStarts[mid] <= offset) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return { line: low + 1, column: offset - lineStarts[low] + 1 };
+  };
+}
+
+/**
+ * Check whether a word is reported as a keyword by the lexer
+ */
+export function isReservedWord(word: string): boolean {
+  return RESERVED_WORDS.has(word.toUpperCase());
+}
+
+/**
+ * Read a quoted section starting at `start` (the opening quote). A doubled
+ * closing quote is an escaped quote. Returns the offset just past the closing
+ * quote (or the end of input), the unescaped content and whether the closing
+ * quote was found.
+ */
+function readQuoted(
+  sql: string,
+  start: number,
+  open: string,
+  close: string,
+  backslashEscapes: boolean
+): { end: number; value: string; terminated: boolean } {
+  let i = start + open.length;
+  let value = '';
+
+  while (i < sql.length) {
+    const char = sql[i];
+
+    if (backslashEscapes && char === '\\' && i + 1 < sql.length) {
+      value += sql[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (char === close) {
+      if (sql[i + 1] === close) {
+        // Escaped quote, keep one
+        value += close;
+        i += 2;
+        continue;
+      }
+      return { end: i + 1, value, terminated: true };
+    }
+
+    value += char;
+    i++;
+  }
+
+  return { end: sql.length, value, terminated: false };
+}
+
+/**
+ * Return the offset just past a block comment starting at `start`, and whether
+ * the comment was closed
+ */
+function skipBlockComment(sql: string, start: number, nested: boolean): { end: number; terminated: boolean } {
+  let depth = 0;
+  let i = start;
+
+  while (i < sql.length) {
+    if (sql[i] === '/' && sql[i + 1] === '*') {
+      if (depth === 0 || nested) {
+        depth++;
+      }
+      i += 2;
+      continue;
+    }
+    if (sql[i] === '*' && sql[i + 1] === '/') {
+      depth--;
+      i += 2;
+      if (depth === 0) {
+        return { end: i, terminated: true };
+      }
+      continue;
+    }
+    i++;
+  }
+
+  return { end: sql.length, terminated: false };
+}
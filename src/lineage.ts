@@ -0,0 +1,332 @@
+import { randomUUID } from 'crypto';
+import { TableCatalog } from './catalog.js';
+import { getDialectLexerOptions } from './dialects.js';
+import { Token } from './lexer.js';
+import { SqlTableExtractor, TableAccessMode, TableExtractionOptions, TableReference } from './parser.js';
+import { splitTokenizedStatements } from './statements.js';
+import { renderExtractionTemplate } from './templating.js';
+
+/** A table (or COPY location) and the tables feeding it in one statement */
+export interface LineageEdge {
+  /** Table written, or the location a COPY INTO unloads to */
+  target: string;
+  /** How the statement writes the target */
+  operation: TableAccessMode;
+  /** Real tables and COPY locations whose rows feed the target; CTEs are replaced by the tables they read */
+  sources: string[];
+}
+
+export interface StatementLineage {
+  /** Index of the statement in the script */
+  statementIndex: number;
+  /** The statement text */
+  sql: string;
+  edges: LineageEdge[];
+}
+
+export interface LineageResult {
+  /** Statements writing tables from other tables, in script order */
+  statements: StatementLineage[];
+}
+
+export interface OpenLineageOptions {
+  /** Namespace of the datasets, such as postgres://db.example.com:5432 */
+  namespace: string;
+  /** Namespace of the jobs (default: the dataset namespace) */
+  jobNamespace?: string;
+  /** Name of the job; each statement's job is named after it with the statement number (default: 'sql') */
+  jobName?: string;
+  /** Time of the events (default: now) */
+  eventTime?: Date;
+  /** URI identifying the producer of the events */
+  producer?: string;
+}
+
+export interface OpenLineageDataset {
+  namespace: string;
+  name: string;
+}
+
+/** An OpenLineage RunEvent describing one statement */
+export interface OpenLineageRunEvent {
+  eventType: 'COMPLETE';
+  eventTime: string;
+  producer: string;
+  schemaURL: string;
+  run: { runId: string };
+  job: {
+    namespace: string;
+    name: string;
+    facets: { sql: { _producer: string; _schemaURL: string; query: string } };
+  };
+  inputs: OpenLineageDataset[];
+  outputs: OpenLineageDataset[];
+}
+
+/** The body of a CTE definition and where its name can be referenced */
+interface CteBody {
+  name: string;
+  /** Offsets of the definition's query, inside its parentheses */
+  start: number;
+  end: number;
+  /** Offsets of the part of the statement the name is visible in */
+  visibleFrom: number;
+  visibleTo: number;
+}
+
+/** Table accesses that write rows taken from other tables */
+const TARGET_ACCESS = new Set<TableAccessMode>(['insert', 'update', 'merge', 'create']);
+
+const OPENLINEAGE_SCHEMA_URL = 'https://openlineage.io/spec/2-0-2/OpenLineage.json#/$defs/RunEvent';
+
+const SQL_FACET_SCHEMA_URL = 'https://openlineage.io/spec/facets/1-0-1/SQLJobFacet.json#/$defs/SQLJobFacet';
+
+const DEFAULT_PRODUCER = 'https://www.npmjs.com/package/sql-tables-parser';
+
+/** Locations such as s3://bucket/path, split into the OpenLineage namespace and name */
+const LOCATION_PATTERN = /^([a-z][a-z0-9+.-]*:\/\/[^/]*)\/?(.*)$/i;
+
+/**
+ * Extract table-level lineage: for each statement writing a table (INSERT ...
+ * SELECT, CREATE TABLE ... AS, SELECT ... INTO, UPDATE ... FROM, MERGE, COPY
+ * INTO), the target and the tables it reads. CTEs are inlined: a CTE source
+ * is replaced by the tables its definition reads, recursively, so sources are
+ * always real tables. CTEs that are defined but not used do not count.
+ * Templated SQL is reported as rendered.
+ */
+export function extractLineage(sql: string, options: TableExtractionOptions = {}): LineageResult {
+  if (options.template) {
+    return extractLineage(renderExtractionTemplate(sql, options).sql, { ...options, template: undefined });
+  }
+  const knownTables = options.knownTables && TableCatalog.from(options.knownTables, { dialect: options.dialect, caseInsensitive: options.caseInsensitive });
+  const tableResults = SqlTableExtractor.extractTableNamesByStatement(sql, { ...options, knownTables });
+  const statements: StatementLineage[] = [];
+
+  splitTokenizedStatements(sql, { lexer: getDialectLexerOptions(options.dialect) }).forEach((statement, index) => {
+    const { references } = tableResults[index];
+    const tokens = statement.tokens.filter(token => token.type !== 'comment');
+    const bodies = findCteBodies(tokens, statement.end);
+    const copy = readCopyLocations(tokens);
+
+    const edges: LineageEdge[] = [];
+    const addEdge = (target: string, operation: TableAccessMode, sources: string[]) => {
+      if (sources.length > 0) {
+        edges.push({ target, operation, sources });
+      }
+    };
+
+    for (const reference of references) {
+      if (TARGET_ACCESS.has(reference.access) && !reference.isCTE) {
+        const sources = readSources(ownerOf(reference.start, bodies), references, bodies);
+        addEdge(reference.resolvedName, reference.access, [...sources, ...copy.sources]);
+      }
+    }
+    if (copy.target !== undefined) {
+      addEdge(copy.target, 'insert', readSources(undefined, references, bodies));
+    }
+
+    if (edges.length > 0) {
+      statements.push({ statementIndex: statement.index, sql: statement.text, edges });
+    }
+  });
+
+  return { statements };
+}
+
+/**
+ * Convert lineage to OpenLineage RunEvents, one per statement, with the
+ * statement's sources as inputs and its targets as outputs. Locations with a
+ * scheme (s3://bucket/path) become datasets in their own namespace.
+ */
+export function toOpenLineageEvents(lineage: LineageResult, options: OpenLineageOptions): OpenLineageRunEvent[] {
+  const producer = options.producer ?? DEFAULT_PRODUCER;
+  const eventTime = (options.eventTime ?? new Date()).toISOString();
+  const toDataset = (name: string): OpenLineageDataset => {
+    const location = LOCATION_PATTERN.exec(name);
+    return location ? { namespace: location[1], name: location[2] } : { namespace: options.namespace, name };
+  };
+  const uniqueDatasets = (names: string[]) => Array.from(new Set(names)).map(toDataset);
+
+  return lineage.statements.map(statement => ({
+    eventType: 'COMPLETE',
+    eventTime,
+    producer,
+    schemaURL: OPENLINEAGE_SCHEMA_URL,
+    run: { runId: randomUUID() },
+    job: {
+      namespace: options.jobNamespace ?? options.namespace,
+      name: `${options.jobName ?? 'sql'}.${statement.statementIndex + 1}`,
+      facets: { sql: { _producer: producer, _schemaURL: SQL_FACET_SCHEMA_URL, query: statement.sql } }
+    },
+    inputs: uniqueDatasets(statement.edges.flatMap(edge => edge.sources)),
+    outputs: uniqueDatasets(statement.edges.map(edge => edge.target))
+  }));
+}
+
+/**
+ * The real tables read by a CTE body, or by the statement outside all CTE
+ * bodies when `owner` is undefined, following the CTEs it uses
+ */
+function readSources(owner: CteBody | undefined, references: TableReference[], bodies: CteBody[], visited = new Set<CteBody>()): string[] {
+  const sources = new Set<string>();
+  if (owner) {
+    visited.add(owner);
+  }
+
+  for (const reference of references) {
+    if (reference.access !== 'read' || ownerOf(reference.start, bodies) !== owner) {
+      continue;
+    }
+    if (!reference.isCTE) {
+      sources.add(reference.resolvedName);
+      continue;
+    }
+    const body = findCteBody(reference, bodies);
+    if (body && !visited.has(body)) {
+      readSources(body, references, bodies, visited).forEach(source => sources.add(source));
+    }
+  }
+  return Array.from(sources);
+}
+
+/**
+ * The innermost CTE body containing an offset
+ */
+function ownerOf(offset: number, bodies: CteBody[]): CteBody | undefined {
+  let owner: CteBody | undefined;
+  for (const body of bodies) {
+    if (offset >= body.start && offset < body.end && (!owner || body.start > owner.start)) {
+      owner = body;
+    }
+  }
+  return owner;
+}
+
+/**
+ * The definition a CTE reference uses: the latest one with its name visible at the reference
+ */
+function findCteBody(reference: TableReference, bodies: CteBody[]): CteBody | undefined {
+  const name = reference.name.toLowerCase();
+  let found: CteBody | undefined;
+  for (const body of bodies) {
+    if (body.name === name && reference.start >= body.visibleFrom && reference.start < body.visibleTo &&
+        (!found || body.start > found.start)) {
+      found = body;
+    }
+  }
+  return found;
+}
+
+/**
+ * Find the CTE definitions of a statement: WITH [RECURSIVE] name [(columns)]
+ * AS [[NOT] MATERIALIZED] (query), ...
+ */
+function findCteBodies(tokens: Token[], statementEnd: number): CteBody[] {
+  const bodies: CteBody[] = [];
+  // Offset of the closing parenthesis of each open group
+  const closing = matchParentheses(tokens);
+  const groupEnds: number[] = [statementEnd];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.text === '(') {
+      groupEnds.push(tokens[closing.get(i) ?? tokens.length - 1].start);
+      continue;
+    }
+    if (token.text === ')') {
+      groupEnds.pop();
+      continue;
+    }
+    // WITH (NOLOCK) and other table hints are not CTEs
+    if (token.type !== 'keyword' || token.value !== 'WITH' || tokens[i + 1]?.text === '(') {
+      continue;
+    }
+
+    let j = i + 1;
+    const isRecursive = tokens[j]?.value === 'RECURSIVE';
+    if (isRecursive) {
+      j++;
+    }
+    while (tokens[j] && (tokens[j].type === 'identifier' || tokens[j].type === 'quotedIdentifier')) {
+      const name = tokens[j].value.toLowerCase();
+      j++;
+      if (tokens[j]?.text === '(') {
+        j = (closing.get(j) ?? tokens.length - 1) + 1;
+      }
+      if (tokens[j]?.value !== 'AS') {
+        break;
+      }
+      j++;
+      if (tokens[j]?.value === 'NOT') {
+        j++;
+      }
+      if (tokens[j]?.text.toUpperCase() === 'MATERIALIZED') {
+        j++;
+      }
+      const close = tokens[j]?.text === '(' ? closing.get(j) : undefined;
+      if (close === undefined) {
+        break;
+      }
+
+      bodies.push({
+        name,
+        start: tokens[j].end,
+        end: tokens[close].start,
+        // Without RECURSIVE a CTE is only visible after its own definition
+        visibleFrom: isRecursive ? token.start : tokens[close].end,
+        visibleTo: groupEnds[groupEnds.length - 1]
+      });
+      j = close + 1;
+      if (tokens[j]?.text !== ',') {
+        break;
+      }
+      j++;
+    }
+  }
+  return bodies;
+}
+
+/**
+ * Index of the closing parenthesis of each opening one
+ */
+function matchParentheses(tokens: Token[]): Map<number, number> {
+  const closing = new Map<number, number>();
+  const open: number[] = [];
+  tokens.forEach((token, index) => {
+    if (token.text === '(') {
+      open.push(index);
+    } else if (token.text === ')' && open.length > 0) {
+      closing.set(open.pop()!, index);
+    }
+  });
+  return closing;
+}
+
+/**
+ * The quoted locations of a COPY statement: COPY INTO 's3://...' FROM table
+ * unloads to a location, COPY INTO table FROM 's3://...' loads from one
+ */
+function readCopyLocations(tokens: Token[]): { target?: string; sources: string[] } {
+  if (tokens[0]?.value !== 'COPY') {
+    return { sources: [] };
+  }
+
+  let target: string | undefined;
+  const sources: string[] = [];
+  let depth = 0;
+  tokens.forEach((token, index) => {
+    if (token.text === '(') {
+      depth++;
+    } else if (token.text === ')') {
+      depth--;
+    } else if (depth === 0 && token.type === 'string') {
+      const previous = tokens[index - 1]?.value;
+      if (previous === 'INTO') {
+        target = token.value;
+      } else if (previous === 'FROM') {
+        sources.push(token.value);
+      }
+    }
+  });
+  return { target, sources };
+}
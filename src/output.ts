@@ -0,0 +1,146 @@
+import { TableCatalog } from './catalog.js';
+import { ColumnReference } from './columns.js';
+import {
+  SqlTableExtractor,
+  StatementExtractionResult,
+  TableAccessMode,
+  TableExtractionResult,
+  TableMetadata
+} from './parser.js';
+
+/**
+ * Version of the machine-readable output schema (schemas/parse-output.schema.json).
+ * Bumped on any incompatible change; new optional fields do not change it.
+ */
+export const OUTPUT_SCHEMA_VERSION = 1;
+
+export type OutputFormat = 'text' | 'json' | 'ndjson' | 'csv';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['text', 'json', 'ndjson', 'csv'];
+
+/** The document written by `parse --format json` */
+export interface ParseOutput {
+  /** Version of the output schema */
+  schemaVersion: number;
+  /** Dialect profile used, if any */
+  dialect?: string;
+  /** Result for the whole input; absent with per-statement output */
+  result?: TableExtractionResult;
+  /** Result of each statement, with per-statement output */
+  statements?: StatementExtractionResult[];
+  /** Known table metadata of each resolved table, keyed by resolved name */
+  tableMetadata: Record<string, TableMetadata>;
+  /** Column references, when requested */
+  columns?: ColumnReference[];
+}
+
+/** One table of a result, as written by `parse --format ndjson|csv` */
+export interface TableOutputRow {
+  schemaVersion: number;
+  /** Index of the statement, with per-statement output */
+  statement?: number;
+  /** Resolved table name */
+  table: string;
+  /** Whether the name is a known or unfiltered table, a CTE, or unknown */
+  kind: 'table' | 'cte' | 'unknown';
+  /** Access modes of the references to the table */
+  access: TableAccessMode[];
+  /** Number of references to the table */
+  references: number;
+  /** Schema from the known table metadata */
+  schema?: string;
+  /** Database from the known table metadata */
+  database?: string;
+}
+
+const CSV_COLUMNS: (keyof TableOutputRow)[] = [
+  'schemaVersion', 'statement', 'table', 'kind', 'access', 'references', 'schema', 'database'
+];
+
+/**
+ * Assemble the machine-readable output of a parse
+ */
+export function buildParseOutput(
+  results: { result?: TableExtractionResult; statements?: StatementExtractionResult[] },
+  options: { knownTables?: Map<string, TableMetadata> | TableCatalog; dialect?: string; columns?: ColumnReference[] } = {}
+): ParseOutput {
+  // Resolved names are fully qualified, so exact matching is enough here
+  const knownTables = options.knownTables && TableCatalog.from(options.knownTables);
+  const tableMetadata: Record<string, TableMetadata> = {};
+  const allResults = results.statements ?? (results.result ? [results.result] : []);
+
+  for (const result of allResults) {
+    for (const table of result.realTables) {
+      const metadata = SqlTableExtractor.findTableMetadata(table, knownTables);
+      if (metadata) {
+        tableMetadata[table] = metadata;
+      }
+    }
+  }
+
+  return {
+    schemaVersion: OUTPUT_SCHEMA_VERSION,
+    ...(options.dialect !== undefined && { dialect: options.dialect }),
+    ...results,
+    tableMetadata,
+    ...(options.columns !== undefined && { columns: options.columns })
+  };
+}
+
+/**
+ * Flatten an output document into one row per table (per statement, if split)
+ */
+export function toTableRows(output: ParseOutput): TableOutputRow[] {
+  const rows: TableOutputRow[] = [];
+
+  const addRows = (result: TableExtractionResult, statement?: number) => {
+    for (const table of result.allTables) {
+      const metadata = output.tableMetadata[table];
+      const references = result.references.filter(reference => reference.resolvedName === table);
+      rows.push({
+        schemaVersion: output.schemaVersion,
+        ...(statement !== undefined && { statement }),
+        table,
+        kind: result.unknownTables.includes(table) ? 'unknown' : result.realTables.includes(table) ? 'table' : 'cte',
+        access: Array.from(new Set(references.map(reference => reference.access))),
+        references: references.length,
+        ...(metadata?.schema !== undefined && { schema: metadata.schema }),
+        ...(metadata?.database !== undefined && { database: metadata.database })
+      });
+    }
+  };
+
+  if (output.statements) {
+    output.statements.forEach(result => addRows(result, result.statement.index));
+  } else if (output.result) {
+    addRows(output.result);
+  }
+
+  return rows;
+}
+
+/**
+ * Render an output document in a machine-readable format
+ */
+export function formatParseOutput(output: ParseOutput, format: Exclude<OutputFormat, 'text'>): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(output, null, 2);
+    case 'ndjson':
+      return toTableRows(output).map(row => JSON.stringify(row)).join('\n');
+    case 'csv':
+      return [
+        CSV_COLUMNS.join(','),
+        ...toTableRows(output).map(row => CSV_COLUMNS.map(column => toCsvField(row[column])).join(','))
+      ].join('\n');
+  }
+}
+
+function toCsvField(value: unknown): string {
+  if (value === undefined) {
+    return '';
+  }
+
+  const text = Array.isArray(value) ? value.join(';') : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
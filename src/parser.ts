@@ -1,4 +1,19 @@
+import { TableCatalog } from './catalog.js';
+import type { DbtNodeInfo } from './dbt.js';
+import { CaseFolding, getDialect, getDialectLexerOptions, SqlDialect, SqlDialectName } from './dialects.js';
+import { createPositionLookup, LexerOptions, Token, tokenize, TokenType } from './lexer.js';
 import { defaultSqlKeywords } from './sql-keywords-config.js';
+import { splitTokenizedStatements, SqlStatement, TokenizedStatement } from './statements.js';
+import { mapResultToTemplate, renderExtractionTemplate, TemplateOptions } from './templating.js';
+
+export interface TableColumn {
+  /** Column name */
+  name: string;
+  /** Data type as reported by the database, e.g. 'integer' or 'varchar(255)' */
+  type?: string;
+  /** Whether the column accepts NULL */
+  nullable?: boolean;
+}
 
 export interface TableMetadata {
   /** The table's short name (without schema) */
@@ -9,47 +24,451 @@ export interface TableMetadata {
   schema?: string;
   /** Database name if applicable */
   database?: string;
+  /** Column definitions, used to attribute unqualified columns and expand SELECT * */
+  columns?: TableColumn[];
+  /** The dbt node the table was loaded from, for tables read from a manifest */
+  dbt?: DbtNodeInfo;
 }
 
+/**
+ * How a statement uses a table: read from it, change its rows, or change the
+ * table itself (DDL)
+ */
+export type TableAccessMode =
+  | 'read'
+  | 'insert'
+  | 'update'
+  | 'delete'
+  | 'merge'
+  | 'create'
+  | 'alter'
+  | 'drop'
+  | 'truncate';
+
 export interface TableExtractionResult {
   /** All tables found in the query (fully qualified when available) */
   allTables: string[];
   /** Tables that exist in the known tables set (fully qualified when available) */
   realTables: string[];
-  /** CTE tables that were filtered out */
+  /** CTEs referenced by the query, recognized from their WITH definitions */
   filteredCTEs: string[];
+  /**
+   * References matching neither a CTE nor a known table. Only populated when
+   * filterCTEs is set and knownTables is provided; these are left out of realTables
+   */
+  unknownTables: string[];
+  /** Access modes of each real table, keyed by its resolved name */
+  tableAccess: Record<string, TableAccessMode[]>;
+  /** Real tables that are read */
+  readTables: string[];
+  /** Real tables whose rows or definition are changed (insert, update, delete, merge, alter, truncate) */
+  writtenTables: string[];
+  /** Real tables that are created (CREATE TABLE, SELECT ... INTO) */
+  createdTables: string[];
+  /** Real tables that are dropped */
+  droppedTables: string[];
+  /** Every table reference in source order, including repeated uses of the same table */
+  references: TableReference[];
+  /** Table-valued functions used as FROM items (UNNEST, FLATTEN, JSON_TABLE...), in source order */
+  tableFunctions: TableFunctionReference[];
+  /** Query scopes (statements and subqueries) with the aliases defined in each */
+  scopes: QueryScope[];
+  /** Problems found while reading the SQL and resolving its tables, in source order */
+  diagnostics: Diagnostic[];
+}
+
+export interface StatementExtractionResult extends TableExtractionResult {
+  /** The statement the tables were extracted from */
+  statement: SqlStatement;
+}
+
+export interface TableReference {
+  /** The reference exactly as written in the SQL, including quotes */
+  rawText: string;
+  /** The table name as written, with quotes removed */
+  name: string;
+  /**
+   * The name normalized by the dialect's identifier rules: unquoted parts are
+   * case-folded (lower case in PostgreSQL, upper case in Snowflake), quoted parts
+   * kept exactly. Known tables are looked up by this name.
+   */
+  normalizedName: string;
+  /** The resolved name, as reported in allTables: the known table's fully qualified name, or else the normalized name */
+  resolvedName: string;
+  /** The keyword phrase that introduced the reference (FROM, LEFT JOIN, INSERT INTO...) */
+  keyword: string;
+  /** Whether the reference resolves to a CTE in scope rather than a table */
+  isCTE: boolean;
+  /** How the statement uses the table at this reference */
+  access: TableAccessMode;
+  /** Alias given to the table at this reference (FROM users u, FROM users AS u) */
+  alias?: string;
+  /** Id of the query scope the reference belongs to, see TableExtractionResult.scopes */
+  scopeId: number;
+  /** Offset of the first character in the original SQL */
+  start: number;
+  /** Offset just past the last character in the original SQL */
+  end: number;
+  /** 1-based line of the first character */
+  line: number;
+  /** 1-based column of the first character */
+  column: number;
+}
+
+export interface TableFunctionReference {
+  /** The call exactly as written, arguments included */
+  rawText: string;
+  /** The function name as written, with quotes removed; TABLE(...) wrappers give the function inside */
+  name: string;
+  /** The keyword phrase that introduced the function (FROM, CROSS APPLY, JOIN...) */
+  keyword: string;
+  /** Whether it is LATERAL or APPLY and may refer to the FROM items before it */
+  lateral: boolean;
+  /** Alias given to the function's rows */
+  alias?: string;
+  /**
+   * Resolved names of the tables and CTEs its arguments refer to: through column
+   * qualifiers (FLATTEN(input => t.col) refers to t) or subqueries
+   */
+  argumentTables: string[];
+  /** Id of the query scope the function belongs to */
+  scopeId: number;
+  /** Offset of the first character in the original SQL */
+  start: number;
+  /** Offset just past the last character in the original SQL */
+  end: number;
+  /** 1-based line of the first character */
+  line: number;
+  /** 1-based column of the first character */
+  column: number;
+}
+
+/** Kind of problem a diagnostic reports */
+export type DiagnosticCode =
+  | 'ambiguous-table'
+  | 'unknown-table'
+  | 'function-as-table'
+  | 'unterminated-string'
+  | 'unterminated-comment'
+  | 'unterminated-identifier';
+
+export type DiagnosticSeverity = 'error' | 'warning';
+
+export interface Diagnostic {
+  code: DiagnosticCode;
+  /** Errors mean the SQL could not be read as written; warnings flag doubtful results */
+  severity: DiagnosticSeverity;
+  message: string;
+  /** Fully qualified names of the known tables an ambiguous name may refer to */
+  candidates?: string[];
+  /** Offset of the first character in the original SQL */
+  start: number;
+  /** Offset just past the last character in the original SQL */
+  end: number;
+  /** 1-based line of the first character */
+  line: number;
+  /** 1-based column of the first character */
+  column: number;
+}
+
+/** What an alias stands for */
+export interface AliasTarget {
+  /** A table, a CTE in scope, a derived table (a subquery in FROM) or a table-valued function */
+  kind: 'table' | 'cte' | 'derived' | 'function';
+  /** Resolved table or CTE name, or the function name; absent for derived tables */
+  name?: string;
+}
+
+/**
+ * A statement or subquery. Aliases are only visible in the scope defining them
+ * and in the scopes nested inside it.
+ */
+export interface QueryScope {
+  /** Id referenced by TableReference.scopeId */
+  id: number;
+  /** Id of the enclosing scope; absent for a statement's top-level scope */
+  parentId?: number;
+  /** Offset of the first character of the scope in the original SQL */
+  start: number;
+  /** Offset just past the last character of the scope in the original SQL */
+  end: number;
+  /** Aliases defined directly in this scope */
+  aliases: Record<string, AliasTarget>;
+}
+
+/**
+ * Where unqualified and partially qualified table names are looked up. `USE`
+ * and `SET search_path` statements change it for the statements that follow.
+ */
+export interface TableResolutionContext {
+  /** Database assumed for names without one */
+  currentDatabase?: string;
+  /** Schemas searched in order for names without one, like PostgreSQL's search_path */
+  searchPath?: string[];
+  /** Schema searched after the search path, e.g. dbo or PUBLIC */
+  defaultSchema?: string;
 }
 
-interface TableExtractionOptions {
+interface TableExtractionOptions extends TableResolutionContext {
   /** Map of known real table metadata from Metabase's table index */
-  knownTables?: Map<string, TableMetadata>;
-  /** Whether to filter out CTE tables using the known tables set */
+  knownTables?: Map<string, TableMetadata> | TableCatalog;
+  /**
+   * Whether to also check references against the known tables set; references
+   * that are neither a CTE nor a known table are moved to unknownTables
+   */
   filterCTEs?: boolean;
   /** Custom keywords that might precede table names */
   customKeywords?: string[];
   /** Direct list of keywords to use (overrides defaults if provided) */
   keywords?: string[];
+  /**
+   * SQL dialect profile, by name or as a custom profile. It supplies the
+   * default keywords and how identifiers, strings and comments are lexed.
+   */
+  dialect?: SqlDialectName | SqlDialect;
+  /**
+   * Whether names match known tables regardless of case, as with MySQL and
+   * SQL Server collations. Defaults to the dialect's rule; a TableCatalog
+   * passed as knownTables keeps its own setting.
+   */
+  caseInsensitive?: boolean;
+  /**
+   * Whether the SQL is a dbt, Jinja or Metabase template, or has bind
+   * parameters. It is rendered with renderTemplate first, optionally with
+   * ref/source mappings; offsets and positions still refer to the template.
+   */
+  template?: boolean | TemplateOptions;
 }
 
+interface TableNameMatch {
+  /** Table name as written, with quotes removed */
+  name: string;
+  /** Table name normalized by the dialect's identifier rules */
+  normalizedName: string;
+  /** Keyword phrase that introduced the table */
+  keyword: string;
+  /** Whether the name refers to a CTE in scope */
+  isCTE: boolean;
+  /** How the statement uses the table */
+  access: TableAccessMode;
+  /** Alias given to the table, if any */
+  alias?: string;
+  /** Id of the query scope the reference belongs to */
+  scopeId: number;
+  /** Source range covered by the name tokens */
+  start: number;
+  end: number;
+}
+
+/** A table-valued function found in a FROM list */
+interface TableFunctionMatch {
+  name: string;
+  keyword: string;
+  lateral: boolean;
+  alias?: string;
+  scopeId: number;
+  /** Qualifiers of the dotted column names in the arguments */
+  argumentQualifiers: string[];
+  /** Source range of the call, and of its outermost argument list */
+  start: number;
+  end: number;
+  argumentsStart: number;
+  argumentsEnd: number;
+}
+
+/** A table name match with the resolution context of its statement */
+interface ContextualMatch extends TableNameMatch {
+  context: TableResolutionContext;
+}
+
+interface CteDefinition {
+  /** CTE name, compared case-insensitively */
+  name: string;
+  /** Index of the first token from which the name is visible */
+  visibleFrom: number;
+}
+
+interface ScopeFrame {
+  /** Whether the parenthesized group is a (sub)query rather than function arguments */
+  isQuery: boolean;
+  /** CTEs defined by a WITH clause directly in this group */
+  ctes: CteDefinition[];
+  /** First statement verb (SELECT, INSERT, MERGE...) seen directly in this group */
+  verb?: string;
+  /** Query scope of the group, once it is known to be a query */
+  scope?: ScopeRecord;
+  /** Whether the group is a derived table: FROM (SELECT ...) alias */
+  isDerived?: boolean;
+  /** Keyword phrase of the FROM list the derived table sits in, which may continue after its alias */
+  listPhrase?: string[];
+  /** Keyword phrase of the FROM clause being read directly in this group, which a comma after a JOIN item continues */
+  fromList?: string[];
+  /** Lower-cased tables or aliases named by DELETE t FROM ..., whose FROM items are deleted from rather than read */
+  deleteTargets?: string[];
+}
+
+interface ScopeRecord {
+  id: number;
+  parentId?: number;
+  start: number;
+  end: number;
+  /** Aliases of derived tables in this scope */
+  derivedAliases: string[];
+}
+
+/** MySQL modifiers between DELETE and the tables it deletes from */
+const DELETE_MODIFIERS = new Set(['LOW_PRIORITY', 'QUICK', 'IGNORE']);
+
+/** Keywords that mark a parenthesized group as a query rather than function arguments */
+const QUERY_START_WORDS = new Set(['SELECT', 'DELETE', 'UPDATE', 'WITH', 'VALUES']);
+
+/** Keywords that start a statement and determine how INTO targets are used */
+const STATEMENT_VERBS = new Set([
+  'SELECT', 'INSERT', 'UPDATE', 'DELETE', 'MERGE', 'CREATE', 'ALTER', 'DROP',
+  'TRUNCATE', 'COPY', 'REPLACE', 'UPSERT'
+]);
+
+/** Modes that change an existing table's rows or definition */
+const WRITE_MODES = new Set<TableAccessMode>(['insert', 'update', 'delete', 'merge', 'alter', 'truncate']);
+
+/** Keywords after which a name followed by ( is a table-valued function */
+const FUNCTION_CONTEXT_WORDS = new Set(['FROM', 'JOIN', 'USING', 'APPLY']);
+
+/** Keywords ending a FROM clause, after which commas no longer separate tables */
+const FROM_LIST_END_WORDS = new Set([
+  'WHERE', 'GROUP', 'HAVING', 'ORDER', 'LIMIT', 'OFFSET', 'FETCH', 'UNION', 'INTERSECT', 'EXCEPT',
+  'WINDOW', 'QUALIFY', 'SELECT', 'SET', 'RETURNING', 'INTO', 'FOR', 'WHEN', 'VALUES'
+]);
+
+/** Keywords that may sit between a table keyword and the table name */
+const TABLE_MODIFIERS = new Set(['LATERAL', 'ONLY']);
+
+/** Words that may follow a table name without being its alias (FROM t PIVOT ..., FROM t USE INDEX ...) */
+const NON_ALIAS_WORDS = new Set([
+  'PIVOT', 'UNPIVOT', 'TABLESAMPLE', 'SAMPLE', 'USE', 'FORCE', 'IGNORE', 'STRAIGHT_JOIN',
+  'START', 'CONNECT', 'AT', 'BEFORE', 'CHANGES', 'MATCH_RECOGNIZE', 'ASOF', 'GO', 'LOCK',
+  'NOLOCK', 'PREWHERE', 'GLOBAL', 'SETTINGS', 'OVERRIDING', 'DEFAULT', 'PARTITION'
+]);
+
+/** Keywords that can never be a table name, e.g. the SET in MERGE ... THEN UPDATE SET */
+const NON_TABLE_WORDS = new Set([
+  'ALL', 'AND', 'AS', 'BY', 'CASE', 'CROSS', 'DEFAULT', 'DISTINCT', 'ELSE', 'END',
+  'EXCEPT', 'EXISTS', 'FOR', 'FROM', 'FULL', 'GROUP', 'HAVING', 'IN', 'INNER',
+  'INTERSECT', 'INTO', 'IS', 'JOIN', 'LATERAL', 'LEFT', 'LIMIT', 'NATURAL', 'NOT',
+  'NULL', 'OFFSET', 'ON', 'ONLY', 'OR', 'ORDER', 'OUTER', 'QUALIFY', 'RETURNING',
+  'RIGHT', 'SELECT', 'SET', 'THEN', 'UNION', 'USING', 'VALUES', 'WHEN', 'WHERE',
+  'WINDOW', 'WITH'
+]);
+
+/** Function names that, read as a table, most likely lost their parentheses or their FROM context */
+const FUNCTION_NAMES = new Set([
+  'UNNEST', 'GENERATE_SERIES', 'FLATTEN', 'JSON_TABLE', 'OPENJSON', 'OPENROWSET', 'OPENQUERY',
+  'XMLTABLE', 'STRING_SPLIT', 'JSON_EACH', 'JSON_TREE', 'JSONB_EACH', 'JSON_ARRAY_ELEMENTS',
+  'JSONB_ARRAY_ELEMENTS', 'READ_CSV', 'READ_PARQUET', 'READ_JSON', 'GENERATE_ARRAY', 'EXPLODE',
+  'COUNT', 'SUM', 'MIN', 'MAX', 'AVG', 'COALESCE', 'NULLIF', 'EXTRACT', 'SUBSTRING', 'TRIM',
+  'NOW', 'CURRENT_DATE', 'CURRENT_TIME', 'CURRENT_TIMESTAMP', 'SYSDATE', 'GETDATE'
+]);
+
+/** Diagnostic code and wording for each kind of unterminated token */
+const UNTERMINATED_DIAGNOSTICS: Partial<Record<TokenType, { code: DiagnosticCode; what: string }>> = {
+  string: { code: 'unterminated-string', what: 'String literal' },
+  comment: { code: 'unterminated-comment', what: 'Block comment' },
+  quotedIdentifier: { code: 'unterminated-identifier', what: 'Quoted identifier' }
+};
+
 class SqlTableExtractor {
   /**
-   * Extract table names from SQL query using simplified approach
+   * Extract table names from SQL query by walking its token stream
    */
   static extractTableNames(
     sql: string,
     options: TableExtractionOptions = {}
   ): TableExtractionResult {
-    const { knownTables, filterCTEs = false, customKeywords = [], keywords } = options;
+    if (options.template) {
+      const rendered = renderExtractionTemplate(sql, options);
+      return mapResultToTemplate(this.extractTableNames(rendered.sql, { ...options, template: undefined }), sql, rendered);
+    }
+    options = this.withCatalog(options);
+    // Step 1: Split the SQL into statements, so scopes never leak from one to the next
+    const lexer = getDialectLexerOptions(options.dialect);
+    const statements = splitTokenizedStatements(sql, { lexer });
+    const phrases = this.toKeywordPhrases(this.getKeywords(options));
+    const caseFolding = this.getCaseFolding(options);
+
+    // Step 2: Find the table references in each statement
+    const scopes: ScopeRecord[] = [];
+    const functions: TableFunctionMatch[] = [];
+    let context = this.getResolutionContext(options);
+    const matches = statements.flatMap(statement => {
+      const tokens = this.withoutComments(statement.tokens);
+      context = this.updateResolutionContext(tokens, context, options);
+      return this.findTableNames(tokens, phrases, scopes, functions, caseFolding).map(match => ({ ...match, context }));
+    });
+
+    return this.buildResult(sql, matches, functions, scopes, options, this.findUnterminatedToken(sql, statements, lexer));
+  }
 
-    // Step 1: Clean the SQL by removing comments and string literals
-    const cleanSql = this.removeCommentsAndStrings(sql);
+  /**
+   * Extract table names separately for each statement of a SQL script. Offsets,
+   * lines and columns in each result refer to the whole script.
+   */
+  static extractTableNamesByStatement(
+    sql: string,
+    options: TableExtractionOptions = {}
+  ): StatementExtractionResult[] {
+    if (options.template) {
+      const rendered = renderExtractionTemplate(sql, options);
+      return this.extractTableNamesByStatement(rendered.sql, { ...options, template: undefined })
+        .map(result => mapResultToTemplate(result, sql, rendered));
+    }
+    options = this.withCatalog(options);
+    const phrases = this.toKeywordPhrases(this.getKeywords(options));
+    const caseFolding = this.getCaseFolding(options);
+    const lexer = getDialectLexerOptions(options.dialect);
+    const statements = splitTokenizedStatements(sql, { lexer });
+    // An unterminated token runs to the end of the input, so it is reported with the last statement
+    const unterminated = this.findUnterminatedToken(sql, statements, lexer);
+    let context = this.getResolutionContext(options);
 
-    // Step 2: Build the keyword list
+    return statements.map(({ tokens, ...statement }, index) => {
+      const scopes: ScopeRecord[] = [];
+      const functions: TableFunctionMatch[] = [];
+      const statementTokens = this.withoutComments(tokens);
+      context = this.updateResolutionContext(statementTokens, context, options);
+      const matches = this.findTableNames(statementTokens, phrases, scopes, functions, caseFolding).map(match => ({ ...match, context }));
+      const isLast = index === statements.length - 1;
+      return { statement, ...this.buildResult(sql, matches, functions, scopes, options, isLast ? unterminated : undefined) };
+    });
+  }
+
+  /**
+   * Index a known tables map once per call, rather than scanning it for every reference
+   */
+  private static withCatalog(options: TableExtractionOptions): TableExtractionOptions {
+    const { knownTables, dialect, caseInsensitive } = options;
+    return knownTables ? { ...options, knownTables: TableCatalog.from(knownTables, { dialect, caseInsensitive }) } : options;
+  }
+
+  /**
+   * How unquoted identifiers are folded: by the dialect's rule, or kept as written
+   */
+  private static getCaseFolding(options: TableExtractionOptions): CaseFolding {
+    return options.dialect ? getDialect(options.dialect).caseFolding : 'none';
+  }
+
+  /**
+   * Build the keyword list from the options
+   */
+  private static getKeywords(options: TableExtractionOptions): string[] {
+    const { customKeywords = [], keywords, dialect } = options;
     let allKeywords: string[];
 
     if (keywords && keywords.length > 0) {
       // Use provided keywords directly
       allKeywords = keywords;
+    } else if (dialect) {
+      // Use the dialect's keywords
+      allKeywords = getDialect(dialect).keywords;
     } else {
       // Use default keywords from config
       allKeywords = defaultSqlKeywords.default;
@@ -61,239 +480,1016 @@ class SqlTableExtractor {
     }
 
     // Remove duplicates
-    allKeywords = Array.from(new Set(allKeywords));
-
-    const keywordPattern = allKeywords.join('|');
-
-    // Step 3: Extract table names with simplified regex approach
-    const regex = new RegExp(
-      '(?:' + keywordPattern + ')\\s+' +               // Keywords followed by whitespace
-      '(' +                                            // Capture the full table identifier
-        // Multi-part identifiers: [db].[schema].[table], "db"."schema"."table", db.schema.table
-        '(?:\\[[^\\]]+\\]|"[^"]+"|`[^`]+`|[\\w@#]+)' +  // First part
-        '(?:\\.(?:\\[[^\\]]+\\]|"[^"]+"|`[^`]+`|[\\w@#]+))*' +  // Additional parts
-      ')',                                             // End capture group
-      'gi'
-    );
+    return Array.from(new Set(allKeywords));
+  }
 
-    const extractedTables = new Set<string>();
-    let match;
+  private static withoutComments(tokens: Token[]): Token[] {
+    return tokens.filter(token => token.type !== 'comment');
+  }
 
-    while ((match = regex.exec(cleanSql)) !== null) {
-      const tableIdentifier = match[1];
+  /**
+   * Find the string, block comment or quoted identifier left open at the end
+   * of the input, if any. Such a token always runs to the end, so it is either
+   * the last token of the last statement or in the comments after it.
+   */
+  private static findUnterminatedToken(
+    sql: string,
+    statements: TokenizedStatement[],
+    lexer: LexerOptions
+  ): Token | undefined {
+    const last = statements[statements.length - 1];
+    const lastToken = last?.tokens[last.tokens.length - 1];
+    if (lastToken?.unterminated) {
+      return lastToken;
+    }
 
-      if (tableIdentifier) {
-        // Check if this looks like a function call
-        const matchEnd = match.index + match[0].length;
-        const remainingText = cleanSql.slice(matchEnd);
-        const isFunction = /^\s*\(/.test(remainingText);
+    // Comment-only text after the last statement belongs to no statement
+    const tailStart = last?.end ?? 0;
+    const token = tokenize(sql.slice(tailStart), lexer).find(tailToken => tailToken.unterminated);
+    return token && { ...token, start: token.start + tailStart, end: token.end + tailStart };
+  }
 
-        if (isFunction) {
-          // Extract the keyword to determine context
-          const keywordMatch = match[0].match(new RegExp('^(' + keywordPattern + ')\\s+', 'i'));
-          if (keywordMatch) {
-            const keyword = keywordMatch[1].toUpperCase();
+  /**
+   * Resolve the matched table names and assemble the extraction result
+   */
+  private static buildResult(
+    sql: string,
+    matches: ContextualMatch[],
+    functions: TableFunctionMatch[],
+    scopeRecords: ScopeRecord[],
+    options: TableExtractionOptions,
+    unterminated?: Token
+  ): TableExtractionResult {
+    const { knownTables, filterCTEs = false } = options;
+    const extractedTables = new Set<string>();
+    const references: TableReference[] = [];
+    const diagnostics: Diagnostic[] = [];
+    const toPosition = createPositionLookup(sql);
 
-            // Only skip functions in FROM/JOIN contexts, not in INSERT/UPDATE/MERGE contexts
-            const isFunctionContext = keyword === 'FROM' || keyword.includes('JOIN') || keyword === 'USING';
+    const report = (diagnostic: Omit<Diagnostic, 'line' | 'column'>) =>
+      diagnostics.push({ ...diagnostic, ...toPosition(diagnostic.start) });
 
-            if (isFunctionContext) {
-              continue;
-            }
-          }
-        }
+    for (const match of matches) {
+      // Resolve to fully qualified name if possible; CTEs are never looked up in the catalog
+      const candidates = match.isCTE ? [] : this.findTableCandidates(match.normalizedName, knownTables, match.context);
+      const resolvedName = match.isCTE
+        ? match.name
+        : candidates.length === 1 ? candidates[0].fullyQualifiedName : match.normalizedName;
+      extractedTables.add(resolvedName);
+
+      const { start, end } = match;
+      if (!match.isCTE && candidates.length === 0 && FUNCTION_NAMES.has(match.name.split('.').pop()!.toUpperCase())) {
+        report({
+          code: 'function-as-table',
+          severity: 'warning',
+          message: `"${match.name}" looks like a function call read as a table`,
+          start,
+          end
+        });
+      } else if (candidates.length > 1) {
+        report({
+          code: 'ambiguous-table',
+          severity: 'warning',
+          message: `Table "${match.name}" matches ${candidates.length} known tables: ` +
+            candidates.map(candidate => candidate.fullyQualifiedName).join(', '),
+          candidates: candidates.map(candidate => candidate.fullyQualifiedName),
+          start,
+          end
+        });
+      } else if (!match.isCTE && knownTables && candidates.length === 0 && match.access !== 'create') {
+        report({
+          code: 'unknown-table',
+          severity: 'warning',
+          message: `Table "${match.name}" is not a known table`,
+          start,
+          end
+        });
+      }
 
-        // Clean the table identifier by removing quotes/brackets
-        let cleanTableName: string;
+      references.push({
+        rawText: sql.slice(match.start, match.end),
+        name: match.name,
+        normalizedName: match.normalizedName,
+        resolvedName,
+        keyword: match.keyword,
+        isCTE: match.isCTE,
+        access: match.access,
+        ...(match.alias !== undefined && { alias: match.alias }),
+        scopeId: match.scopeId,
+        start: match.start,
+        end: match.end,
+        ...toPosition(match.start)
+      });
+    }
 
-        // Remove quotes and brackets but preserve the content and dots
-        cleanTableName = tableIdentifier
-          .replace(/\[([^\]]+)\]/g, '$1')  // [name] -> name
-          .replace(/"([^"]+)"/g, '$1')     // "name" -> name
-          .replace(/`([^`]+)`/g, '$1');    // `name` -> name
+    if (unterminated) {
+      const { code, what } = UNTERMINATED_DIAGNOSTICS[unterminated.type]!;
+      report({
+        code,
+        severity: 'error',
+        message: `${what} is not terminated before the end of the input`,
+        start: unterminated.start,
+        end: unterminated.end
+      });
+    }
 
-        // Resolve to fully qualified name if possible
-        const resolvedName = this.resolveTableName(cleanTableName, knownTables);
-        extractedTables.add(resolvedName);
+    // Map the aliases of each scope to what they stand for
+    const scopes: QueryScope[] = scopeRecords.map(({ derivedAliases, ...scope }) => ({
+      ...scope,
+      aliases: Object.fromEntries(derivedAliases.map(alias => [alias, { kind: 'derived' }]))
+    }));
+    for (const reference of references) {
+      if (reference.alias !== undefined) {
+        scopes[reference.scopeId].aliases[reference.alias] = {
+          kind: reference.isCTE ? 'cte' : 'table',
+          name: reference.resolvedName
+        };
+      }
+    }
+    for (const match of functions) {
+      if (match.alias !== undefined) {
+        scopes[match.scopeId].aliases[match.alias] = { kind: 'function', name: match.name };
       }
     }
 
+    const tableFunctions = functions.map((match): TableFunctionReference => ({
+      rawText: sql.slice(match.start, match.end),
+      name: match.name,
+      keyword: match.keyword,
+      lateral: match.lateral,
+      ...(match.alias !== undefined && { alias: match.alias }),
+      argumentTables: this.findArgumentTables(match, references, scopes),
+      scopeId: match.scopeId,
+      start: match.start,
+      end: match.end,
+      ...toPosition(match.start)
+    }));
+
     const allTables = Array.from(extractedTables);
 
-    // Step 4: Filter CTEs if requested and known tables are provided
-    if (filterCTEs && knownTables) {
-      const realTables = allTables.filter(table => {
-        return this.isKnownTable(table, knownTables);
-      });
+    // Split CTE references from table references, and check the latter
+    // against the known tables if requested
+    const realTables = new Set<string>();
+    const filteredCTEs = new Set<string>();
+    const unknownTables = new Set<string>();
 
-      const filteredCTEs = allTables.filter(table => {
-        return !this.isKnownTable(table, knownTables);
-      });
+    for (const [index, reference] of references.entries()) {
+      if (reference.isCTE) {
+        filteredCTEs.add(reference.resolvedName);
+      } else if (filterCTEs && knownTables && !this.isKnownTable(reference.resolvedName, knownTables, matches[index].context)) {
+        unknownTables.add(reference.resolvedName);
+      } else {
+        realTables.add(reference.resolvedName);
+      }
+    }
 
-      return {
-        allTables,
-        realTables,
-        filteredCTEs
-      };
+    // Collect how each real table is accessed
+    const tableAccess: Record<string, TableAccessMode[]> = {};
+    for (const reference of references) {
+      if (!realTables.has(reference.resolvedName) || reference.isCTE) {
+        continue;
+      }
+      const modes = tableAccess[reference.resolvedName] ??= [];
+      if (!modes.includes(reference.access)) {
+        modes.push(reference.access);
+      }
     }
 
+    const tablesWithMode = (predicate: (mode: TableAccessMode) => boolean) =>
+      Object.keys(tableAccess).filter(table => tableAccess[table].some(predicate));
+
     return {
       allTables,
-      realTables: allTables,
-      filteredCTEs: []
+      realTables: Array.from(realTables),
+      filteredCTEs: Array.from(filteredCTEs),
+      unknownTables: Array.from(unknownTables),
+      tableAccess,
+      readTables: tablesWithMode(mode => mode === 'read'),
+      writtenTables: tablesWithMode(mode => WRITE_MODES.has(mode)),
+      createdTables: tablesWithMode(mode => mode === 'create'),
+      droppedTables: tablesWithMode(mode => mode === 'drop'),
+      references,
+      tableFunctions,
+      scopes,
+      diagnostics
     };
   }
 
   /**
-   * Resolve a table name to its fully qualified version if available in known tables
+   * The tables and CTEs a table function's arguments refer to: those its column
+   * qualifiers name, looked up from its scope outwards, and those its subqueries read
    */
-  private static resolveTableName(
-    tableName: string,
-    knownTables?: Map<string, TableMetadata>
-  ): string {
-    if (!knownTables) {
-      return tableName;
+  private static findArgumentTables(match: TableFunctionMatch, references: TableReference[], scopes: QueryScope[]): string[] {
+    const tables = new Set<string>();
+
+    for (const qualifier of match.argumentQualifiers) {
+      for (let scope: QueryScope | undefined = scopes[match.scopeId]; scope; scope = scope.parentId !== undefined ? scopes[scope.parentId] : undefined) {
+        const alias = Object.keys(scope.aliases).find(key => key.toLowerCase() === qualifier);
+        if (alias !== undefined) {
+          const target = scope.aliases[alias];
+          if ((target.kind === 'table' || target.kind === 'cte') && target.name !== undefined) {
+            tables.add(target.name);
+          }
+          break;
+        }
+        const reference = references.find(ref => ref.scopeId === scope!.id && ref.alias === undefined &&
+          [ref.name, ref.resolvedName].some(name => name.toLowerCase() === qualifier || name.toLowerCase().endsWith(`.${qualifier}`)));
+        if (reference) {
+          tables.add(reference.resolvedName);
+          break;
+        }
+      }
     }
 
-    // First, try exact match with the provided name
-    if (knownTables.has(tableName)) {
-      return knownTables.get(tableName)!.fullyQualifiedName;
+    for (const reference of references) {
+      if (reference.start >= match.argumentsStart && reference.end <= match.argumentsEnd) {
+        tables.add(reference.resolvedName);
+      }
     }
+    return Array.from(tables);
+  }
 
-    // Try to find by table name without schema
-    const tableWithoutSchema = tableName.includes('.') ? tableName.split('.').pop()! : tableName;
+  /**
+   * Find the metadata of a table by key, fully qualified name or (partially)
+   * qualified name. Names matching several tables are narrowed down by the
+   * current database and then the first schema of the search path (or the
+   * default schema) that holds one; if several remain, none is returned. A
+   * plain map is indexed on every call, so pass a `TableCatalog` for repeated lookups.
+   */
+  static findTableMetadata(
+    tableName: string,
+    knownTables?: Map<string, TableMetadata> | TableCatalog,
+    context: TableResolutionContext = {}
+  ): TableMetadata | undefined {
+    const candidates = this.findTableCandidates(tableName, knownTables, context);
+    return candidates.length === 1 ? candidates[0] : undefined;
+  }
 
-    for (const [key, metadata] of knownTables) {
-      // Check exact match
-      if (key === tableName) {
-        return metadata.fullyQualifiedName;
-      }
+  /**
+   * Find the known tables a name may refer to, narrowed down by the resolution context
+   */
+  private static findTableCandidates(
+    tableName: string,
+    knownTables: Map<string, TableMetadata> | TableCatalog | undefined,
+    context: TableResolutionContext
+  ): TableMetadata[] {
+    if (!knownTables) {
+      return [];
+    }
+
+    const catalog = TableCatalog.from(knownTables);
+    const parts = tableName.split('.');
+    let candidates = catalog.findCandidates(tableName);
 
-      // Check table name match
-      if (metadata.tableName === tableWithoutSchema) {
-        return metadata.fullyQualifiedName;
+    // Prefer the current database, then the first searched schema holding the table
+    const narrow = (predicate: (metadata: TableMetadata) => boolean) => {
+      const narrowed = candidates.filter(predicate);
+      if (narrowed.length > 0) {
+        candidates = narrowed;
       }
+    };
 
-      // Check if the provided name is already the fully qualified name
-      if (metadata.fullyQualifiedName === tableName) {
-        return metadata.fullyQualifiedName;
+    if (candidates.length > 1 && context.currentDatabase !== undefined && parts.length < 3) {
+      narrow(metadata => catalog.equals(metadata.database, context.currentDatabase));
+    }
+    if (candidates.length > 1 && parts.length === 1) {
+      for (const searchedSchema of this.getSearchedSchemas(context)) {
+        const inSchema = candidates.filter(metadata => catalog.equals(metadata.schema, searchedSchema));
+        if (inSchema.length > 0) {
+          candidates = inSchema;
+          break;
+        }
       }
     }
 
-    return tableName;
+    return candidates;
   }
 
   /**
-   * Check if a table is known (exists in the known tables collection)
+   * Check if a table is known (exists in the known tables collection), even if
+   * the name is ambiguous
    */
   private static isKnownTable(
     tableName: string,
-    knownTables: Map<string, TableMetadata>
+    knownTables: Map<string, TableMetadata> | TableCatalog,
+    context: TableResolutionContext
   ): boolean {
-    // Check if table exists by key, table name, or fully qualified name
-    const tableWithoutSchema = tableName.includes('.') ? tableName.split('.').pop()! : tableName;
+    return this.findTableCandidates(tableName, knownTables, context).length > 0;
+  }
 
-    for (const [key, metadata] of knownTables) {
-      if (key === tableName ||
-          metadata.tableName === tableWithoutSchema ||
-          metadata.fullyQualifiedName === tableName) {
-        return true;
+  /**
+   * The schemas searched for unqualified names, in order
+   */
+  private static getSearchedSchemas(context: TableResolutionContext): string[] {
+    const { searchPath = [], defaultSchema } = context;
+    return Array.from(new Set(defaultSchema !== undefined ? [...searchPath, defaultSchema] : searchPath));
+  }
+
+  /**
+   * Take the resolution context from the extraction options
+   */
+  private static getResolutionContext(options: TableExtractionOptions): TableResolutionContext {
+    const { currentDatabase, searchPath, defaultSchema } = options;
+    return { currentDatabase, searchPath, defaultSchema };
+  }
+
+  /**
+   * Apply a statement that changes the resolution context:
+   * - USE db, USE [DATABASE] db[.schema], USE SCHEMA [db.]schema
+   * - SET [SESSION | LOCAL] search_path {TO | =} schema [, ...] | DEFAULT
+   * - SET SCHEMA 'schema'
+   *
+   * Other statements leave the context as is.
+   */
+  private static updateResolutionContext(
+    tokens: Token[],
+    context: TableResolutionContext,
+    options: TableExtractionOptions
+  ): TableResolutionContext {
+    const words = tokens.map(token => token.type === 'keyword' || token.type === 'identifier' ? token.value.toUpperCase() : '');
+    const caseFolding = this.getCaseFolding(options);
+
+    if (words[0] === 'USE') {
+      const isSchema = words[1] === 'SCHEMA';
+      const name = this.readQualifiedName(tokens, isSchema || words[1] === 'DATABASE' ? 2 : 1);
+      if (!name || name.next !== tokens.length) {
+        // USE WAREHOUSE w, USE ROLE r...
+        return context;
+      }
+      const parts = name.parts.map((part, index) => this.normalizeName([part], [name.quoted[index]], caseFolding));
+      if (isSchema) {
+        const [schema, database] = [...parts].reverse();
+        return { ...context, ...(database !== undefined && { currentDatabase: database }), searchPath: [schema] };
       }
+      const [database, schema] = parts;
+      return { ...context, currentDatabase: database, ...(schema !== undefined && { searchPath: [schema] }) };
     }
 
-    return false;
+    if (words[0] !== 'SET') {
+      return context;
+    }
+
+    let i = words[1] === 'SESSION' || words[1] === 'LOCAL' ? 2 : 1;
+    if (words[i] === 'SCHEMA' && tokens[i + 1]?.type === 'string' && tokens.length === i + 2) {
+      return { ...context, searchPath: [tokens[i + 1].value] };
+    }
+    if (words[i] !== 'SEARCH_PATH' || !(words[i + 1] === 'TO' || tokens[i + 1]?.text === '=')) {
+      return context;
+    }
+
+    i += 2;
+    if (words[i] === 'DEFAULT') {
+      return { ...context, searchPath: options.searchPath };
+    }
+
+    const searchPath: string[] = [];
+    for (; i < tokens.length; i++) {
+      const token = tokens[i];
+      if (token.text === ',') {
+        continue;
+      }
+      if (!['identifier', 'quotedIdentifier', 'string', 'keyword'].includes(token.type)) {
+        return context;
+      }
+      // "$user" names a schema per user, which cannot be known here
+      if (token.value !== '$user') {
+        searchPath.push(token.type === 'identifier' || token.type === 'keyword'
+          ? this.foldIdentifier(token.text, caseFolding)
+          : token.value);
+      }
+    }
+    return { ...context, searchPath };
   }
 
   /**
-   * Remove SQL comments and string literals from the query string (simplified)
+   * Split each keyword phrase into the token texts it must match, e.g.
+   * 'SELECT * FROM' -> ['SELECT', '*', 'FROM']
    */
-  private static removeCommentsAndStrings(sql: string): string {
-    let result = '';
-    let i = 0;
+  private static toKeywordPhrases(keywords: string[]): string[][] {
+    return keywords
+      .map(keyword => tokenize(keyword).map(token => token.text.toUpperCase()))
+      .filter(phrase => phrase.length > 0)
+      // Prefer the longest phrase when several match at the same position
+      .sort((a, b) => b.length - a.length);
+  }
 
-    while (i < sql.length) {
-      const char = sql[i];
-      const nextChar = sql[i + 1];
+  /**
+   * Walk the tokens and collect every table name introduced by a keyword
+   * phrase, and the table-valued functions of FROM lists into `functions`
+   */
+  private static findTableNames(
+    tokens: Token[],
+    phrases: string[][],
+    scopes: ScopeRecord[],
+    functions: TableFunctionMatch[],
+    caseFolding: CaseFolding
+  ): TableNameMatch[] {
+    const matches: TableNameMatch[] = [];
+    if (tokens.length === 0) {
+      return matches;
+    }
 
-      // Handle single-line comments (-- comment)
-      if (char === '-' && nextChar === '-') {
-        while (i < sql.length && sql[i] !== '\n') {
-          i++;
+    const openScope = (start: number, parent?: ScopeRecord): ScopeRecord => {
+      const scope: ScopeRecord = { id: scopes.length, start, end: tokens[tokens.length - 1].end, derivedAliases: [] };
+      if (parent) {
+        scope.parentId = parent.id;
+      }
+      scopes.push(scope);
+      return scope;
+    };
+    const currentScope = (): ScopeRecord => {
+      for (let f = frames.length - 1; f >= 0; f--) {
+        if (frames[f].scope) {
+          return frames[f].scope!;
         }
-        continue;
       }
+      return frames[0].scope!;
+    };
+
+    // One frame per open parenthesis. Each tracks whether the group is a (sub)query,
+    // so that FROM inside EXTRACT(YEAR FROM ts) or SUBSTRING(x FROM 2) is ignored,
+    // and which CTEs its WITH clause defines, so they go out of scope at the closing parenthesis
+    let frames: ScopeFrame[] = [{ isQuery: true, ctes: [], scope: openScope(tokens[0].start) }];
+    // Parenthesis that opens a derived table (FROM (SELECT ...) alias), and the
+    // position where a FROM list resumes after one
+    let derivedTable: { index: number; listPhrase?: string[] } | undefined;
+    let resumeList: { index: number; phrase: string[] } | undefined;
+    let i = 0;
+
+    while (i < tokens.length) {
+      const token = tokens[i];
 
-      // Handle multi-line comments (/* comment */)
-      if (char === '/' && nextChar === '*') {
-        i += 2; // Skip /*
-        while (i < sql.length - 1) {
-          if (sql[i] === '*' && sql[i + 1] === '/') {
-            i += 2; // Skip */
-            break;
+      if (token.text === '(') {
+        const isDerived = i === derivedTable?.index;
+        frames.push({ isQuery: false, ctes: [], isDerived, listPhrase: isDerived ? derivedTable!.listPhrase : undefined });
+      } else if (token.text === ')') {
+        if (frames.length > 1) {
+          const frame = frames.pop()!;
+          if (frame.scope && frame.scope !== currentScope()) {
+            frame.scope.end = token.start;
+          }
+          if (frame.isDerived) {
+            const { alias, next } = this.readAlias(tokens, i + 1, true);
+            if (alias) {
+              currentScope().derivedAliases.push(alias);
+            }
+            const afterColumns = alias && tokens[next]?.text === '(' ? this.skipParentheses(tokens, next) : next;
+            if (frame.listPhrase && tokens[afterColumns]?.text === ',') {
+              const listIndex = afterColumns + 1;
+              if (tokens[listIndex]?.text === '(') {
+                derivedTable = { index: listIndex, listPhrase: frame.listPhrase };
+              } else {
+                resumeList = { index: listIndex, phrase: frame.listPhrase };
+              }
+            }
           }
-          i++;
         }
+      } else if (token.text === ';') {
+        // A new statement starts with a clean scope
+        frames[0].scope!.end = tokens[i - 1]?.end ?? token.start;
+        frames = [{ isQuery: true, ctes: [], scope: openScope(tokens[i + 1]?.start ?? token.end) }];
+      } else if (token.type === 'keyword' && token.value === 'WITH') {
+        frames[frames.length - 1].ctes.push(...this.readCteDefinitions(tokens, i));
+      } else if (token.text === ',' && frames[frames.length - 1].fromList) {
+        // A comma after a JOIN item continues the FROM list: FROM a JOIN b ON a.id = b.id, c
+        const listPhrase = frames[frames.length - 1].fromList!;
+        if (tokens[i + 1]?.text === '(') {
+          derivedTable = { index: i + 1, listPhrase };
+        } else {
+          resumeList = { index: i + 1, phrase: listPhrase };
+        }
+      }
+      if (token.type === 'keyword' && FROM_LIST_END_WORDS.has(token.value)) {
+        frames[frames.length - 1].fromList = undefined;
+      }
+
+      if (token.type === 'keyword' && QUERY_START_WORDS.has(token.value)) {
+        const frame = frames[frames.length - 1];
+        frame.isQuery = true;
+        if (!frame.scope) {
+          // A subquery opens its own scope, starting just inside its parenthesis
+          frame.scope = openScope(tokens[i - 1]?.text === '(' ? tokens[i - 1].end : token.start, currentScope());
+        }
+      }
+      if (token.type === 'keyword' && token.value === 'DELETE' && frames.every(frame => frame.verb === undefined)) {
+        // MySQL and SQL Server: DELETE t FROM t JOIN u ..., DELETE a, b FROM ...;
+        // SQL Server and Oracle: DELETE t WHERE ...
+        const targets = this.readDeleteTargets(tokens, i + 1);
+        if (targets && tokens[targets.next]?.type === 'keyword' && tokens[targets.next].value === 'FROM') {
+          frames[frames.length - 1].deleteTargets = targets.names;
+        } else if (targets) {
+          resumeList = { index: targets.start, phrase: ['DELETE'] };
+        }
+      }
+      if (token.type === 'keyword' && STATEMENT_VERBS.has(token.value)) {
+        frames[frames.length - 1].verb ??= token.value;
+      }
+
+      const resumed = i === resumeList?.index ? resumeList.phrase : undefined;
+      const phrase = resumed ?? this.matchKeywordPhrase(tokens, i, phrases);
+      if (!phrase || (!resumed && !this.introducesTable(tokens, i, phrase, frames[frames.length - 1]))) {
+        i++;
         continue;
       }
 
-      // Handle single-quoted strings ('string') - always treat as string literals
-      if (char === "'") {
-        i++; // Skip opening quote
-        while (i < sql.length) {
-          if (sql[i] === "'") {
-            if (sql[i + 1] === "'") {
-              // Escaped quote, skip both
-              i += 2;
+      const keyword = phrase.join(' ');
+      const lastWord = phrase[phrase.length - 1];
+      const isFunctionContext = FUNCTION_CONTEXT_WORDS.has(lastWord);
+      const access = this.getAccessMode(phrase, frames[frames.length - 1].verb);
+      const allowsList = lastWord === 'FROM' || access === 'drop' || access === 'truncate';
+      if (lastWord === 'FROM' && access === 'read') {
+        frames[frames.length - 1].fromList = phrase;
+      }
+      let j = resumed ? i : i + phrase.length;
+
+      // Skip IF [NOT] EXISTS, and modifiers such as LATERAL or ONLY that sit between the keyword and the table
+      if (tokens[j]?.value === 'IF' && tokens[j].type === 'keyword') {
+        j += tokens[j + 1]?.value === 'NOT' ? 3 : 2;
+      }
+      let lateral = lastWord === 'APPLY';
+      while (tokens[j] && tokens[j].type === 'keyword' && TABLE_MODIFIERS.has(tokens[j].value)) {
+        lateral ||= tokens[j].value === 'LATERAL';
+        j++;
+      }
+
+      // Parenthesized joins: FROM (users u JOIN orders o ON ...)
+      if (tokens[j]?.text === '(' && (lastWord === 'FROM' || lastWord === 'JOIN')) {
+        const inner = tokens[j + 1];
+        if (inner && this.isNameToken(inner) && !(inner.type === 'keyword' && QUERY_START_WORDS.has(inner.value))) {
+          // The main loop resumes past the parenthesis, so open its frame here;
+          // aliases inside belong to the enclosing query
+          frames.push({ isQuery: false, ctes: [], scope: currentScope() });
+          j++;
+        } else {
+          derivedTable = { index: j, listPhrase: allowsList ? phrase : undefined };
+          i = j;
+          continue;
+        }
+      }
+
+      // DML targets only take an explicit AS alias, DDL targets none
+      const aliasStyle = access === 'read' || access === 'update' || access === 'delete' || access === 'merge'
+        ? 'bare'
+        : access === 'insert' ? 'explicit' : 'none';
+
+      while (true) {
+        const name = this.readQualifiedName(tokens, j);
+        if (!name) {
+          break;
+        }
+
+        // A name followed by ( in a FROM/JOIN/USING position is a table-valued function.
+        // The main loop goes on into its arguments, which may hold subqueries, and
+        // resumes the FROM list after its alias
+        if (isFunctionContext && tokens[name.next]?.text === '(') {
+          const call = this.readTableFunction(tokens, j, name, keyword, lateral, currentScope().id);
+          functions.push(call.match);
+          if (allowsList && tokens[call.next]?.text === ',') {
+            const listIndex = call.next + 1;
+            if (tokens[listIndex]?.text === '(') {
+              derivedTable = { index: listIndex, listPhrase: phrase };
             } else {
-              // Closing quote
-              i++;
-              break;
+              resumeList = { index: listIndex, phrase };
             }
-          } else {
-            i++;
           }
+          j = name.next;
+          break;
+        }
+
+        // COPY reads and writes stages (@stage/path, @~), which hold files rather than rows
+        if (frames[0].verb === 'COPY' && name.value.startsWith('@')) {
+          j = name.next;
+          break;
+        }
+
+        const isCTE = name.parts.length === 1 && this.isCteInScope(name.value, frames, j);
+        const { alias, next: afterAlias } = aliasStyle === 'none'
+          ? { alias: undefined, next: name.next }
+          : this.readAlias(tokens, name.next, aliasStyle === 'bare');
+        // DELETE a FROM t a names the table by its alias, DELETE t FROM t by its name
+        const deleteTargets = frames[frames.length - 1].deleteTargets;
+        const isDeleteTarget = access === 'read' && !!deleteTargets?.includes((alias ?? name.value).toLowerCase());
+        matches.push({
+          name: name.value,
+          normalizedName: this.normalizeName(name.parts, name.quoted, caseFolding),
+          keyword,
+          isCTE,
+          access: isDeleteTarget ? 'delete' : access,
+          alias,
+          scopeId: currentScope().id,
+          start: tokens[j].start,
+          end: tokens[name.next - 1].end
+        });
+        j = afterAlias;
+
+        if (!allowsList) {
+          break;
         }
-        result += ' '; // Replace with space
+
+        // Comma-separated FROM list: FROM a x, b AS y(c1, c2), (SELECT ...) d, LATERAL f(x.c)
+        const afterColumns = alias && tokens[j]?.text === '(' ? this.skipParentheses(tokens, j) : j;
+        if (tokens[afterColumns]?.text !== ',') {
+          break;
+        }
+        j = afterColumns + 1;
+        lateral = false;
+        while (tokens[j] && tokens[j].type === 'keyword' && TABLE_MODIFIERS.has(tokens[j].value)) {
+          lateral ||= tokens[j].value === 'LATERAL';
+          j++;
+        }
+        if (tokens[j]?.text === '(') {
+          derivedTable = { index: j, listPhrase: phrase };
+          break;
+        }
+      }
+
+      i = Math.max(j, i + 1);
+    }
+
+    return matches;
+  }
+
+  /**
+   * Read the tables or aliases a DELETE without FROM names, skipping MySQL's
+   * modifiers and the .* of DELETE t.* FROM ...
+   */
+  private static readDeleteTargets(tokens: Token[], index: number): { names: string[]; start: number; next: number } | undefined {
+    let start = index;
+    while (tokens[start]?.type !== 'quotedIdentifier' && DELETE_MODIFIERS.has(tokens[start]?.text.toUpperCase())) {
+      start++;
+    }
+    // SQL Server: DELETE TOP (10) FROM t
+    if (tokens[start]?.text.toUpperCase() === 'TOP') {
+      return undefined;
+    }
+
+    const names: string[] = [];
+    let i = start;
+    while (true) {
+      const name = this.readQualifiedName(tokens, i);
+      if (!name) {
+        return names.length > 0 ? { names, start, next: i } : undefined;
+      }
+      names.push(name.value.toLowerCase());
+      i = name.next;
+      if (tokens[i]?.text === '.' && tokens[i + 1]?.text === '*') {
+        i += 2;
+      }
+      if (tokens[i]?.text !== ',') {
+        return { names, start, next: i };
+      }
+      i++;
+    }
+  }
+
+  /**
+   * Work out how a table introduced by a keyword phrase is used. A bare INTO
+   * depends on the statement it belongs to: INSERT ... INTO, MERGE INTO, or
+   * SELECT ... INTO (which creates the table).
+   */
+  private static getAccessMode(phrase: string[], verb: string | undefined): TableAccessMode {
+    const words = new Set(phrase);
+    const firstWord = phrase[0];
+    const lastWord = phrase[phrase.length - 1];
+
+    switch (firstWord) {
+      case 'CREATE':
+        return 'create';
+      case 'ALTER':
+        return 'alter';
+      case 'DROP':
+        return 'drop';
+      case 'TRUNCATE':
+        return 'truncate';
+      case 'COPY':
+        return 'insert';
+    }
+
+    if (lastWord === 'UPDATE') {
+      return 'update';
+    }
+    if (words.has('DELETE')) {
+      return 'delete';
+    }
+    if (words.has('INSERT') || words.has('REPLACE') || words.has('UPSERT')) {
+      return 'insert';
+    }
+    if (words.has('MERGE')) {
+      return 'merge';
+    }
+
+    if (lastWord === 'INTO') {
+      switch (verb) {
+        case 'INSERT':
+        case 'REPLACE':
+        case 'UPSERT':
+        case 'COPY':
+          return 'insert';
+        case 'MERGE':
+          return 'merge';
+        case 'SELECT':
+          return 'create';
+      }
+    }
+
+    return 'read';
+  }
+
+  /**
+   * Return the keyword phrase matching the tokens at the given position, if any
+   */
+  private static matchKeywordPhrase(tokens: Token[], index: number, phrases: string[][]): string[] | undefined {
+    return phrases.find(phrase =>
+      phrase.every((part, offset) => {
+        const token = tokens[index + offset];
+        return token !== undefined &&
+          token.type !== 'quotedIdentifier' &&
+          token.type !== 'string' &&
+          token.text.toUpperCase() === part;
+      })
+    );
+  }
+
+  /**
+   * Rule out keyword matches that do not introduce a table in this position
+   */
+  private static introducesTable(
+    tokens: Token[],
+    index: number,
+    phrase: string[],
+    frame: { isQuery: boolean }
+  ): boolean {
+    const previous = tokens[index - 1]?.text.toUpperCase();
+    const beforePrevious = tokens[index - 2]?.text.toUpperCase();
+
+    if (phrase.length === 1 && phrase[0] === 'FROM') {
+      // x IS [NOT] DISTINCT FROM y
+      if (previous === 'DISTINCT' && (beforePrevious === 'IS' || beforePrevious === 'NOT')) {
+        return false;
+      }
+      // FROM inside function arguments, e.g. EXTRACT(YEAR FROM ts)
+      return frame.isQuery;
+    }
+
+    if (phrase.length === 1 && phrase[0] === 'UPDATE') {
+      // SELECT ... FOR UPDATE, ON DUPLICATE KEY UPDATE
+      return previous !== 'FOR' && previous !== 'KEY';
+    }
+
+    return true;
+  }
+
+  /**
+   * Read a possibly qualified name (db.schema.table) starting at the given token
+   */
+  private static readQualifiedName(
+    tokens: Token[],
+    index: number
+  ): { value: string; parts: string[]; quoted: boolean[]; next: number } | undefined {
+    const first = tokens[index];
+    if (!first || !this.isNameToken(first)) {
+      return undefined;
+    }
+
+    const parts = [this.identifierValue(first)];
+    const quoted = [first.type === 'quotedIdentifier'];
+    let i = index + 1;
+
+    while (tokens[i]?.text === '.') {
+      // SQL Server allows an empty schema part: db..table
+      if (tokens[i + 1]?.text === '.') {
+        parts.push('');
+        quoted.push(false);
+        i++;
         continue;
       }
+      const part = tokens[i + 1];
+      if (!part || !(this.isNameToken(part) || part.type === 'keyword')) {
+        break;
+      }
+      parts.push(this.identifierValue(part));
+      quoted.push(part.type === 'quotedIdentifier');
+      i += 2;
+    }
 
-      // Handle double-quoted strings/identifiers - simplified logic
-      if (char === '"') {
-        // Simple heuristic: if preceded by =, !=, <, >, it's likely a string literal
-        const beforeQuote = result.slice(-10);
-        const isStringLiteral = /[=!<>]\s*$/.test(beforeQuote);
+    return { value: parts.join('.'), parts, quoted, next: i };
+  }
 
-        if (isStringLiteral) {
-          // Treat as string literal, remove it
-          i++; // Skip opening quote
-          while (i < sql.length) {
-            if (sql[i] === '"') {
-              i++; // Skip closing quote
-              break;
-            }
-            i++;
-          }
-          result += ' '; // Replace with space
-        } else {
-          // Treat as identifier, preserve it
-          result += char;
-          i++;
+  /**
+   * The name an identifier token stands for: unquoted content for quoted
+   * identifiers, the text as written otherwise (keyword values are upper-cased)
+   */
+  private static identifierValue(token: Token): string {
+    return token.type === 'quotedIdentifier' ? token.value : token.text;
+  }
+
+  /**
+   * Normalize the parts of a name: unquoted parts are folded by the dialect's
+   * rule, quoted parts are kept exactly
+   */
+  private static normalizeName(parts: string[], quoted: boolean[], caseFolding: CaseFolding): string {
+    return parts.map((part, index) => quoted[index] ? part : this.foldIdentifier(part, caseFolding)).join('.');
+  }
+
+  private static foldIdentifier(identifier: string, caseFolding: CaseFolding): string {
+    switch (caseFolding) {
+      case 'lower':
+        return identifier.toLowerCase();
+      case 'upper':
+        return identifier.toUpperCase();
+      default:
+        return identifier;
+    }
+  }
+
+  /**
+   * Read the CTE list of a WITH clause starting at the given WITH token:
+   * WITH [RECURSIVE] name [(columns)] AS [[NOT] MATERIALIZED] (...) [, ...]
+   *
+   * Returns no definitions for other uses of WITH, such as table hints
+   * (WITH (NOLOCK)) or WITH TIME ZONE.
+   */
+  private static readCteDefinitions(tokens: Token[], index: number): CteDefinition[] {
+    const definitions: CteDefinition[] = [];
+    let i = index + 1;
+    const isRecursive = tokens[i]?.type === 'keyword' && tokens[i].value === 'RECURSIVE';
+    if (isRecursive) {
+      i++;
+    }
+
+    while (true) {
+      const nameToken = tokens[i];
+      if (!nameToken || !this.isNameToken(nameToken) || nameToken.type === 'number') {
+        break;
+      }
+      i++;
+
+      if (tokens[i]?.text === '(') {
+        i = this.skipParentheses(tokens, i);
+      }
+      if (!(tokens[i]?.type === 'keyword' && tokens[i].value === 'AS')) {
+        break;
+      }
+      i++;
+
+      if (tokens[i]?.type === 'keyword' && tokens[i].value === 'NOT') {
+        i++;
+      }
+      if (tokens[i]?.text.toUpperCase() === 'MATERIALIZED') {
+        i++;
+      }
+      if (tokens[i]?.text !== '(') {
+        break;
+      }
+      i = this.skipParentheses(tokens, i);
+
+      // Without RECURSIVE a CTE is only visible after its own definition
+      definitions.push({ name: nameToken.value, visibleFrom: isRecursive ? index : i });
+
+      if (tokens[i]?.text !== ',') {
+        break;
+      }
+      i++;
+    }
+
+    return definitions;
+  }
+
+  /**
+   * Whether a single-part name refers to a CTE visible at the given token,
+   * looking from the innermost scope outwards so nested WITH clauses shadow outer ones
+   */
+  private static isCteInScope(name: string, frames: ScopeFrame[], index: number): boolean {
+    const lowerName = name.toLowerCase();
+
+    for (let f = frames.length - 1; f >= 0; f--) {
+      if (frames[f].ctes.some(cte => cte.name.toLowerCase() === lowerName && cte.visibleFrom <= index)) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Return the index just past the parenthesis matching the one at the given index
+   */
+  private static skipParentheses(tokens: Token[], index: number): number {
+    let depth = 0;
+
+    for (let i = index; i < tokens.length; i++) {
+      if (tokens[i].text === '(') {
+        depth++;
+      } else if (tokens[i].text === ')') {
+        depth--;
+        if (depth === 0) {
+          return i + 1;
         }
-        continue;
       }
+    }
 
-      // Regular character, add to result
-      result += char;
+    return tokens.length;
+  }
+
+  /**
+   * Whether a token can stand for (the first part of) a table name
+   */
+  private static isNameToken(token: Token): boolean {
+    switch (token.type) {
+      case 'identifier':
+      case 'quotedIdentifier':
+      case 'number':
+        return true;
+      case 'keyword':
+        return !NON_TABLE_WORDS.has(token.value);
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Read an optional alias after a table name or derived table. With `allowBare`
+   * the AS is optional, but keywords and clause words (WHERE, ON, LEFT, PIVOT...)
+   * are never taken for an alias.
+   */
+  private static readAlias(tokens: Token[], index: number, allowBare: boolean): { alias?: string; next: number } {
+    let i = index;
+    const hasAs = tokens[i]?.type === 'keyword' && tokens[i].value === 'AS';
+    if (hasAs) {
       i++;
     }
 
-    return result.replace(/\s+/g, ' ').trim();
+    const token = tokens[i];
+    if (token && (hasAs || allowBare) && (
+      token.type === 'quotedIdentifier' ||
+      (token.type === 'identifier' && !NON_ALIAS_WORDS.has(token.text.toUpperCase()))
+    )) {
+      return { alias: token.value, next: i + 1 };
+    }
+
+    return { next: index };
+  }
+
+  /**
+   * Read a table-valued function call whose name starts at tokens[index]: its
+   * name (unwrapping TABLE(f(...))), the qualifiers of the columns in its
+   * arguments and its alias. `next` is the position after the alias and its
+   * column list, where a FROM list may continue.
+   */
+  private static readTableFunction(
+    tokens: Token[],
+    index: number,
+    name: { value: string; parts: string[]; next: number },
+    keyword: string,
+    lateral: boolean,
+    scopeId: number
+  ): { match: TableFunctionMatch; next: number } {
+    const open = name.next;
+    const close = this.skipParentheses(tokens, open);
+
+    let functionName = name.value;
+    if (name.parts.length === 1 && name.value.toUpperCase() === 'TABLE') {
+      const inner = this.readQualifiedName(tokens, open + 1);
+      if (inner && tokens[inner.next]?.text === '(') {
+        functionName = inner.value;
+      }
+    }
+
+    // Dotted column names in the arguments: t.col, s.t.col
+    const argumentQualifiers = new Set<string>();
+    for (let k = open + 1; k < close - 1; k++) {
+      if (tokens[k - 1].text === '.' || !(tokens[k].type === 'identifier' || tokens[k].type === 'quotedIdentifier')) {
+        continue;
+      }
+      const chain = this.readQualifiedName(tokens, k);
+      if (chain && chain.parts.length > 1 && tokens[chain.next]?.text !== '(') {
+        argumentQualifiers.add(chain.parts.slice(0, -1).join('.').toLowerCase());
+      }
+      k = Math.max(k, (chain?.next ?? k) - 1);
+    }
+
+    const { alias, next: afterAlias } = this.readAlias(tokens, close, true);
+    return {
+      match: {
+        name: functionName,
+        keyword,
+        lateral,
+        ...(alias !== undefined && { alias }),
+        scopeId,
+        argumentQualifiers: Array.from(argumentQualifiers),
+        start: tokens[index].start,
+        end: tokens[close - 1]?.end ?? tokens[open].end,
+        argumentsStart: tokens[open].end,
+        argumentsEnd: tokens[close - 1]?.start ?? tokens[open].end
+      },
+      next: alias && tokens[afterAlias]?.text === '(' ? this.skipParentheses(tokens, afterAlias) : afterAlias
+    };
   }
 
   /**
    * Simple helper for when you just want the table names as strings
    */
-  static getTableNamesSimple(sql: string, knownTables?: Map<string, TableMetadata>): string[] {
+  static getTableNamesSimple(sql: string, knownTables?: Map<string, TableMetadata> | TableCatalog): string[] {
     const result = this.extractTableNames(sql, {
       knownTables,
       filterCTEs: !!knownTables
@@ -0,0 +1,438 @@
+import { getDialectLexerOptions, SqlDialect, SqlDialectName } from './dialects.js';
+import { isRecord } from './json.js';
+import { SqlTableExtractor, TableExtractionOptions } from './parser.js';
+import { splitStatements } from './statements.js';
+
+export type QueryLogFormat = 'sql' | 'ndjson' | 'csv' | 'postgres' | 'mysql-general' | 'mysql-slow';
+
+export const QUERY_LOG_FORMATS: QueryLogFormat[] = ['sql', 'ndjson', 'csv', 'postgres', 'mysql-general', 'mysql-slow'];
+
+/** One query read from a log */
+export interface LoggedQuery {
+  sql: string;
+  /** 1-based line of the log where the query starts */
+  line: number;
+  /** Time the query was logged, as written in the log */
+  timestamp?: string;
+  /** User who ran the query */
+  user?: string;
+  /** Database the query ran against */
+  database?: string;
+}
+
+/** An entry of a log that could not be read */
+export interface QueryLogError {
+  /** 1-based line of the entry */
+  line: number;
+  message: string;
+}
+
+export interface QueryLogReadResult {
+  queries: LoggedQuery[];
+  errors: QueryLogError[];
+}
+
+export interface QueryLogOptions {
+  /** Field holding the SQL in NDJSON records; dots reach into nested objects (default: 'query') */
+  field?: string;
+  /** Header of the CSV column holding the SQL (default: 'query') */
+  column?: string;
+  /**
+   * NDJSON field or CSV column holding the query time; by default the first of
+   * `timestamp`, `time` and `ts` (CSV also `start_time`)
+   */
+  timestampField?: string;
+  /** NDJSON field or CSV column holding the user; by default `user`, `user_name` or `username` */
+  userField?: string;
+  /** Dialect used to split plain SQL scripts into statements */
+  dialect?: SqlDialectName | SqlDialect;
+}
+
+/** Number of queries that used each table */
+export interface TableUsageCounts {
+  /** Queries read */
+  queries: number;
+  /** Queries the extractor failed on */
+  failedQueries: number;
+  /** Number of queries using each table, most used first */
+  tables: Record<string, number>;
+}
+
+/** Level of a Postgres log entry, followed by the two spaces Postgres writes after it */
+const POSTGRES_ENTRY = /\b(?:LOG|ERROR|WARNING|NOTICE|INFO|DEBUG\d?|FATAL|PANIC|DETAIL|HINT|CONTEXT|STATEMENT|LOCATION|QUERY):  /;
+
+/** Postgres LOG messages carrying a statement, with or without a logged duration */
+const POSTGRES_STATEMENT = /\bLOG:  (?:duration: [\d.]+ ms\s+)?(?:statement|execute [^:]*): ([\s\S]*)$/;
+
+const POSTGRES_TIMESTAMP = /^\s*(\d{4}-\d\d-\d\d[ T]\d\d:\d\d:\d\d(?:\.\d+)?(?: ?(?:[A-Z]{2,5}|[+-]\d\d(?::?\d\d)?))?)/;
+
+/** `user@database` as written by the `%u@%d` escapes of log_line_prefix, or `user=...,db=...` */
+const POSTGRES_USER_AT_DATABASE = /\s([\w$.-]+)@([\w$.-]+)\s/;
+const POSTGRES_USER = /\buser=([^,\s]+)/;
+const POSTGRES_DATABASE = /\bdb=([^,\s]+)/;
+
+/** Entry of a MySQL general log: optional time, connection id, command and argument */
+const MYSQL_GENERAL_ENTRY = /^(\d{4}-\d\d-\d\dT[\d:.]+Z?|\d{6}\s+\d{1,2}:\d\d:\d\d)?\s+(\d+)\s(Query|Execute|Connect|Init DB|Quit|Prepare|Close stmt|Reset stmt|Field List|Change user|Statistics|Ping|Refresh|Shutdown|Kill|Debug|Processlist|Set option|Fetch|Long Data|Binlog Dump|Create DB|Drop DB|Sleep|Daemon|Error|Time)\b\t?(.*)$/;
+
+/** Header lines a MySQL server writes at the top of its log files */
+const MYSQL_HEADER = /^(?:\S+, Version: .* started with:|Tcp port: .*|Time\s+Id\s+Command\s+Argument)$/;
+
+/** `SET timestamp=...;` written by the slow log before each query */
+const MYSQL_SLOW_TIMESTAMP = /^SET timestamp=\d+;$/i;
+
+/** `use db;` written by the slow log when a query runs against another database */
+const MYSQL_SLOW_USE = /^use\s+`?([^`;\s]+)`?;$/i;
+
+/**
+ * Read the queries of a query log.
+ *
+ * - `sql`: a SQL script, one query per statement
+ * - `ndjson`: one JSON record per line, with the SQL in `options.field`
+ * - `csv`: a header line, then one record per row, with the SQL in `options.column`
+ * - `postgres`: a PostgreSQL text log written with `log_statement` (or
+ *   `log_min_duration_statement`), keeping `statement:` and `execute` entries
+ * - `mysql-general`, `mysql-slow`: MySQL general and slow query logs
+ *
+ * Entries that cannot be read are reported in `errors` and do not stop the others.
+ */
+export function readQueryLog(text: string, format: QueryLogFormat, options: QueryLogOptions = {}): QueryLogReadResult {
+  switch (format) {
+    case 'sql':
+      return readSqlScript(text, options);
+    case 'ndjson':
+      return readNdjsonLog(text, options.field ?? 'query', options);
+    case 'csv':
+      return readCsvLog(text, options.column ?? 'query', options);
+    case 'postgres':
+      return readPostgresLog(text);
+    case 'mysql-general':
+      return readMysqlGeneralLog(text);
+    case 'mysql-slow':
+      return readMysqlSlowLog(text);
+    default:
+      throw new Error(`Unknown query log format "${format}". Available formats: ${QUERY_LOG_FORMATS.join(', ')}`);
+  }
+}
+
+/**
+ * Run every query through the extractor and count the queries using each
+ * table. A query's database, when the log has one, is its current database.
+ */
+export function countTableUsage(queries: Iterable<LoggedQuery | string>, options: TableExtractionOptions = {}): TableUsageCounts {
+  const counts = new Map<string, number>();
+  let total = 0;
+  let failedQueries = 0;
+
+  for (const query of queries) {
+    const { sql, database } = typeof query === 'string' ? { sql: query, database: undefined } : query;
+    total++;
+    try {
+      const { realTables } = SqlTableExtractor.extractTableNames(sql, {
+        ...options,
+        currentDatabase: database ?? options.currentDatabase
+      });
+      realTables.forEach(table => counts.set(table, (counts.get(table) ?? 0) + 1));
+    } catch {
+      failedQueries++;
+    }
+  }
+
+  const tables: Record<string, number> = {};
+  Array.from(counts)
+    .sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b))
+    .forEach(([table, count]) => {
+      tables[table] = count;
+    });
+  return { queries: total, failedQueries, tables };
+}
+
+function readSqlScript(text: string, options: QueryLogOptions): QueryLogReadResult {
+  const statements = splitStatements(text, { lexer: getDialectLexerOptions(options.dialect) });
+  return {
+    queries: statements.map(statement => ({ sql: statement.text, line: statement.line })),
+    errors: []
+  };
+}
+
+function readNdjsonLog(text: string, field: string, options: QueryLogOptions): QueryLogReadResult {
+  const result: QueryLogReadResult = { queries: [], errors: [] };
+  const timestampFields = options.timestampField ? [options.timestampField] : ['timestamp', 'time', 'ts'];
+  const userFields = options.userField ? [options.userField] : ['user', 'user_name', 'username'];
+
+  text.split('\n').forEach((content, index) => {
+    const line = index + 1;
+    if (content.trim() === '') {
+      return;
+    }
+
+    let record: unknown;
+    try {
+      record = JSON.parse(content);
+    } catch (error) {
+      result.errors.push({ line, message: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}` });
+      return;
+    }
+
+    const sql = getField(record, field);
+    if (typeof sql !== 'string') {
+      result.errors.push({ line, message: `Field "${field}" is missing or not a string` });
+      return;
+    }
+    result.queries.push({
+      sql,
+      line,
+      ...optionalField(record, 'timestamp', timestampFields),
+      ...optionalField(record, 'user', userFields),
+      ...optionalField(record, 'database', ['database', 'database_name', 'db'])
+    });
+  });
+
+  return result;
+}
+
+function readCsvLog(text: string, column: string, options: QueryLogOptions): QueryLogReadResult {
+  const result: QueryLogReadResult = { queries: [], errors: [] };
+  const [header, ...rows] = parseCsv(text);
+  if (!header) {
+    return result;
+  }
+
+  const columnIndex = header.fields.indexOf(column);
+  if (columnIndex === -1) {
+    throw new Error(`CSV header has no "${column}" column`);
+  }
+  const find = (names: string[]) => header.fields.findIndex(name => names.includes(name.toLowerCase()));
+  const timestampIndex = options.timestampField
+    ? header.fields.indexOf(options.timestampField)
+    : find(['timestamp', 'time', 'start_time', 'ts']);
+  const userIndex = options.userField ? header.fields.indexOf(options.userField) : find(['user', 'user_name', 'username']);
+  const databaseIndex = find(['database', 'database_name', 'db']);
+
+  for (const row of rows) {
+    if (row.fields.length === 1 && row.fields[0] === '') {
+      continue;
+    }
+    const sql = row.fields[columnIndex];
+    if (sql === undefined) {
+      result.errors.push({ line: row.line, message: `Row has no "${column}" column` });
+      continue;
+    }
+    const value = (index: number) => index !== -1 && row.fields[index] ? row.fields[index] : undefined;
+    const timestamp = value(timestampIndex);
+    const user = value(userIndex);
+    const database = value(databaseIndex);
+    result.queries.push({
+      sql,
+      line: row.line,
+      ...(timestamp !== undefined && { timestamp }),
+      ...(user !== undefined && { user }),
+      ...(database !== undefined && { database })
+    });
+  }
+
+  return result;
+}
+
+function readPostgresLog(text: string): QueryLogReadResult {
+  const result: QueryLogReadResult = { queries: [], errors: [] };
+  let current: LoggedQuery | undefined;
+
+  text.split('\n').forEach((content, index) => {
+    if (!POSTGRES_ENTRY.test(content)) {
+      // Multi-line statements continue on the following lines
+      if (current) {
+        current.sql += '\n' + content.replace(/^\t/, '');
+      }
+      return;
+    }
+
+    current = undefined;
+    const match = POSTGRES_STATEMENT.exec(content);
+    if (!match) {
+      return;
+    }
+
+    const prefix = content.slice(0, match.index);
+    const timestamp = POSTGRES_TIMESTAMP.exec(prefix)?.[1];
+    const userAtDatabase = POSTGRES_USER_AT_DATABASE.exec(` ${prefix} `);
+    const user = userAtDatabase?.[1] ?? POSTGRES_USER.exec(prefix)?.[1];
+    const database = userAtDatabase?.[2] ?? POSTGRES_DATABASE.exec(prefix)?.[1];
+    current = {
+      sql: match[1],
+      line: index + 1,
+      ...(timestamp !== undefined && { timestamp }),
+      ...(user !== undefined && { user }),
+      ...(database !== undefined && { database })
+    };
+    result.queries.push(current);
+  });
+
+  result.queries.forEach(query => {
+    query.sql = query.sql.trim();
+  });
+  return result;
+}
+
+function readMysqlGeneralLog(text: string): QueryLogReadResult {
+  const result: QueryLogReadResult = { queries: [], errors: [] };
+  const connections = new Map<string, { user?: string; database?: string }>();
+  let current: LoggedQuery | undefined;
+  let timestamp: string | undefined;
+
+  text.split('\n').forEach((content, index) => {
+    const match = MYSQL_GENERAL_ENTRY.exec(content);
+    if (!match) {
+      if (current && !MYSQL_HEADER.test(content)) {
+        current.sql += '\n' + content;
+      }
+      return;
+    }
+
+    current = undefined;
+    const [, time, id, command, argument] = match;
+    // Older servers write the time only when it changes
+    timestamp = time ?? timestamp;
+    const connection = connections.get(id) ?? {};
+
+    if (command === 'Connect') {
+      const login = /^(\S+?)@\S+(?: on (\S*))?/.exec(argument);
+      connections.set(id, { user: login?.[1], database: login?.[2] || undefined });
+    } else if (command === 'Init DB') {
+      connections.set(id, { ...connection, database: argument.trim() });
+    } else if (command === 'Query' || command === 'Execute') {
+      current = {
+        sql: argument,
+        line: index + 1,
+        ...(timestamp !== undefined && { timestamp }),
+        ...(connection.user !== undefined && { user: connection.user }),
+        ...(connection.database !== undefined && { database: connection.database })
+      };
+      result.queries.push(current);
+    }
+  });
+
+  result.queries.forEach(query => {
+    query.sql = query.sql.trim();
+  });
+  return result;
+}
+
+function readMysqlSlowLog(text: string): QueryLogReadResult {
+  const result: QueryLogReadResult = { queries: [], errors: [] };
+  let entry: { timestamp?: string; user?: string } = {};
+  let database: string | undefined;
+  let lines: string[] = [];
+  let start = 0;
+
+  const flush = () => {
+    const sql = lines.join('\n').trim();
+    if (sql !== '') {
+      result.queries.push({
+        sql,
+        line: start,
+        ...(entry.timestamp !== undefined && { timestamp: entry.timestamp }),
+        ...(entry.user !== undefined && { user: entry.user }),
+        ...(database !== undefined && { database })
+      });
+    }
+    lines = [];
+  };
+
+  text.split('\n').forEach((content, index) => {
+    if (content.startsWith('# ')) {
+      const time = /^# Time: (.+)$/.exec(content);
+      const user = /^# User@Host: ([^[\s]+)/.exec(content);
+      if (time || user) {
+        flush();
+        entry = time ? { timestamp: time[1].trim() } : { ...entry, user: user![1] };
+      }
+      return;
+    }
+    if (MYSQL_HEADER.test(content) || MYSQL_SLOW_TIMESTAMP.test(content.trim())) {
+      return;
+    }
+    const use = MYSQL_SLOW_USE.exec(content.trim());
+    if (use && lines.length === 0) {
+      database = use[1];
+      return;
+    }
+    if (lines.length === 0) {
+      if (content.trim() === '') {
+        return;
+      }
+      start = index + 1;
+    }
+    lines.push(content);
+  });
+  flush();
+
+  return result;
+}
+
+/**
+ * Split CSV text into records, with quoted fields that may hold separators,
+ * doubled quotes and line breaks
+ */
+export function parseCsv(text: string): { fields: string[]; line: number }[] {
+  const records: { fields: string[]; line: number }[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let line = 1;
+  let recordLine = 1;
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '\n') {
+      line++;
+    }
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        continue;
+      }
+      fields.push(field);
+      records.push({ fields, line: recordLine });
+      fields = [];
+      field = '';
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || fields.length > 0) {
+    fields.push(field);
+    records.push({ fields, line: recordLine });
+  }
+  return records;
+}
+
+/**
+ * A field of a record; dots in the name reach into nested objects
+ */
+function getField(record: unknown, field: string): unknown {
+  return field.split('.').reduce<unknown>((value, key) => isRecord(value) ? value[key] : undefined, record);
+}
+
+/**
+ * The first string or number among some fields of a record, under a given key
+ */
+function optionalField(record: unknown, key: keyof LoggedQuery, fields: string[]): Partial<LoggedQuery> {
+  const value = fields.map(field => getField(record, field)).find(candidate => typeof candidate === 'string' || typeof candidate === 'number');
+  return value !== undefined ? { [key]: String(value) } : {};
+}
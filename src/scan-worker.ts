@@ -0,0 +1,66 @@
+import { fileURLToPath } from 'url';
+import { isMainThread, parentPort, Worker, workerData } from 'worker_threads';
+import { TableCatalog } from './catalog.js';
+import { TableExtractionOptions } from './parser.js';
+import { buildScanReport, failedFile, scanFile, scanFiles, ScannedFile, ScanReport } from './scan.js';
+
+/** Data passed to each worker thread */
+interface ScanWorkerData {
+  files: string[];
+  options: TableExtractionOptions;
+}
+
+/**
+ * Parse files on several worker threads, as `scanFiles` does on the calling
+ * thread. Files keep their order in the report. A worker that fails has its
+ * files reported as failed without stopping the others.
+ *
+ * Workers run this module's compiled script; when it runs from TypeScript
+ * sources the files are parsed on the calling thread instead.
+ */
+export async function scanFilesInParallel(
+  files: string[],
+  options: TableExtractionOptions = {},
+  workers: number = 1
+): Promise<ScanReport> {
+  const workerCount = Math.min(Math.max(1, Math.floor(workers)), files.length);
+  if (workerCount <= 1 || !fileURLToPath(import.meta.url).endsWith('.js')) {
+    return scanFiles(files, options);
+  }
+
+  // A catalog loses its methods when copied to a worker, so send its entries and settings
+  const knownTables = options.knownTables && TableCatalog.from(options.knownTables, {
+    dialect: options.dialect,
+    caseInsensitive: options.caseInsensitive
+  });
+  const workerOptions: TableExtractionOptions = {
+    ...options,
+    ...(knownTables && { knownTables: new Map(knownTables), caseInsensitive: knownTables.caseInsensitive })
+  };
+
+  // Deal files out in turn so that each worker gets a share of every directory
+  const chunks = Array.from({ length: workerCount }, (_, worker) => files.filter((_, i) => i % workerCount === worker));
+  const results = await Promise.all(chunks.map(chunk => runWorker({ files: chunk, options: workerOptions })));
+
+  const scanned = new Array<ScannedFile>(files.length);
+  results.forEach((chunk, worker) => chunk.forEach((file, i) => {
+    scanned[i * workerCount + worker] = file;
+  }));
+  return buildScanReport(scanned);
+}
+
+function runWorker(data: ScanWorkerData): Promise<ScannedFile[]> {
+  return new Promise(resolve => {
+    const worker = new Worker(new URL(import.meta.url), { workerData: data });
+    const fail = (error: unknown) => resolve(data.files.map(file => failedFile(file, error)));
+
+    worker.once('message', (scanned: ScannedFile[]) => resolve(scanned));
+    worker.once('error', fail);
+    worker.once('exit', code => fail(new Error(`Worker stopped with exit code ${code}`)));
+  });
+}
+
+if (!isMainThread && parentPort) {
+  const { files, options } = workerData as ScanWorkerData;
+  parentPort.postMessage(files.map(file => scanFile(file, options)));
+}
@@ -0,0 +1,226 @@
+import { readdirSync, readFileSync, statSync } from 'fs';
+import { join, relative, sep } from 'path';
+import { TableCatalog } from './catalog.js';
+import { Diagnostic, SqlTableExtractor, TableAccessMode, TableExtractionOptions } from './parser.js';
+
+/** The tables of one scanned file */
+export interface ScannedFile {
+  /** Path of the file, as found */
+  file: string;
+  /** Number of statements in the file */
+  statements: number;
+  /** Real tables referenced by the file, CTEs excluded */
+  tables: string[];
+  /** Access modes of each table across the file's statements */
+  tableAccess: Record<string, TableAccessMode[]>;
+  /** Diagnostics of the file's statements */
+  diagnostics: Diagnostic[];
+  /** Why the file could not be read or parsed; its tables are then empty */
+  error?: string;
+}
+
+export interface ScanReport {
+  /** Every file, in the order found */
+  files: ScannedFile[];
+  /** Files referencing each table, keyed by table name */
+  tables: Record<string, string[]>;
+  totals: {
+    files: number;
+    /** Files that could not be read or parsed */
+    failedFiles: number;
+    statements: number;
+    /** Distinct tables across all files */
+    tables: number;
+    diagnostics: number;
+  };
+}
+
+/** Extension of the files collected from directories */
+const SQL_EXTENSION = '.sql';
+
+/** Directories never entered when walking a directory or glob */
+const SKIPPED_DIRECTORIES = new Set(['node_modules']);
+
+const GLOB_CHARACTERS = /[*?[{]/;
+
+/**
+ * Expand directories and glob patterns into a list of files.
+ *
+ * A directory yields every `.sql` file below it. A pattern may use `*`, `?`,
+ * `[abc]`, `{a,b}` and `**` for any number of directories. Other paths are
+ * kept as they are, so that missing files are reported when scanned. Hidden
+ * and `node_modules` directories are not entered. Each file appears once, in
+ * the order of the patterns.
+ */
+export function findSqlFiles(patterns: string[]): string[] {
+  const files = new Set<string>();
+
+  for (const pattern of patterns) {
+    const segments = pattern.split(/[\\/]/);
+    const globStart = segments.findIndex(segment => GLOB_CHARACTERS.test(segment));
+
+    if (globStart === -1) {
+      if (isDirectory(pattern)) {
+        walk(pattern).filter(file => file.endsWith(SQL_EXTENSION)).forEach(file => files.add(file));
+      } else {
+        files.add(pattern);
+      }
+      continue;
+    }
+
+    const base = segments.slice(0, globStart).join('/');
+    const matcher = globToRegExp(segments.slice(globStart).join('/'));
+    const root = base === '' ? '.' : base;
+    if (!isDirectory(root)) {
+      continue;
+    }
+    for (const file of walk(root)) {
+      if (matcher.test(relative(root, file).split(sep).join('/'))) {
+        files.add(file);
+      }
+    }
+  }
+
+  return Array.from(files);
+}
+
+/**
+ * Read and parse one file. Failures are reported on the result rather than thrown.
+ */
+export function scanFile(file: string, options: TableExtractionOptions = {}): ScannedFile {
+  const scanned: ScannedFile = { file, statements: 0, tables: [], tableAccess: {}, diagnostics: [] };
+
+  try {
+    const sql = readFileSync(file, 'utf-8');
+    const tables = new Set<string>();
+
+    for (const result of SqlTableExtractor.extractTableNamesByStatement(sql, options)) {
+      scanned.statements++;
+      result.realTables.forEach(table => tables.add(table));
+      for (const [table, modes] of Object.entries(result.tableAccess)) {
+        scanned.tableAccess[table] = Array.from(new Set([...(scanned.tableAccess[table] ?? []), ...modes]));
+      }
+      scanned.diagnostics.push(...result.diagnostics);
+    }
+    scanned.tables = Array.from(tables);
+  } catch (error) {
+    return failedFile(file, error);
+  }
+
+  return scanned;
+}
+
+/**
+ * Parse every file and aggregate the tables they reference. A file that fails
+ * is reported in the result and does not stop the others.
+ */
+export function scanFiles(files: string[], options: TableExtractionOptions = {}): ScanReport {
+  // Index the known tables once for all files
+  const knownTables = options.knownTables && TableCatalog.from(options.knownTables, {
+    dialect: options.dialect,
+    caseInsensitive: options.caseInsensitive
+  });
+  return buildScanReport(files.map(file => scanFile(file, { ...options, knownTables })));
+}
+
+/**
+ * Aggregate scanned files into a report with a table to files index and totals
+ */
+export function buildScanReport(files: ScannedFile[]): ScanReport {
+  const tables: Record<string, string[]> = {};
+  for (const scanned of files) {
+    for (const table of scanned.tables) {
+      (tables[table] ??= []).push(scanned.file);
+    }
+  }
+
+  return {
+    files,
+    tables,
+    totals: {
+      files: files.length,
+      failedFiles: files.filter(file => file.error !== undefined).length,
+      statements: files.reduce((sum, file) => sum + file.statements, 0),
+      tables: Object.keys(tables).length,
+      diagnostics: files.reduce((sum, file) => sum + file.diagnostics.length, 0)
+    }
+  };
+}
+
+/**
+ * The result of a file that could not be read or parsed
+ */
+export function failedFile(file: string, error: unknown): ScannedFile {
+  return {
+    file,
+    statements: 0,
+    tables: [],
+    tableAccess: {},
+    diagnostics: [],
+    error: error instanceof Error ? error.message : String(error)
+  };
+}
+
+/**
+ * Every file below a directory, in name order
+ */
+function walk(directory: string): string[] {
+  const files: string[] = [];
+  const entries = readdirSync(directory, { withFileTypes: true }).sort((a, b) => a.name.localeCompare(b.name));
+
+  for (const entry of entries) {
+    if (entry.name.startsWith('.') || SKIPPED_DIRECTORIES.has(entry.name)) {
+      continue;
+    }
+    const path = join(directory, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...walk(path));
+    } else if (entry.isFile()) {
+      files.push(path);
+    }
+  }
+  return files;
+}
+
+function isDirectory(path: string): boolean {
+  try {
+    return statSync(path).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+function globToRegExp(glob: string): RegExp {
+  let source = '';
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      // `**/` matches no directory as well as any number of them
+      const crossesSegment = glob[i + 2] === '/';
+      source += crossesSegment ? '(?:.*/)?' : '.*';
+      i += crossesSegment ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[' && glob.indexOf(']', i + 2) !== -1) {
+      const close = glob.indexOf(']', i + 2);
+      const set = glob.slice(i + 1, close);
+      source += `[${set.startsWith('!') ? '^' + escapeClass(set.slice(1)) : escapeClass(set)}]`;
+      i = close;
+    } else if (char === '{' && glob.indexOf('}', i) !== -1) {
+      const close = glob.indexOf('}', i);
+      source += `(?:${glob.slice(i + 1, close).split(',').map(option => globToRegExp(option).source.slice(1, -1)).join('|')})`;
+      i = close;
+    } else {
+      source += char.replace(/[.+^$(){}[\]|\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+function escapeClass(set: string): string {
+  return set.replace(/[\\\]^]/g, '\\$&');
+}
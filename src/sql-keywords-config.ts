@@ -16,6 +16,8 @@ export const defaultSqlKeywords: SqlKeywordsConfig = {
     'FULL JOIN',
     'CROSS JOIN',
     'OUTER JOIN',
+    'CROSS APPLY',
+    'OUTER APPLY',
 
     // DML operations
     'INTO',
@@ -25,7 +27,14 @@ export const defaultSqlKeywords: SqlKeywordsConfig = {
     'REPLACE INTO',
     'UPSERT INTO',
     'MERGE INTO',
-    'USING'
+    'USING',
+
+    // DDL operations
+    'CREATE TABLE',
+    'ALTER TABLE',
+    'DROP TABLE',
+    'TRUNCATE TABLE',
+    'TRUNCATE'
   ],
 
   all: [
@@ -38,6 +47,8 @@ export const defaultSqlKeywords: SqlKeywordsConfig = {
     'FULL JOIN',
     'CROSS JOIN',
     'OUTER JOIN',
+    'CROSS APPLY',
+    'OUTER APPLY',
 
     // DML operations
     'INTO',
@@ -49,24 +60,40 @@ export const defaultSqlKeywords: SqlKeywordsConfig = {
     'MERGE INTO',
     'USING',
 
+    // DDL operations
+    'CREATE TABLE',
+    'ALTER TABLE',
+    'DROP TABLE',
+    'TRUNCATE TABLE',
+    'TRUNCATE',
+
     // Extended keywords from various databases
     'LATERAL JOIN',
     'RETURNING',
     'STRAIGHT_JOIN',
-    'CROSS APPLY',
-    'OUTER APPLY',
     'OUTPUT',
     'CONNECT BY',
     'MODEL',
     'LATERAL FLATTEN',
     'COPY INTO',
-    'CREATE TABLE',
     'CREATE OR REPLACE TABLE',
     'CREATE TRANSIENT TABLE',
     'CREATE TEMPORARY TABLE',
     'INSERT ALL INTO',
     'INSERT IGNORE INTO',
-    'SELECT * FROM'
+    'SELECT * FROM',
+    'MERGE',
+    'INSERT OVERWRITE INTO',
+    'INSERT OR REPLACE INTO',
+    'INSERT OR IGNORE INTO',
+    'CREATE TEMP TABLE',
+    'CREATE UNLOGGED TABLE',
+    'CREATE GLOBAL TEMPORARY TABLE',
+    'ASOF JOIN',
+    'POSITIONAL JOIN',
+    'SEMI JOIN',
+    'ANTI JOIN',
+    'GLOBAL JOIN'
   ]
 };
 
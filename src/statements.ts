@@ -0,0 +1,242 @@
+import { createPositionLookup, LexerOptions, Token, tokenize } from './lexer.js';
+
+export interface SqlStatement {
+  /** 0-based position of the statement in the script */
+  index: number;
+  /** The statement text as written, without its terminator */
+  text: string;
+  /** Offset of the first character in the original SQL */
+  start: number;
+  /** Offset just past the last character in the original SQL */
+  end: number;
+  /** 1-based line of the first character */
+  line: number;
+  /** 1-based column of the first character */
+  column: number;
+}
+
+export interface StatementSplitOptions {
+  /** Statement terminator in effect at the start of the script (default: ';') */
+  delimiter?: string;
+  /** Options passed on to the lexer */
+  lexer?: LexerOptions;
+}
+
+/** A statement together with its tokens, comments included */
+export interface TokenizedStatement extends SqlStatement {
+  tokens: Token[];
+}
+
+/** Words after BEGIN that make it a transaction start rather than a block */
+const TRANSACTION_WORDS = new Set([
+  'TRANSACTION', 'TRAN', 'WORK', 'DEFERRED', 'IMMEDIATE', 'EXCLUSIVE', 'DISTRIBUTED', 'ISOLATION'
+]);
+
+/** Words after END that close a construct whose opener is not counted (END IF, END LOOP...) */
+const UNCOUNTED_END_WORDS = new Set(['IF', 'LOOP', 'WHILE', 'REPEAT', 'FOR']);
+
+/** Routine kinds whose Oracle-style IS introduces a declaration section before BEGIN */
+const ROUTINE_WORDS = new Set(['PROCEDURE', 'FUNCTION', 'PACKAGE']);
+
+/**
+ * Split a SQL script into statements.
+ *
+ * Statements end at the current delimiter (';' unless changed by a MySQL
+ * `DELIMITER` line) or at a SQL Server `GO` batch separator line. Semicolons
+ * inside strings, comments, dollar-quoted bodies and BEGIN...END blocks do not
+ * end a statement. `DELIMITER` and `GO` lines are client commands and are not
+ * returned as statements; neither are empty or comment-only statements.
+ */
+export function splitStatements(sql: string, options: StatementSplitOptions = {}): SqlStatement[] {
+  return splitTokenizedStatements(sql, options).map(({ tokens: _tokens, ...statement }) => statement);
+}
+
+/**
+ * Split a SQL script into statements, keeping the tokens of each one
+ */
+export function splitTokenizedStatements(sql: string, options: StatementSplitOptions = {}): TokenizedStatement[] {
+  let delimiter = options.delimiter ?? ';';
+  const lexerOptions = options.lexer ?? {};
+  const toPosition = createPositionLookup(sql);
+  const statements: TokenizedStatement[] = [];
+
+  let tokens = tokenize(sql, lexerOptionsFor(delimiter, lexerOptions));
+  let current: Token[] = [];
+  // Depth of BEGIN...END blocks, plus declaration sections waiting for their BEGIN
+  let blockDepth = 0;
+  let pendingBlock = false;
+
+  const flush = () => {
+    const significant = current.filter(token => token.type !== 'comment');
+    if (significant.length > 0) {
+      const start = current[0].start;
+      const end = current[current.length - 1].end;
+      statements.push({
+        index: statements.length,
+        text: sql.slice(start, end),
+        start,
+        end,
+        ...toPosition(start),
+        tokens: current
+      });
+    }
+    current = [];
+    blockDepth = 0;
+    pendingBlock = false;
+  };
+
+  for (let t = 0; t < tokens.length; t++) {
+    if (delimiter !== ';') {
+      // Words may run into a custom delimiter, as in END$$
+      const pieces = splitAtDelimiter(sql, tokens[t], delimiter, lexerOptionsFor(delimiter, lexerOptions));
+      if (pieces) {
+        tokens = [...tokens.slice(0, t), ...pieces, ...tokens.slice(t + 1)];
+      }
+    }
+    const token = tokens[t];
+    const upper = token.type === 'keyword' || token.type === 'identifier' ? token.text.toUpperCase() : '';
+
+    // Client commands occupy a whole line
+    if ((upper === 'GO' || upper === 'DELIMITER') && isAtLineStart(sql, token.start)) {
+      const lineEnd = findLineEnd(sql, token.end);
+      const rest = sql.slice(token.end, lineEnd);
+
+      if (upper === 'GO' && /^\s*(\d+)?\s*(--.*)?$/.test(rest)) {
+        flush();
+        t = skipTo(tokens, t, lineEnd);
+        continue;
+      }
+
+      const delimiterMatch = /^\s+(\S+)/.exec(rest);
+      if (upper === 'DELIMITER' && delimiterMatch && !current.some(token => token.type !== 'comment')) {
+        flush();
+        delimiter = delimiterMatch[1];
+        // The new delimiter may change how the rest of the script lexes (e.g. DELIMITER $$)
+        const remaining = tokenize(sql.slice(lineEnd), lexerOptionsFor(delimiter, lexerOptions))
+          .map(token => ({ ...token, start: token.start + lineEnd, end: token.end + lineEnd }));
+        tokens = [...tokens.slice(0, t + 1), ...remaining];
+        continue;
+      }
+    }
+
+    const isCode = token.type !== 'comment' && token.type !== 'string' && token.type !== 'quotedIdentifier';
+
+    // A custom delimiter always ends the statement; ';' only outside blocks
+    const canEnd = delimiter !== ';' || (blockDepth === 0 && !pendingBlock);
+    if (isCode && canEnd && sql.startsWith(delimiter, token.start)) {
+      flush();
+      t = skipTo(tokens, t, token.start + delimiter.length);
+      continue;
+    }
+
+    if (token.type === 'keyword') {
+      const next = tokens[t + 1];
+      const nextUpper = next?.text.toUpperCase();
+
+      switch (token.value) {
+        case 'BEGIN':
+          if (next !== undefined && next.text !== ';' && !TRANSACTION_WORDS.has(nextUpper)) {
+            blockDepth++;
+            pendingBlock = false;
+          }
+          break;
+        case 'CASE':
+          if (blockDepth > 0) {
+            blockDepth++;
+          }
+          break;
+        case 'END':
+          if (blockDepth > 0 && !UNCOUNTED_END_WORDS.has(nextUpper)) {
+            blockDepth--;
+          }
+          break;
+        case 'IS':
+          // Oracle: CREATE PROCEDURE p IS <declarations> BEGIN ... END
+          if (isCreateRoutine(current)) {
+            pendingBlock = true;
+          }
+          break;
+      }
+    } else if (upper === 'DECLARE' && !current.some(token => token.type !== 'comment')) {
+      // An anonymous block's declarations (DECLARE x NUMBER; BEGIN ... END), unlike
+      // SQL Server's DECLARE @x statement
+      const next = tokens[t + 1];
+      if (next && !next.text.startsWith('@')) {
+        pendingBlock = true;
+      }
+    }
+
+    current.push(token);
+  }
+
+  flush();
+  return statements;
+}
+
+function lexerOptionsFor(delimiter: string, lexerOptions: LexerOptions): LexerOptions {
+  return delimiter.includes('$') ? { ...lexerOptions, dollarQuotedStrings: false } : lexerOptions;
+}
+
+/**
+ * Split a word or operator token that contains the delimiter after its first
+ * character into the tokens before it, the delimiter and the tokens after it
+ */
+function splitAtDelimiter(sql: string, token: Token, delimiter: string, lexerOptions: LexerOptions): Token[] | undefined {
+  if (token.type !== 'keyword' && token.type !== 'identifier' && token.type !== 'operator') {
+    return undefined;
+  }
+  const at = sql.indexOf(delimiter, token.start + 1);
+  const delimiterEnd = at + delimiter.length;
+  if (at === -1 || delimiterEnd > token.end) {
+    return undefined;
+  }
+
+  const lex = (start: number, end: number) => tokenize(sql.slice(start, end), lexerOptions)
+    .map(piece => ({ ...piece, start: piece.start + start, end: piece.end + start }));
+  const separator: Token = { type: 'operator', text: delimiter, value: delimiter, start: at, end: delimiterEnd };
+  return [...lex(token.start, at), separator, ...(delimiterEnd < token.end ? lex(delimiterEnd, token.end) : [])];
+}
+
+function isAtLineStart(sql: string, offset: number): boolean {
+  const lineStart = sql.lastIndexOf('\n', offset - 1) + 1;
+  return sql.slice(lineStart, offset).trim() === '';
+}
+
+function findLineEnd(sql: string, offset: number): number {
+  const lineEnd = sql.indexOf('\n', offset);
+  return lineEnd === -1 ? sql.length : lineEnd;
+}
+
+/**
+ * Return the index of the last token starting before the given offset, so the
+ * caller's loop increment lands on the first token at or after it
+ */
+function skipTo(tokens: Token[], index: number, offset: number): number {
+  let t = index;
+  while (t + 1 < tokens.length && tokens[t + 1].start < offset) {
+    t++;
+  }
+  return t;
+}
+
+/**
+ * Whether the tokens so far start a CREATE [OR REPLACE] PROCEDURE/FUNCTION/PACKAGE
+ * statement, outside any parentheses
+ */
+function isCreateRoutine(tokens: Token[]): boolean {
+  const significant = tokens.filter(token => token.type !== 'comment');
+  if (significant[0]?.value !== 'CREATE') {
+    return false;
+  }
+
+  let depth = 0;
+  for (const token of significant) {
+    if (token.text === '(') {
+      depth++;
+    } else if (token.text === ')') {
+      depth--;
+    }
+  }
+
+  return depth === 0 && significant.some(token => ROUTINE_WORDS.has(token.text.toUpperCase()));
+}
@@ -0,0 +1,314 @@
+import { getDialectLexerOptions, SqlDialect, SqlDialectName } from './dialects.js';
+import { createPositionLookup, Token, tokenize } from './lexer.js';
+import { StatementExtractionResult, TableExtractionOptions, TableExtractionResult } from './parser.js';
+
+export type TemplateConstructKind = 'ref' | 'source' | 'snippet' | 'expression' | 'block' | 'comment' | 'optional' | 'parameter';
+
+export interface TemplateOptions {
+  /** Table names for dbt models, by model name or 'package.model': ref('orders') becomes refs.orders */
+  refs?: Record<string, string>;
+  /** Table names for dbt sources, by 'source.table': source('raw', 'events') becomes sources['raw.events'] */
+  sources?: Record<string, string>;
+  /** SQL to insert for Metabase snippets and saved question tags, by name: {{snippet: active}}, {{#12-orders}} */
+  snippets?: Record<string, string>;
+  /** Dialect whose lexer rules locate bind parameters outside strings and comments */
+  dialect?: SqlDialectName | SqlDialect;
+}
+
+/** A template tag or bind parameter and what it was replaced with */
+export interface TemplateConstruct {
+  kind: TemplateConstructKind;
+  /** The construct as written */
+  text: string;
+  /** Table a ref() or source() resolved to */
+  table?: string;
+  /** Text the construct was replaced with in the rendered SQL */
+  replacement: string;
+  /** Offsets in the template */
+  start: number;
+  end: number;
+  /** Offsets in the rendered SQL */
+  renderedStart: number;
+  renderedEnd: number;
+}
+
+export interface RenderedTemplate {
+  /** Plain SQL, with every construct replaced */
+  sql: string;
+  /** Constructs found, in template order */
+  constructs: TemplateConstruct[];
+  /** Map an offset in the rendered SQL back to the template */
+  toTemplateOffset(offset: number): number;
+}
+
+type Replacement = Omit<TemplateConstruct, 'renderedStart' | 'renderedEnd'>;
+
+/** Replacement for expressions and placeholders: a literal valid wherever a value is */
+const VALUE_PLACEHOLDER = 'NULL';
+
+/** Replacement for Metabase saved question tags with no supplied SQL: a derived table rather than a table name */
+const QUESTION_PLACEHOLDER = '(SELECT NULL)';
+
+/** Replacement for tags producing no SQL; a space keeps the words around them apart */
+const BLANK = ' ';
+
+const REF_PATTERN = /^ref\s*\(([\s\S]*)\)$/;
+
+const SOURCE_PATTERN = /^source\s*\(([\s\S]*)\)$/;
+
+const SNIPPET_PATTERN = /^snippet\s*:\s*([\s\S]+)$/;
+
+/** dbt calls that configure the model and render to nothing */
+const SILENT_CALL_PATTERN = /^config\s*\(/;
+
+/**
+ * Turn templated SQL into plain SQL that tables can be extracted from:
+ *
+ * - dbt `{{ ref('model') }}` and `{{ source('name', 'table') }}` become table
+ *   names, looked up in the supplied mappings or spelled from their arguments
+ * - Metabase `{{snippet: name}}` and `{{#12-question}}` tags become the
+ *   supplied SQL, or nothing and `(SELECT NULL)` respectively
+ * - other `{{ ... }}` expressions and `:name`, `$1` and `?` bind parameters
+ *   become NULL; `{{ config(...) }}`, `{% ... %}` tags and `{# ... #}`
+ *   comments are blanked, keeping the SQL of every branch
+ * - the `[[` and `]]` around Metabase optional clauses are blanked, keeping
+ *   the clause
+ *
+ * Jinja tags are recognized anywhere, bind parameters only outside strings
+ * and comments. Use `toTemplateOffset` to map positions in the rendered SQL
+ * back to the template.
+ */
+export function renderTemplate(template: string, options: TemplateOptions = {}): RenderedTemplate {
+  const replacements = findJinjaTags(template, options);
+
+  // Blank the tags out without moving anything, so the lexer sees the SQL around them
+  let blanked = template;
+  for (const { start, end } of replacements) {
+    blanked = blanked.slice(0, start) + ' '.repeat(end - start) + blanked.slice(end);
+  }
+  replacements.push(...findParameters(template, tokenize(blanked, getDialectLexerOptions(options.dialect))));
+  replacements.sort((a, b) => a.start - b.start);
+
+  const constructs: TemplateConstruct[] = [];
+  let sql = '';
+  let copied = 0;
+  for (const replacement of replacements) {
+    sql += template.slice(copied, replacement.start);
+    constructs.push({ ...replacement, renderedStart: sql.length, renderedEnd: sql.length + replacement.replacement.length });
+    sql += replacement.replacement;
+    copied = replacement.end;
+  }
+  sql += template.slice(copied);
+
+  const toTemplateOffset = (offset: number): number => {
+    let last: TemplateConstruct | undefined;
+    for (const construct of constructs) {
+      if (construct.renderedStart > offset) {
+        break;
+      }
+      last = construct;
+    }
+    if (!last) {
+      return offset;
+    }
+    // Offsets within a replacement map into the construct, never past it
+    return offset < last.renderedEnd
+      ? last.start + Math.min(offset - last.renderedStart, last.end - last.start)
+      : last.end + offset - last.renderedEnd;
+  };
+
+  return { sql, constructs, toTemplateOffset };
+}
+
+/**
+ * Render SQL with the `template` option and dialect of a table extraction
+ */
+export function renderExtractionTemplate(sql: string, options: TableExtractionOptions): RenderedTemplate {
+  const templateOptions = typeof options.template === 'object' ? options.template : {};
+  return renderTemplate(sql, { dialect: options.dialect, ...templateOptions });
+}
+
+/**
+ * Move the offsets, positions and raw text of an extraction result made from
+ * a rendered template back onto the template
+ */
+export function mapResultToTemplate<T extends TableExtractionResult | StatementExtractionResult>(
+  result: T,
+  template: string,
+  rendered: RenderedTemplate
+): T {
+  const toPosition = createPositionLookup(template);
+  const mapRange = <R extends { start: number; end: number }>(range: R): R => {
+    const start = rendered.toTemplateOffset(range.start);
+    return { ...range, start, end: rendered.toTemplateOffset(range.end) };
+  };
+  const mapSource = <R extends { start: number; end: number; rawText: string; line: number; column: number }>(range: R): R => {
+    const mapped = mapRange(range);
+    return { ...mapped, rawText: template.slice(mapped.start, mapped.end), ...toPosition(mapped.start) };
+  };
+
+  const mapped: T = {
+    ...result,
+    references: result.references.map(mapSource),
+    tableFunctions: result.tableFunctions.map(mapSource),
+    scopes: result.scopes.map(mapRange),
+    diagnostics: result.diagnostics.map(diagnostic => {
+      const range = mapRange(diagnostic);
+      return { ...range, ...toPosition(range.start) };
+    })
+  };
+  if ('statement' in mapped) {
+    const statement = mapRange(mapped.statement);
+    mapped.statement = { ...statement, text: template.slice(statement.start, statement.end), ...toPosition(statement.start) };
+  }
+  return mapped;
+}
+
+/**
+ * Find the Jinja and Metabase tags of a template and work out their replacements
+ */
+function findJinjaTags(template: string, options: TemplateOptions): Replacement[] {
+  const replacements: Replacement[] = [];
+  let i = 0;
+  // End of the Metabase optional clause being scanned; they do not nest
+  let optionalEnd = 0;
+
+  while (i < template.length) {
+    const open = template.slice(i, i + 2);
+    if (open === '[[' && i >= optionalEnd) {
+      // Metabase optional clause: [[AND x = {{x}}]]. Its tags are found as the scan goes on
+      const close = template.indexOf(']]', i + 2);
+      if (close !== -1) {
+        replacements.push({ kind: 'optional', text: open, replacement: BLANK, start: i, end: i + 2 });
+        replacements.push({ kind: 'optional', text: ']]', replacement: BLANK, start: close, end: close + 2 });
+        optionalEnd = close + 2;
+      }
+      i += 2;
+      continue;
+    }
+    if (open !== '{{' && open !== '{%' && open !== '{#') {
+      i++;
+      continue;
+    }
+    const close = open === '{{' ? '}}' : open === '{%' ? '%}' : '#}';
+    const end = findTagEnd(template, i + 2, close, open === '{#');
+    if (end === undefined) {
+      break;
+    }
+
+    const text = template.slice(i, end);
+    // Strip the delimiters and the whitespace control markers: {{- ... -}}
+    const inner = text.slice(2, -2).replace(/^[-+]/, '').replace(/[-+]$/, '').trim();
+    const rendered = open === '{{'
+      ? readExpression(inner, options)
+      : { kind: open === '{%' ? 'block' as const : 'comment' as const, replacement: BLANK };
+    replacements.push({ ...rendered, text, start: i, end });
+    i = end;
+  }
+  return replacements;
+}
+
+/**
+ * Offset just past the closing delimiter of a tag, skipping quoted strings in
+ * tags other than comments
+ */
+function findTagEnd(template: string, from: number, close: string, isComment: boolean): number | undefined {
+  let quote: string | undefined;
+  for (let i = from; i < template.length; i++) {
+    const char = template[i];
+    if (quote) {
+      if (char === '\\') {
+        i++;
+      } else if (char === quote) {
+        quote = undefined;
+      }
+    } else if (!isComment && (char === "'" || char === '"')) {
+      quote = char;
+    } else if (template.startsWith(close, i)) {
+      return i + close.length;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * What a {{ ... }} expression renders to
+ */
+function readExpression(expression: string, options: TemplateOptions): Pick<Replacement, 'kind' | 'table' | 'replacement'> {
+  const ref = REF_PATTERN.exec(expression);
+  if (ref) {
+    // ref('model'), ref('package', 'model'), ref('model', v=2)
+    const names = readStringArguments(ref[1]);
+    const model = names[names.length - 1];
+    if (model !== undefined) {
+      const table = (names.length > 1 ? options.refs?.[`${names[0]}.${model}`] : undefined) ?? options.refs?.[model] ?? model;
+      return { kind: 'ref', table, replacement: table };
+    }
+  }
+
+  const source = SOURCE_PATTERN.exec(expression);
+  if (source) {
+    const [name, tableName] = readStringArguments(source[1]);
+    if (name !== undefined && tableName !== undefined) {
+      const table = options.sources?.[`${name}.${tableName}`] ?? `${name}.${tableName}`;
+      return { kind: 'source', table, replacement: table };
+    }
+  }
+
+  const snippet = SNIPPET_PATTERN.exec(expression);
+  if (snippet) {
+    return { kind: 'snippet', replacement: options.snippets?.[snippet[1].trim()] ?? BLANK };
+  }
+  if (expression.startsWith('#')) {
+    return { kind: 'snippet', replacement: options.snippets?.[expression.slice(1).trim()] ?? QUESTION_PLACEHOLDER };
+  }
+
+  return { kind: 'expression', replacement: SILENT_CALL_PATTERN.test(expression) ? BLANK : VALUE_PLACEHOLDER };
+}
+
+/**
+ * The quoted positional arguments of a call, stopping at the first keyword argument
+ */
+function readStringArguments(args: string): string[] {
+  const values: string[] = [];
+  const pattern = /\s*(?:'((?:\\.|[^'\\])*)'|"((?:\\.|[^"\\])*)")\s*(?:,|$)/y;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(args))) {
+    values.push(match[1] ?? match[2]);
+  }
+  return values;
+}
+
+/**
+ * Find the bind parameters among the tokens of a template: ?, :name, :1 and $1
+ */
+function findParameters(template: string, tokens: Token[]): Replacement[] {
+  const replacements: Replacement[] = [];
+  const adjacent = (token: Token | undefined, offset: number) => token !== undefined && token.start === offset;
+
+  tokens.forEach((token, index) => {
+    if (token.type !== 'operator') {
+      return;
+    }
+    const previous = tokens[index - 1];
+    const next = tokens[index + 1];
+    let end: number | undefined;
+
+    if (token.text === '?') {
+      // ?| and ?& are PostgreSQL JSON operators
+      end = adjacent(next, token.end) && (next.text === '|' || next.text === '&') ? undefined : token.end;
+    } else if (token.text === ':' && adjacent(next, token.end) && next.type !== 'operator' && next.type !== 'punctuation' && next.type !== 'string') {
+      // v:name is a Snowflake path into a variant, not a parameter
+      const followsValue = previous !== undefined && previous.end === token.start &&
+        (previous.type !== 'operator' && previous.type !== 'punctuation' || previous.text === ')' || previous.text === ']');
+      end = followsValue ? undefined : next.end;
+    } else if (token.text === '$' && adjacent(next, token.end) && next.type === 'number') {
+      end = next.end;
+    }
+
+    if (end !== undefined) {
+      replacements.push({ kind: 'parameter', text: template.slice(token.start, end), replacement: VALUE_PLACEHOLDER, start: token.start, end });
+    }
+  });
+  return replacements;
+}
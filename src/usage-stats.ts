@@ -0,0 +1,242 @@
+import { TableCatalog } from './catalog.js';
+import { SqlTableExtractor, TableExtractionOptions, TableExtractionResult, TableReference } from './parser.js';
+
+/** A query to aggregate, with when and by whom it ran if known */
+export interface UsageQuery {
+  sql: string;
+  /** When the query ran: a Date, epoch seconds or milliseconds, or a date string */
+  timestamp?: Date | number | string;
+  /** User who ran the query */
+  user?: string;
+  /** Database the query ran against, used as its current database */
+  database?: string;
+}
+
+export interface TableUsageOptions extends TableExtractionOptions {
+  /** Number of most joined tables reported per table (default: 5) */
+  topJoins?: number;
+}
+
+/** How often one table is joined with another */
+export interface JoinedTable {
+  table: string;
+  /** Number of queries joining the two tables */
+  queries: number;
+}
+
+export interface TableUsageStats {
+  table: string;
+  /** Number of queries referencing the table */
+  queries: number;
+  /** Number of queries reading the table */
+  reads: number;
+  /** Number of queries changing the table's rows or definition */
+  writes: number;
+  /** Earliest timestamp of a query referencing the table, as an ISO string */
+  firstSeen?: string;
+  /** Latest timestamp of a query referencing the table, as an ISO string */
+  lastSeen?: string;
+  /** Distinct users of the queries referencing the table */
+  users: string[];
+  /** Tables most often read alongside it in the same FROM clause, most joined first */
+  joinedWith: JoinedTable[];
+}
+
+export interface TableUsageReport {
+  /** Number of queries added */
+  queries: number;
+  /** Queries the extractor failed on */
+  failedQueries: number;
+  /** Statistics of each referenced table, most used first */
+  tables: TableUsageStats[];
+  /** Known tables no query referenced, by fully qualified name */
+  unusedTables: string[];
+}
+
+/** Running totals of one table */
+interface TableTotals {
+  queries: number;
+  reads: number;
+  writes: number;
+  firstSeen?: number;
+  lastSeen?: number;
+  users: Set<string>;
+  joins: Map<string, number>;
+}
+
+/** Epoch times below this are taken as seconds rather than milliseconds (it is March 1973 in milliseconds) */
+const EPOCH_SECONDS_LIMIT = 1e11;
+
+/** Timestamps of MySQL's older logs: YYMMDD H:MM:SS */
+const SHORT_MYSQL_TIMESTAMP = /^(\d\d)(\d\d)(\d\d)\s+(\d{1,2}):(\d\d):(\d\d)$/;
+
+/**
+ * Aggregates table usage across many queries: how often each table is
+ * referenced, read and written, when it was first and last seen, by whom and
+ * with which tables it is joined. With `knownTables`, known tables that no
+ * query referenced are reported as unused.
+ */
+export class TableUsageAggregator {
+  private readonly options: TableUsageOptions;
+  private readonly tables = new Map<string, TableTotals>();
+  private queries = 0;
+  private failedQueries = 0;
+
+  constructor(options: TableUsageOptions = {}) {
+    // Index the known tables once for all queries
+    const knownTables = options.knownTables && TableCatalog.from(options.knownTables, {
+      dialect: options.dialect,
+      caseInsensitive: options.caseInsensitive
+    });
+    this.options = { ...options, knownTables };
+  }
+
+  /**
+   * Add one query. A query the extractor fails on is counted as failed.
+   */
+  add(query: UsageQuery | string): this {
+    const { sql, timestamp, user, database } = typeof query === 'string' ? { sql: query } as UsageQuery : query;
+    this.queries++;
+
+    let result: TableExtractionResult;
+    try {
+      result = SqlTableExtractor.extractTableNames(sql, {
+        ...this.options,
+        currentDatabase: database ?? this.options.currentDatabase
+      });
+    } catch {
+      this.failedQueries++;
+      return this;
+    }
+
+    const time = timestamp !== undefined ? parseTimestamp(timestamp) : undefined;
+    const realTables = new Set(result.realTables);
+    const joined = joinedTables(result.references.filter(reference => realTables.has(reference.resolvedName)));
+
+    for (const table of result.realTables) {
+      const totals = this.getTotals(table);
+      const modes = result.tableAccess[table] ?? [];
+      totals.queries++;
+      if (modes.includes('read')) {
+        totals.reads++;
+      }
+      if (modes.some(mode => mode !== 'read')) {
+        totals.writes++;
+      }
+      if (time !== undefined) {
+        totals.firstSeen = Math.min(totals.firstSeen ?? time, time);
+        totals.lastSeen = Math.max(totals.lastSeen ?? time, time);
+      }
+      if (user !== undefined) {
+        totals.users.add(user);
+      }
+      for (const other of joined.get(table) ?? []) {
+        totals.joins.set(other, (totals.joins.get(other) ?? 0) + 1);
+      }
+    }
+    return this;
+  }
+
+  /**
+   * Add every query of a list
+   */
+  addAll(queries: Iterable<UsageQuery | string>): this {
+    for (const query of queries) {
+      this.add(query);
+    }
+    return this;
+  }
+
+  /**
+   * Statistics of the queries added so far
+   */
+  getReport(): TableUsageReport {
+    const topJoins = this.options.topJoins ?? 5;
+    const tables = Array.from(this.tables, ([table, totals]): TableUsageStats => ({
+      table,
+      queries: totals.queries,
+      reads: totals.reads,
+      writes: totals.writes,
+      ...(totals.firstSeen !== undefined && { firstSeen: new Date(totals.firstSeen).toISOString() }),
+      ...(totals.lastSeen !== undefined && { lastSeen: new Date(totals.lastSeen).toISOString() }),
+      users: Array.from(totals.users).sort(),
+      joinedWith: Array.from(totals.joins, ([other, queries]) => ({ table: other, queries }))
+        .sort((a, b) => b.queries - a.queries || a.table.localeCompare(b.table))
+        .slice(0, topJoins)
+    })).sort((a, b) => b.queries - a.queries || a.table.localeCompare(b.table));
+
+    const unusedTables = new Set<string>();
+    if (this.options.knownTables) {
+      for (const metadata of this.options.knownTables.values()) {
+        if (!this.tables.has(metadata.fullyQualifiedName)) {
+          unusedTables.add(metadata.fullyQualifiedName);
+        }
+      }
+    }
+
+    return {
+      queries: this.queries,
+      failedQueries: this.failedQueries,
+      tables,
+      unusedTables: Array.from(unusedTables).sort()
+    };
+  }
+
+  private getTotals(table: string): TableTotals {
+    let totals = this.tables.get(table);
+    if (!totals) {
+      totals = { queries: 0, reads: 0, writes: 0, users: new Set(), joins: new Map() };
+      this.tables.set(table, totals);
+    }
+    return totals;
+  }
+}
+
+/**
+ * The tables read alongside each table in the same query scope
+ */
+function joinedTables(references: TableReference[]): Map<string, Set<string>> {
+  const byScope = new Map<number, Set<string>>();
+  for (const reference of references) {
+    if (reference.access === 'read') {
+      const tables = byScope.get(reference.scopeId) ?? new Set<string>();
+      tables.add(reference.resolvedName);
+      byScope.set(reference.scopeId, tables);
+    }
+  }
+
+  const joined = new Map<string, Set<string>>();
+  for (const tables of byScope.values()) {
+    for (const table of tables) {
+      for (const other of tables) {
+        if (other !== table) {
+          const others = joined.get(table) ?? new Set<string>();
+          others.add(other);
+          joined.set(table, others);
+        }
+      }
+    }
+  }
+  return joined;
+}
+
+/**
+ * Milliseconds since the epoch of a timestamp, or undefined when it cannot be read
+ */
+function parseTimestamp(timestamp: Date | number | string): number | undefined {
+  if (timestamp instanceof Date) {
+    return Number.isNaN(timestamp.getTime()) ? undefined : timestamp.getTime();
+  }
+  if (typeof timestamp === 'number' || /^\d+(?:\.\d+)?$/.test(timestamp.trim())) {
+    const time = Number(timestamp);
+    return Number.isFinite(time) ? (time < EPOCH_SECONDS_LIMIT ? time * 1000 : time) : undefined;
+  }
+
+  const short = SHORT_MYSQL_TIMESTAMP.exec(timestamp.trim());
+  if (short) {
+    const [, year, month, day, hours, minutes, seconds] = short;
+    return Date.UTC(2000 + Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds));
+  }
+  const time = Date.parse(timestamp);
+  return Number.isNaN(time) ? undefined : time;
+}